@@ -0,0 +1,117 @@
+import {
+  AmountRules,
+  DEFAULT_AMOUNT_RULES,
+  evaluateAmountRules,
+  planPaymentAnnouncement,
+  validateAmountRules,
+} from "@/app/services/AmountRules";
+import { DEFAULT_TEMPLATE_SETTINGS } from "@/app/services/AnnouncementTemplates";
+import { PaymentEvent } from "@/app/services/parsers";
+
+const rules: AmountRules = {
+  ...DEFAULT_AMOUNT_RULES,
+  minAmount: 10000,
+  highValueAmount: 1000000,
+  highValueChime: "bell",
+  repeatAmount: 10000000,
+};
+
+const payment = (amount: number): PaymentEvent => ({
+  amount,
+  sender: "TRAN B",
+  reference: null,
+  transactionId: null,
+  account: null,
+  sourceApp: "momo",
+  packageName: "com.mservice.momotransfer",
+  rawText: "",
+  receivedAt: 0,
+  notificationKey: null,
+});
+
+describe("evaluateAmountRules", () => {
+  it("announces every payment with the default rules", () => {
+    expect(evaluateAmountRules(DEFAULT_AMOUNT_RULES, 1000)).toEqual({
+      announce: true,
+      isHighValue: false,
+      repeat: 1,
+    });
+  });
+
+  it("ignores payments below the minimum", () => {
+    expect(evaluateAmountRules(rules, 9999).announce).toBe(false);
+    expect(evaluateAmountRules(rules, 10000).announce).toBe(true);
+  });
+
+  it("flags payments from the high-value amount", () => {
+    expect(evaluateAmountRules(rules, 999999).isHighValue).toBe(false);
+    expect(evaluateAmountRules(rules, 1000000).isHighValue).toBe(true);
+  });
+
+  it("repeats payments from the repeat amount", () => {
+    expect(evaluateAmountRules(rules, 9999999).repeat).toBe(1);
+    expect(evaluateAmountRules(rules, 10000000)).toEqual({
+      announce: true,
+      isHighValue: true,
+      repeat: 2,
+    });
+  });
+});
+
+describe("planPaymentAnnouncement", () => {
+  it("returns null for ignored payments", () => {
+    expect(
+      planPaymentAnnouncement(payment(5000), DEFAULT_TEMPLATE_SETTINGS, rules)
+    ).toBeNull();
+  });
+
+  it("uses the wallet's template for normal payments", () => {
+    expect(
+      planPaymentAnnouncement(payment(50000), DEFAULT_TEMPLATE_SETTINGS, rules)
+    ).toEqual({
+      text: "Bạn vừa nhận được năm mươi nghìn đồng từ TRAN B",
+      chime: null,
+      standalone: false,
+    });
+  });
+
+  it("uses the high-value template and chime", () => {
+    expect(
+      planPaymentAnnouncement(
+        payment(2000000),
+        { ...DEFAULT_TEMPLATE_SETTINGS, language: "en" },
+        rules
+      )
+    ).toEqual({
+      text: "Large payment. You have received 2,000,000 VND from TRAN B",
+      chime: "bell",
+      standalone: true,
+    });
+  });
+
+  it("speaks very large payments twice", () => {
+    const planned = planPaymentAnnouncement(
+      payment(15000000),
+      { ...DEFAULT_TEMPLATE_SETTINGS, language: "en" },
+      { ...rules, highValueTemplates: { vi: "", en: "Big one: {amount}." } }
+    );
+    expect(planned?.text).toBe("Big one: 15,000,000. Big one: 15,000,000");
+    expect(planned?.standalone).toBe(true);
+  });
+});
+
+describe("validateAmountRules", () => {
+  it("accepts the defaults and sensible rules", () => {
+    expect(validateAmountRules(DEFAULT_AMOUNT_RULES)).toBeNull();
+    expect(validateAmountRules(rules)).toBeNull();
+  });
+
+  it("rejects thresholds at or below the minimum", () => {
+    expect(
+      validateAmountRules({ ...rules, highValueAmount: 10000 })
+    ).not.toBeNull();
+    expect(
+      validateAmountRules({ ...rules, repeatAmount: 5000 })
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  buildDailyRecapAnnouncement,
+  buildMissedPaymentsAnnouncement,
+  buildTransactionAnnouncement,
+} from "@/app/services/AnnouncementBuilder";
+
+describe("buildMissedPaymentsAnnouncement", () => {
+  it("summarises payments missed while the app was closed", () => {
+    expect(buildMissedPaymentsAnnouncement(2, 150000)).toBe(
+      "Trong lúc vắng, đã nhận hai giao dịch, tổng cộng một trăm năm mươi nghìn đồng"
+    );
+    expect(buildMissedPaymentsAnnouncement(1, 50000, "en")).toBe(
+      "While you were away, 1 payment was received, total 50,000 VND"
+    );
+  });
+});
+
+describe("buildDailyRecapAnnouncement", () => {
+  it("recaps the day at closing time", () => {
+    expect(buildDailyRecapAnnouncement(42, 12500000)).toBe(
+      "Hôm nay nhận bốn mươi hai giao dịch, tổng cộng mười hai triệu năm trăm nghìn đồng"
+    );
+    expect(buildDailyRecapAnnouncement(0, 0)).toBe(
+      "Hôm nay chưa nhận giao dịch nào"
+    );
+    expect(buildDailyRecapAnnouncement(2, 80000, "en")).toBe(
+      "Today 2 payments were received, total 80,000 VND"
+    );
+  });
+});
+
+describe("buildTransactionAnnouncement", () => {
+  it("announces other transaction categories", () => {
+    expect(buildTransactionAnnouncement("sent", 150000)).toBe(
+      "Đã chuyển đi một trăm năm mươi nghìn đồng"
+    );
+    expect(buildTransactionAnnouncement("topup", 200000, "en")).toBe(
+      "Topped up 200,000 VND"
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  AnnouncementChannel,
+  ChannelDeliverer,
+  DEFAULT_FALLBACK_CHAIN,
+  deliverWithFallback,
+  moveChannel,
+  normalizeFallbackChain,
+  setChannelEnabled,
+} from "@/app/services/AnnouncementFallback";
+
+const createDeliverers = (
+  available: Partial<Record<AnnouncementChannel, boolean | Error>>
+) => {
+  const create = (channel: AnnouncementChannel): ChannelDeliverer =>
+    jest.fn(async () => {
+      const result = available[channel] ?? false;
+      if (result instanceof Error) throw result;
+      return result;
+    });
+
+  return {
+    bluetooth: create("bluetooth"),
+    loudspeaker: create("loudspeaker"),
+    vibration: create("vibration"),
+    notification: create("notification"),
+  };
+};
+
+describe("deliverWithFallback", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("uses the speaker when it is available", async () => {
+    const deliverers = createDeliverers({ bluetooth: true, loudspeaker: true });
+
+    await expect(
+      deliverWithFallback("hello", DEFAULT_FALLBACK_CHAIN, deliverers)
+    ).resolves.toBe("bluetooth");
+    expect(deliverers.loudspeaker).not.toHaveBeenCalled();
+  });
+
+  it("falls through unavailable and failing channels in order", async () => {
+    const deliverers = createDeliverers({
+      loudspeaker: new Error("TTS not ready"),
+      notification: true,
+    });
+
+    await expect(
+      deliverWithFallback("hello", DEFAULT_FALLBACK_CHAIN, deliverers)
+    ).resolves.toBe("notification");
+    expect(deliverers.bluetooth).toHaveBeenCalledWith("hello");
+    expect(deliverers.vibration).toHaveBeenCalledWith("hello");
+  });
+
+  it("skips disabled channels and reports when nothing delivered", async () => {
+    const deliverers = createDeliverers({ vibration: true });
+    const chain = setChannelEnabled(DEFAULT_FALLBACK_CHAIN, "vibration", false);
+
+    await expect(deliverWithFallback("hello", chain, deliverers)).resolves.toBe(
+      null
+    );
+    expect(deliverers.vibration).not.toHaveBeenCalled();
+  });
+});
+
+describe("fallback chain settings", () => {
+  it("moves channels within the chain", () => {
+    const chain = moveChannel(DEFAULT_FALLBACK_CHAIN, "notification", -1);
+
+    expect(chain.map(({ channel }) => channel)).toEqual([
+      "bluetooth",
+      "loudspeaker",
+      "notification",
+      "vibration",
+    ]);
+    expect(moveChannel(chain, "bluetooth", -1)).toBe(chain);
+  });
+
+  it("repairs chains saved by other app versions", () => {
+    const stored = [
+      { channel: "notification", enabled: false },
+      { channel: "pager", enabled: true },
+      { channel: "notification", enabled: true },
+    ] as unknown as typeof DEFAULT_FALLBACK_CHAIN;
+
+    expect(normalizeFallbackChain(stored)).toEqual([
+      { channel: "notification", enabled: false },
+      { channel: "bluetooth", enabled: true },
+      { channel: "loudspeaker", enabled: true },
+      { channel: "vibration", enabled: true },
+    ]);
+  });
+});
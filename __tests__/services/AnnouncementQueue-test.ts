@@ -0,0 +1,183 @@
+import { createAnnouncementQueue } from "@/app/services/AnnouncementQueue";
+
+// A fake speech engine where each utterance finishes when the test says so
+const createPlayer = () => {
+  const spoken: string[] = [];
+  let finishCurrent: (() => void) | null = null;
+
+  return {
+    spoken,
+    play: jest.fn((text: string) => {
+      spoken.push(text);
+      return new Promise<void>((resolve) => {
+        finishCurrent = resolve;
+      });
+    }),
+    stop: jest.fn(async () => finishCurrent?.()),
+    finish: async () => {
+      finishCurrent?.();
+      // Let the queue pick up the next announcement
+      await new Promise((resolve) => setImmediate(resolve));
+    },
+  };
+};
+
+describe("createAnnouncementQueue", () => {
+  it("plays announcements one at a time in order", async () => {
+    const player = createPlayer();
+    const queue = createAnnouncementQueue(player);
+
+    const first = queue.enqueue("first");
+    queue.enqueue("second");
+
+    expect(player.spoken).toEqual(["first"]);
+    expect(queue.getState().pending.map((item) => item.text)).toEqual([
+      "second",
+    ]);
+
+    await player.finish();
+    await expect(first).resolves.toBe("played");
+    expect(player.spoken).toEqual(["first", "second"]);
+  });
+
+  it("drops the oldest waiting announcements beyond maxLength", async () => {
+    const player = createPlayer();
+    const queue = createAnnouncementQueue(player, { maxLength: 1 });
+
+    queue.enqueue("playing");
+    const dropped = queue.enqueue("old");
+    queue.enqueue("new");
+
+    await expect(dropped).resolves.toBe("dropped");
+    expect(queue.getState().droppedCount).toBe(1);
+    expect(queue.getState().pending.map((item) => item.text)).toEqual(["new"]);
+  });
+
+  it("coalesces waiting payments into one summary", async () => {
+    const player = createPlayer();
+    const queue = createAnnouncementQueue(player, { coalesce: true });
+
+    queue.enqueue("payment 1", { payment: { amount: 50000 } });
+    const second = queue.enqueue("payment 2", { payment: { amount: 100000 } });
+    queue.enqueue("payment 3", { payment: { amount: 100000 } });
+
+    await player.finish();
+
+    await expect(second).resolves.toBe("coalesced");
+    expect(player.spoken).toEqual([
+      "payment 1",
+      "2 payments received, total 200,000 đồng",
+    ]);
+  });
+
+  it("keeps large or repeated payments out of the summary", async () => {
+    const player = createPlayer();
+    const queue = createAnnouncementQueue(player, { coalesce: true });
+
+    queue.enqueue("first");
+    queue.enqueue("large payment", {
+      payment: { amount: 5000000, chime: "bell", standalone: true },
+    });
+    queue.enqueue("payment 1", { payment: { amount: 1000 } });
+    queue.enqueue("payment 2", { payment: { amount: 2000 } });
+
+    await player.finish();
+    expect(player.play).toHaveBeenLastCalledWith(
+      "large payment",
+      expect.objectContaining({
+        payment: expect.objectContaining({ chime: "bell" }),
+      })
+    );
+
+    await player.finish();
+    expect(player.spoken).toEqual([
+      "first",
+      "large payment",
+      "2 payments received, total 3,000 đồng",
+    ]);
+  });
+
+  it("only merges payments going to the same speakers", async () => {
+    const player = createPlayer();
+    const queue = createAnnouncementQueue(player, { coalesce: true });
+
+    queue.enqueue("first");
+    queue.enqueue("payment 1", { payment: { amount: 1000 }, speakers: ["A"] });
+    queue.enqueue("payment 2", { payment: { amount: 2000 }, speakers: ["B"] });
+    queue.enqueue("payment 3", { payment: { amount: 3000 }, speakers: ["A"] });
+    await player.finish();
+
+    expect(player.play).toHaveBeenLastCalledWith(
+      "2 payments received, total 4,000 đồng",
+      expect.objectContaining({ speakers: ["A"] })
+    );
+
+    await player.finish();
+    expect(player.play).toHaveBeenLastCalledWith(
+      "payment 2",
+      expect.objectContaining({ speakers: ["B"] })
+    );
+  });
+
+  it("lets priority announcements interrupt and replays the interrupted one", async () => {
+    const player = createPlayer();
+    const queue = createAnnouncementQueue(player);
+
+    queue.enqueue("normal");
+    queue.enqueue("later");
+    queue.enqueue("urgent", { priority: true });
+
+    expect(player.stop).toHaveBeenCalled();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(player.spoken).toEqual(["normal", "urgent"]);
+
+    await player.finish();
+    await player.finish();
+    expect(player.spoken).toEqual(["normal", "urgent", "normal", "later"]);
+  });
+
+  it("notifies subscribers and clears waiting announcements", async () => {
+    const player = createPlayer();
+    const queue = createAnnouncementQueue(player);
+    const listener = jest.fn();
+    queue.subscribe(listener);
+
+    queue.enqueue("playing");
+    const waiting = queue.enqueue("waiting");
+    queue.clear();
+
+    await expect(waiting).resolves.toBe("cleared");
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pending: [] })
+    );
+  });
+
+  it("reports the channel that delivered each announcement", async () => {
+    const play = jest
+      .fn()
+      .mockResolvedValueOnce("loudspeaker")
+      .mockResolvedValueOnce("notification")
+      .mockResolvedValueOnce(null);
+    const queue = createAnnouncementQueue(
+      { play, stop: jest.fn() },
+      { coalesce: true }
+    );
+    const onDelivered = jest.fn();
+
+    queue.enqueue("first", { onDelivered });
+    queue.enqueue("payment 1", { payment: { amount: 1000 }, onDelivered });
+    queue.enqueue("payment 2", { payment: { amount: 2000 }, onDelivered });
+    const failed = queue.enqueue("lost", { onDelivered });
+
+    await expect(failed).resolves.toBe("failed");
+    expect(onDelivered.mock.calls).toEqual([
+      ["loudspeaker"],
+      ["notification"],
+      ["notification"],
+      [null],
+    ]);
+    expect(queue.getState().lastDelivery).toEqual(
+      expect.objectContaining({ text: "lost", channel: null })
+    );
+  });
+});
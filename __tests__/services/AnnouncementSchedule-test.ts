@@ -0,0 +1,100 @@
+import {
+  AnnouncementSchedule,
+  DEFAULT_ANNOUNCEMENT_SCHEDULE,
+  addScheduleWindow,
+  copyScheduleDay,
+  isWithinSchedule,
+  removeScheduleWindow,
+} from "@/app/services/AnnouncementSchedule";
+
+// 2026-10-19 is a Monday (day 1)
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2026, 9, 18 + day, hours, minutes).getTime();
+
+const closed = (): AnnouncementSchedule => ({
+  ...DEFAULT_ANNOUNCEMENT_SCHEDULE,
+  enabled: true,
+  days: DEFAULT_ANNOUNCEMENT_SCHEDULE.days.map(() => []),
+});
+
+describe("isWithinSchedule", () => {
+  it("always announces when the schedule is off", () => {
+    expect(isWithinSchedule(DEFAULT_ANNOUNCEMENT_SCHEDULE, at(1, 3))).toBe(
+      true
+    );
+  });
+
+  it("announces inside the day's windows only", () => {
+    let schedule = addScheduleWindow(closed(), 1, {
+      start: 7 * 60,
+      end: 11 * 60,
+    });
+    schedule = addScheduleWindow(schedule, 1, { start: 17 * 60, end: 22 * 60 });
+
+    expect(isWithinSchedule(schedule, at(1, 6, 59))).toBe(false);
+    expect(isWithinSchedule(schedule, at(1, 7))).toBe(true);
+    expect(isWithinSchedule(schedule, at(1, 11))).toBe(false);
+    expect(isWithinSchedule(schedule, at(1, 18, 30))).toBe(true);
+    expect(isWithinSchedule(schedule, at(1, 22))).toBe(false);
+    // Same time on Tuesday, which has no windows
+    expect(isWithinSchedule(schedule, at(2, 8))).toBe(false);
+  });
+
+  it("continues overnight windows into the next day", () => {
+    const schedule = addScheduleWindow(closed(), 5, {
+      start: 18 * 60,
+      end: 2 * 60,
+    });
+
+    expect(isWithinSchedule(schedule, at(5, 23))).toBe(true);
+    expect(isWithinSchedule(schedule, at(6, 1, 30))).toBe(true);
+    expect(isWithinSchedule(schedule, at(6, 2))).toBe(false);
+    expect(isWithinSchedule(schedule, at(5, 1))).toBe(false);
+  });
+
+  it("wraps Saturday night into Sunday", () => {
+    const schedule = addScheduleWindow(closed(), 6, {
+      start: 20 * 60,
+      end: 60,
+    });
+
+    expect(isWithinSchedule(schedule, at(0, 0, 30))).toBe(true);
+  });
+
+  it("treats a window starting and ending together as 24 hours", () => {
+    const schedule = addScheduleWindow(closed(), 1, { start: 0, end: 0 });
+
+    expect(isWithinSchedule(schedule, at(1, 0))).toBe(true);
+    expect(isWithinSchedule(schedule, at(1, 23, 59))).toBe(true);
+    expect(isWithinSchedule(schedule, at(2, 0))).toBe(false);
+  });
+});
+
+describe("schedule windows", () => {
+  it("keeps windows ordered and removes them by index", () => {
+    let schedule = addScheduleWindow(closed(), 3, {
+      start: 17 * 60,
+      end: 22 * 60,
+    });
+    schedule = addScheduleWindow(schedule, 3, { start: 7 * 60, end: 11 * 60 });
+    expect(schedule.days[3].map((window) => window.start)).toEqual([
+      7 * 60,
+      17 * 60,
+    ]);
+
+    schedule = removeScheduleWindow(schedule, 3, 0);
+    expect(schedule.days[3]).toEqual([{ start: 17 * 60, end: 22 * 60 }]);
+  });
+
+  it("copies a day to the whole week", () => {
+    const schedule = copyScheduleDay(
+      addScheduleWindow(closed(), 2, { start: 8 * 60, end: 20 * 60 }),
+      2
+    );
+
+    expect(schedule.days).toHaveLength(7);
+    schedule.days.forEach((windows) =>
+      expect(windows).toEqual([{ start: 8 * 60, end: 20 * 60 }])
+    );
+  });
+});
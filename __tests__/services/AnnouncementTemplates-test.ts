@@ -0,0 +1,78 @@
+import {
+  DEFAULT_TEMPLATE_SETTINGS,
+  getTemplateForPayment,
+  renderTemplate,
+} from "@/app/services/AnnouncementTemplates";
+import { PaymentEvent } from "@/app/services/parsers";
+
+const payment: PaymentEvent = {
+  amount: 50000,
+  sender: "NGUYEN VAN A",
+  reference: "Tra tien ca phe",
+  transactionId: null,
+  account: null,
+  sourceApp: "momo",
+  packageName: "com.mservice.momotransfer",
+  rawText: "",
+  receivedAt: new Date(2024, 0, 1, 9, 5).getTime(),
+  notificationKey: null,
+};
+
+describe("renderTemplate", () => {
+  it("fills every placeholder", () => {
+    expect(
+      renderTemplate(
+        "{app}: {amount} ({amountWords}) từ {sender} lúc {time} - {memo}",
+        payment,
+        "vi"
+      )
+    ).toBe(
+      "MoMo: 50,000 (năm mươi nghìn đồng) từ NGUYEN VAN A lúc 09:05 - Tra tien ca phe"
+    );
+  });
+
+  it("uses the default templates", () => {
+    expect(
+      renderTemplate(DEFAULT_TEMPLATE_SETTINGS.templates.vi, payment, "vi")
+    ).toBe("Bạn vừa nhận được năm mươi nghìn đồng từ NGUYEN VAN A");
+    expect(
+      renderTemplate(DEFAULT_TEMPLATE_SETTINGS.templates.en, payment, "en")
+    ).toBe("You have received 50,000 VND from NGUYEN VAN A");
+  });
+
+  it("falls back for a missing sender and memo", () => {
+    expect(
+      renderTemplate(
+        "Nhận {amount} từ {sender} {memo}",
+        { ...payment, sender: null, reference: null },
+        "vi"
+      )
+    ).toBe("Nhận 50,000 từ người gửi không xác định");
+  });
+
+  it("leaves unknown placeholders untouched", () => {
+    expect(renderTemplate("{amount} {unknown}", payment, "en")).toBe(
+      "50,000 {unknown}"
+    );
+  });
+});
+
+describe("getTemplateForPayment", () => {
+  const settings = {
+    ...DEFAULT_TEMPLATE_SETTINGS,
+    appTemplates: { vi: { momo: "MoMo {amountWords}" }, en: {} },
+  };
+
+  it("prefers the wallet template", () => {
+    expect(getTemplateForPayment(settings, "momo")).toBe("MoMo {amountWords}");
+  });
+
+  it("falls back to the language default", () => {
+    expect(getTemplateForPayment(settings, "zalopay")).toBe(
+      DEFAULT_TEMPLATE_SETTINGS.templates.vi
+    );
+    expect(getTemplateForPayment(settings, "momo", "en")).toBe(
+      DEFAULT_TEMPLATE_SETTINGS.templates.en
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  AudioRoute,
+  describeAudioRoute,
+  isRouteForDevice,
+} from "@/app/services/AudioRoute";
+
+const speaker = { id: "00:22:33:44:55:66", name: "WYS-2301BT" };
+
+const route = (overrides: Partial<AudioRoute>): AudioRoute => ({
+  type: "a2dp",
+  name: "WYS-2301BT",
+  address: "00:22:33:44:55:66",
+  ...overrides,
+});
+
+describe("isRouteForDevice", () => {
+  it("matches the speaker's A2DP route by address", () => {
+    expect(isRouteForDevice(route({}), speaker)).toBe(true);
+    expect(
+      isRouteForDevice(route({ address: "00:22:33:44:55:aa" }), speaker)
+    ).toBe(false);
+  });
+
+  it("falls back to the name when no address is reported", () => {
+    expect(
+      isRouteForDevice(route({ address: null, name: "wys-2301bt" }), speaker)
+    ).toBe(true);
+    expect(
+      isRouteForDevice(route({ address: null, name: "JBL Flip" }), speaker)
+    ).toBe(false);
+  });
+
+  it.each(["speaker", "sco", "wired"] as const)(
+    "treats a %s route as a mismatch",
+    (type) => {
+      expect(isRouteForDevice(route({ type }), speaker)).toBe(false);
+    }
+  );
+});
+
+describe("describeAudioRoute", () => {
+  it("includes the device name for external outputs", () => {
+    expect(describeAudioRoute(route({}))).toBe(
+      "Bluetooth speaker (WYS-2301BT)"
+    );
+    expect(
+      describeAudioRoute(route({ type: "speaker", name: "Pixel 7" }))
+    ).toBe("Phone speaker");
+  });
+});
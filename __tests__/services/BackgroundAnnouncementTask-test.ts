@@ -0,0 +1,108 @@
+import { backgroundAnnouncementTask } from "@/app/services/BackgroundAnnouncementTask";
+import {
+  savePayment,
+  setPaymentAnnouncedVia,
+} from "@/app/services/PaymentHistoryStore";
+import { updateBackgroundStatus } from "@/app/services/BackgroundMode";
+import { notification } from "./fixtures/factories";
+
+// Nothing saved yet, so every setting uses its defaults
+jest.mock("expo-sqlite/kv-store", () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => undefined),
+}));
+
+jest.mock("@/app/services/PaymentHistoryStore", () => ({
+  listPayments: jest.fn(async () => []),
+  savePayment: jest.fn(async (payment) => ({
+    ...payment,
+    id: 1,
+    announcedVia: null,
+    missed: false,
+    quietHours: false,
+  })),
+  setPaymentAnnouncedVia: jest.fn(async () => undefined),
+}));
+
+jest.mock("@/app/services/Speech", () => ({
+  ActiveTts: { stop: jest.fn(async () => undefined) },
+  prepareTts: jest.fn(async () => undefined),
+}));
+
+jest.mock("@/app/services/ChimePlayer", () => ({ stopChime: jest.fn() }));
+
+jest.mock("@/app/services/BackgroundMode", () => ({
+  updateBackgroundStatus: jest.fn(async () => undefined),
+}));
+
+jest.mock("@/app/services/LocalNotifications", () => ({
+  showQuietPaymentNotification: jest.fn(async () => undefined),
+}));
+
+// No speaker is saved, so announcements fall back to the phone loudspeaker
+const mockSpeak = jest.fn(async (_text: string) => true);
+jest.mock("@/app/services/AnnouncementDeliverers", () => ({
+  createChannelDeliverers: () => ({
+    bluetooth: async () => false,
+    loudspeaker: mockSpeak,
+    vibration: async () => false,
+    notification: async () => false,
+  }),
+}));
+
+const MOMO = "com.mservice.momotransfer";
+
+// The task keeps its deduplicator between runs, so each test uses its own key
+describe("backgroundAnnouncementTask", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("parses, saves and announces a payment", async () => {
+    await backgroundAnnouncementTask(
+      notification(MOMO, "You have received 1,250,000 VND from Alice", {
+        key: "payment",
+      })
+    );
+
+    expect(savePayment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 1250000,
+        sender: "Alice",
+        sourceApp: "momo",
+      }),
+      { quietHours: false }
+    );
+    expect(mockSpeak).toHaveBeenCalledWith(
+      "Bạn vừa nhận được một triệu hai trăm năm mươi nghìn đồng từ Alice"
+    );
+    expect(setPaymentAnnouncedVia).toHaveBeenCalledWith(1, "loudspeaker");
+    expect(updateBackgroundStatus).toHaveBeenCalledWith(
+      expect.stringContaining("Last payment: 1,250,000 đ from Alice")
+    );
+  });
+
+  it("suppresses a re-posted notification", async () => {
+    const reposted = notification(
+      MOMO,
+      "You have received 80,000 VND from Bob",
+      { key: "reposted" }
+    );
+    await backgroundAnnouncementTask(reposted);
+    await backgroundAnnouncementTask(reposted);
+
+    expect(savePayment).toHaveBeenCalledTimes(1);
+    expect(mockSpeak).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores notifications that are not payments", async () => {
+    await backgroundAnnouncementTask(
+      notification("com.example.shop", "Your order is on the way", {
+        key: "other",
+      })
+    );
+
+    expect(savePayment).not.toHaveBeenCalled();
+    expect(mockSpeak).not.toHaveBeenCalled();
+  });
+});
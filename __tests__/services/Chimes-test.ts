@@ -0,0 +1,112 @@
+import {
+  ChimeSettings,
+  DEFAULT_CHIME_SETTINGS,
+  removeChimeSound,
+  selectChime,
+  setAmountTier,
+  setAppChime,
+} from "@/app/services/Chimes";
+
+const imported = {
+  id: "imported-1",
+  name: "Shop bell",
+  uri: "file:///chimes/imported-1.mp3",
+};
+
+const settings: ChimeSettings = {
+  ...DEFAULT_CHIME_SETTINGS,
+  enabled: true,
+  appChimes: { vcb: "coin" },
+  amountTiers: [
+    { minAmount: 500000, chime: "bell" },
+    { minAmount: 5000000, chime: "imported-1" },
+  ],
+  importedSounds: [imported],
+};
+
+describe("selectChime", () => {
+  it("plays nothing when chimes are off or for other announcements", () => {
+    expect(
+      selectChime({ ...settings, enabled: false }, { amount: 10000 })
+    ).toBeNull();
+    expect(selectChime(settings, undefined)).toBeNull();
+  });
+
+  it("uses the default chime for other payments", () => {
+    expect(
+      selectChime(settings, { amount: 10000, sourceApp: "momo" })?.id
+    ).toBe("ting-ting");
+  });
+
+  it("uses the wallet's chime", () => {
+    expect(selectChime(settings, { amount: 10000, sourceApp: "vcb" })?.id).toBe(
+      "coin"
+    );
+  });
+
+  it("prefers the highest amount tier reached over the wallet", () => {
+    expect(
+      selectChime(settings, { amount: 500000, sourceApp: "vcb" })?.id
+    ).toBe("bell");
+    expect(selectChime(settings, { amount: 7000000 })).toEqual(imported);
+  });
+
+  it("plays the chime picked by an amount rule, even when chimes are off", () => {
+    expect(
+      selectChime(
+        { ...settings, enabled: false },
+        { amount: 10000, sourceApp: "vcb", chime: "bell" }
+      )?.id
+    ).toBe("bell");
+    expect(
+      selectChime(settings, { amount: 10000, sourceApp: "vcb", chime: "gone" })
+        ?.id
+    ).toBe("coin");
+  });
+
+  it("skips chimes whose sound no longer exists", () => {
+    expect(
+      selectChime({ ...settings, defaultChime: "gone" }, { amount: 10000 })
+    ).toBeNull();
+  });
+});
+
+describe("chime editing", () => {
+  it("keeps tiers sorted and replaces a tier with the same amount", () => {
+    const updated = setAmountTier(
+      setAmountTier(settings, 100000, "coin"),
+      500000,
+      "ting-ting"
+    );
+
+    expect(updated.amountTiers).toEqual([
+      { minAmount: 100000, chime: "coin" },
+      { minAmount: 500000, chime: "ting-ting" },
+      { minAmount: 5000000, chime: "imported-1" },
+    ]);
+  });
+
+  it("removes a wallet's chime", () => {
+    expect(setAppChime(settings, "vcb", null).appChimes).toEqual({});
+    expect(setAppChime(settings, "momo", "bell").appChimes).toEqual({
+      vcb: "coin",
+      momo: "bell",
+    });
+  });
+
+  it("drops every use of a deleted sound", () => {
+    const updated = removeChimeSound(
+      {
+        ...settings,
+        defaultChime: "imported-1",
+        appChimes: { momo: "imported-1" },
+      },
+      "imported-1"
+    );
+
+    expect(updated.importedSounds).toEqual([]);
+    expect(updated.defaultChime).toBe("ting-ting");
+    expect(updated.appChimes).toEqual({});
+    expect(updated.amountTiers).toEqual([{ minAmount: 500000, chime: "bell" }]);
+  });
+});
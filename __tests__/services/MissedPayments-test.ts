@@ -0,0 +1,83 @@
+import {
+  MISSED_PAYMENT_MAX_AGE_MS,
+  findMissedPayments,
+  planCatchUp,
+} from "@/app/services/MissedPayments";
+import { createPaymentDeduplicator } from "@/app/services/PaymentDeduplicator";
+import { notification, payment } from "./fixtures/factories";
+
+const MOMO = "com.mservice.momotransfer";
+
+describe("findMissedPayments", () => {
+  it("parses payments oldest first and skips other notifications", () => {
+    const payments = findMissedPayments(
+      [
+        notification(MOMO, "Bạn vừa nhận được 20.000đ từ TRAN B", {
+          key: "b",
+          postTime: 2000,
+        }),
+        notification("com.zing.zalo", "Hello!", {
+          key: "chat",
+          postTime: 1500,
+        }),
+        notification(MOMO, "Bạn vừa nhận được 10.000đ từ NGUYEN A", {
+          key: "a",
+          postTime: 1000,
+        }),
+      ],
+      createPaymentDeduplicator()
+    );
+
+    expect(payments.map((payment) => payment.amount)).toEqual([10000, 20000]);
+  });
+
+  it("skips payments that were already handled", () => {
+    const deduplicator = createPaymentDeduplicator();
+    const tray = [
+      notification(MOMO, "Bạn vừa nhận được 10.000đ từ NGUYEN A", {
+        key: "a",
+        postTime: 1000,
+      }),
+    ];
+    // Announced live before the app went to the background
+    deduplicator.remember(
+      findMissedPayments(tray, createPaymentDeduplicator())[0]
+    );
+
+    expect(findMissedPayments(tray, deduplicator)).toEqual([]);
+  });
+
+  it("counts a notification both buffered and still in the tray once", () => {
+    const posted = notification(MOMO, "Bạn vừa nhận được 10.000đ từ NGUYEN A", {
+      key: "a",
+      postTime: 1000,
+    });
+
+    expect(
+      findMissedPayments([posted, posted], createPaymentDeduplicator())
+    ).toHaveLength(1);
+  });
+});
+
+describe("planCatchUp", () => {
+  const now = 10 * 60 * 60 * 1000;
+
+  it("announces recent payments and marks older ones as missed", () => {
+    const recent = payment({ receivedAt: now - 60 * 1000 });
+    const old = payment({ receivedAt: now - MISSED_PAYMENT_MAX_AGE_MS - 1 });
+
+    expect(planCatchUp([old, recent], { announceSummary: true }, now)).toEqual({
+      announce: [recent],
+      missed: [old],
+    });
+  });
+
+  it("only marks payments as missed when summaries are off", () => {
+    const recent = payment({ receivedAt: now - 60 * 1000 });
+
+    expect(planCatchUp([recent], { announceSummary: false }, now)).toEqual({
+      announce: [],
+      missed: [recent],
+    });
+  });
+});
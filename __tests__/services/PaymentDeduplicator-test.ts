@@ -0,0 +1,148 @@
+import { createPaymentDeduplicator } from "@/app/services/PaymentDeduplicator";
+import { payment } from "./fixtures/factories";
+
+describe("createPaymentDeduplicator", () => {
+  it("lets the first payment through", () => {
+    const deduplicator = createPaymentDeduplicator();
+
+    expect(deduplicator.check(payment())).toEqual({ isDuplicate: false });
+  });
+
+  it("suppresses a re-posted notification with the same key", () => {
+    const deduplicator = createPaymentDeduplicator();
+    deduplicator.remember(payment());
+
+    expect(
+      deduplicator.check(payment({ receivedAt: 1700000000000 + 30 * 1000 }))
+    ).toMatchObject({ isDuplicate: true, reason: "notificationKey" });
+  });
+
+  it("accepts a repeat payment reusing the notification key later on", () => {
+    const deduplicator = createPaymentDeduplicator();
+    deduplicator.remember(payment());
+
+    expect(
+      deduplicator.check(
+        payment({ receivedAt: 1700000000000 + 10 * 60 * 1000 })
+      )
+    ).toEqual({ isDuplicate: false });
+  });
+
+  it("suppresses a repeated transaction id regardless of timing", () => {
+    const deduplicator = createPaymentDeduplicator();
+    deduplicator.remember(payment({ transactionId: "28401937265" }));
+
+    expect(
+      deduplicator.check(
+        payment({
+          transactionId: "28401937265",
+          notificationKey: "0|com.mservice.momotransfer|2|null|10001",
+          receivedAt: 1700000000000 + 5 * 60 * 60 * 1000,
+        })
+      )
+    ).toMatchObject({ isDuplicate: true, reason: "transactionId" });
+  });
+
+  it("suppresses the same amount and sender within the window", () => {
+    const deduplicator = createPaymentDeduplicator({ windowMs: 60000 });
+    deduplicator.remember(payment({ notificationKey: null }));
+
+    expect(
+      deduplicator.check(
+        payment({
+          notificationKey: null,
+          sender: "nguyen van a ",
+          receivedAt: 1700000000000 + 30000,
+        })
+      )
+    ).toMatchObject({ isDuplicate: true, reason: "amountSenderWindow" });
+  });
+
+  it("accepts two bank payments of the same amount within the window", () => {
+    const deduplicator = createPaymentDeduplicator({ windowMs: 60000 });
+    const bankPayment = (rawText: string, receivedAt: number) =>
+      payment({
+        sender: null,
+        sourceApp: "vietcombank",
+        packageName: "com.VCB",
+        notificationKey: null,
+        rawText,
+        receivedAt,
+      });
+    deduplicator.remember(
+      bankPayment(
+        "TK 1234567890 +50.000VND luc 15-03-2024 10:20:35. SD: 1.250.000VND",
+        1700000000000
+      )
+    );
+
+    expect(
+      deduplicator.check(
+        bankPayment(
+          "TK 1234567890 +50.000VND luc 15-03-2024 10:20:58. SD: 1.300.000VND",
+          1700000000000 + 23000
+        )
+      )
+    ).toEqual({ isDuplicate: false });
+    expect(
+      deduplicator.check(
+        bankPayment(
+          "TK 1234567890 +50.000VND luc 15-03-2024 10:20:35. SD: 1.250.000VND",
+          1700000000000 + 5000
+        )
+      )
+    ).toMatchObject({ isDuplicate: true, reason: "amountSenderWindow" });
+  });
+
+  it("accepts a second identical payment after the window", () => {
+    const deduplicator = createPaymentDeduplicator({ windowMs: 60000 });
+    deduplicator.remember(payment({ notificationKey: null }));
+
+    expect(
+      deduplicator.check(
+        payment({ notificationKey: null, receivedAt: 1700000000000 + 90000 })
+      )
+    ).toEqual({ isDuplicate: false });
+  });
+
+  it("accepts a different amount reusing the notification key", () => {
+    const deduplicator = createPaymentDeduplicator();
+    deduplicator.remember(payment());
+
+    expect(
+      deduplicator.check(payment({ amount: 20000, receivedAt: 1700000005000 }))
+    ).toEqual({ isDuplicate: false });
+  });
+
+  it("remembers seeded payments", () => {
+    const deduplicator = createPaymentDeduplicator();
+    deduplicator.seed([payment({ transactionId: "123456789" })]);
+
+    expect(
+      deduplicator.check(
+        payment({ transactionId: "123456789", notificationKey: null })
+      ).isDuplicate
+    ).toBe(true);
+
+    deduplicator.reset();
+    expect(
+      deduplicator.check(
+        payment({ transactionId: "123456789", notificationKey: null })
+      ).isDuplicate
+    ).toBe(false);
+  });
+
+  it("ignores payments seeded again", () => {
+    const deduplicator = createPaymentDeduplicator({ maxEntries: 2 });
+    const history = [
+      payment({ transactionId: "1" }),
+      payment({ transactionId: "2", receivedAt: 1700000000000 + 1000 }),
+    ];
+    deduplicator.seed(history);
+    deduplicator.seed(history);
+
+    expect(
+      deduplicator.check(payment({ transactionId: "1", notificationKey: null }))
+    ).toMatchObject({ isDuplicate: true, reason: "transactionId" });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  PAYMENT_EXPORT_COLUMNS,
+  formatExportTime,
+  getExportFileName,
+  paymentsToCsv,
+  paymentsToJson,
+} from "@/app/services/PaymentExport";
+import { PaymentEvent } from "@/app/services/parsers";
+import { payment as basePayment } from "./fixtures/factories";
+
+// Local time on 19 Oct 2026
+const at = (hours: number, minutes = 0, day = 19) =>
+  new Date(2026, 9, day, hours, minutes).getTime();
+
+// A payment with accents and a reference, received at 09:05
+const payment = (overrides: Partial<PaymentEvent> = {}): PaymentEvent =>
+  basePayment({
+    amount: 1205000,
+    sender: "NGUYỄN VĂN A",
+    reference: "Thanh toan don hang 123",
+    transactionId: "FT123",
+    rawText: "Bạn vừa nhận được 1.205.000đ từ NGUYỄN VĂN A",
+    receivedAt: at(9, 5),
+    notificationKey: "key-1",
+    ...overrides,
+  });
+
+describe("paymentsToCsv", () => {
+  it("starts with a BOM and a header row", () => {
+    const lines = paymentsToCsv([]).split("\r\n");
+
+    expect(lines[0].charCodeAt(0)).toBe(0xfeff);
+    expect(lines[0].slice(1)).toBe(
+      "Time,Amount (VND),Sender,Reference,Account,Transaction ID,App,Package,Notification Text"
+    );
+  });
+
+  it("writes one row per payment, oldest first", () => {
+    const lines = paymentsToCsv([
+      payment({ amount: 50000, receivedAt: at(14) }),
+      payment(),
+    ]).split("\r\n");
+
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toBe(
+      "2026-10-19 09:05:00,1205000,NGUYỄN VĂN A,Thanh toan don hang 123,,FT123,MoMo,com.mservice.momotransfer,Bạn vừa nhận được 1.205.000đ từ NGUYỄN VĂN A"
+    );
+    expect(lines[2].startsWith("2026-10-19 14:00:00,50000,")).toBe(true);
+    expect(lines[3]).toBe("");
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    const [, row] = paymentsToCsv([
+      payment({ reference: 'Tra "no", thang 10', rawText: "line 1\nline 2" }),
+    ]).split(/\r\n/);
+
+    expect(row).toContain('"Tra ""no"", thang 10"');
+    expect(paymentsToCsv([payment({ rawText: "line 1\nline 2" })])).toContain(
+      '"line 1\nline 2"'
+    );
+  });
+
+  it("keeps spreadsheet formulas from running", () => {
+    expect(paymentsToCsv([payment({ sender: "=HYPERLINK(1)" })])).toContain(
+      ",'=HYPERLINK(1),"
+    );
+  });
+});
+
+describe("paymentsToJson", () => {
+  it("uses the PaymentEvent field names and ISO times", () => {
+    const [exported] = JSON.parse(paymentsToJson([payment()]));
+
+    expect(Object.keys(exported)).toEqual(
+      PAYMENT_EXPORT_COLUMNS.map((column) => column.field)
+    );
+    expect(exported).toMatchObject({
+      amount: 1205000,
+      sender: "NGUYỄN VĂN A",
+      account: null,
+      sourceApp: "momo",
+      receivedAt: new Date(at(9, 5)).toISOString(),
+    });
+  });
+});
+
+describe("export file names", () => {
+  it("names the file after the date range", () => {
+    expect(getExportFileName("csv", { from: at(0) }, at(15))).toBe(
+      "noti-fin-payments-2026-10-19.csv"
+    );
+    expect(getExportFileName("json", { from: at(0, 0, 13) }, at(15))).toBe(
+      "noti-fin-payments-2026-10-13_2026-10-19.json"
+    );
+    expect(getExportFileName("csv", {}, at(15))).toBe(
+      "noti-fin-payments-all_2026-10-19.csv"
+    );
+  });
+
+  it("formats local times for spreadsheets", () => {
+    expect(formatExportTime(at(7, 3))).toBe("2026-10-19 07:03:00");
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  buildFilterClause,
+  listPayments,
+  savePayment,
+} from "@/app/services/PaymentHistoryStore";
+import { payment } from "./fixtures/factories";
+
+// An in-memory stand-in for the SQLite database: inserted rows are kept as
+// the columns named in the INSERT and every SELECT returns all of them
+const mockRows: Record<string, unknown>[] = [];
+const mockDatabase = {
+  getFirstAsync: jest.fn(async () => ({ user_version: 0 })),
+  execAsync: jest.fn(async () => undefined),
+  withTransactionAsync: jest.fn(async (task: () => Promise<void>) => task()),
+  runAsync: jest.fn(async (sql: string, ...params: unknown[]) => {
+    const columns = /INSERT INTO payments \(([^)]*)\)/.exec(sql)?.[1];
+    if (!columns) return { lastInsertRowId: 0, changes: 1 };
+
+    const row: Record<string, unknown> = {
+      id: mockRows.length + 1,
+      announced_via: null,
+    };
+    columns.split(", ").forEach((column, index) => {
+      row[column] = params[index];
+    });
+    mockRows.push(row);
+    return { lastInsertRowId: row.id, changes: 1 };
+  }),
+  getAllAsync: jest.fn(async () => mockRows),
+};
+
+jest.mock("expo-sqlite", () => ({
+  openDatabaseAsync: jest.fn(async () => mockDatabase),
+}));
+
+describe("buildFilterClause", () => {
+  it("matches everything without a filter", () => {
+    expect(buildFilterClause()).toEqual({ where: "", params: [] });
+    expect(buildFilterClause({ sourceApps: [] })).toEqual({
+      where: "",
+      params: [],
+    });
+  });
+
+  it("combines every condition with positional parameters", () => {
+    expect(
+      buildFilterClause({
+        from: 1000,
+        to: 2000,
+        sourceApps: ["momo", "vietcombank"],
+        minAmount: 10000,
+        maxAmount: 500000,
+      })
+    ).toEqual({
+      where:
+        "WHERE received_at >= ? AND received_at <= ? AND source_app IN (?, ?) AND amount >= ? AND amount <= ?",
+      params: [1000, 2000, "momo", "vietcombank", 10000, 500000],
+    });
+  });
+
+  it("can leave out demo payments", () => {
+    expect(buildFilterClause({ from: 1000, excludeDemo: true })).toEqual({
+      where: "WHERE received_at >= ? AND source_app != ?",
+      params: [1000, "demo"],
+    });
+  });
+});
+
+describe("payment history", () => {
+  it("migrates the database before the first query", async () => {
+    await listPayments();
+
+    expect(mockDatabase.execAsync).toHaveBeenCalledWith(
+      expect.stringContaining("CREATE TABLE IF NOT EXISTS payments")
+    );
+    expect(mockDatabase.execAsync).toHaveBeenLastCalledWith(
+      "PRAGMA user_version = 5"
+    );
+  });
+
+  it("lists payments newest first with the filter's parameters", async () => {
+    await listPayments({ from: 1000, sourceApps: ["momo"] });
+
+    expect(mockDatabase.getAllAsync).toHaveBeenLastCalledWith(
+      "SELECT * FROM payments WHERE received_at >= ? AND source_app IN (?) ORDER BY received_at DESC, id DESC",
+      [1000, "momo"]
+    );
+  });
+
+  it("reads back a saved payment as it was saved", async () => {
+    const saved = await savePayment(payment(), { missed: true });
+
+    expect(saved).toEqual({
+      ...payment(),
+      id: 1,
+      announcedVia: null,
+      missed: true,
+      quietHours: false,
+    });
+    expect(await listPayments()).toEqual([saved]);
+  });
+});
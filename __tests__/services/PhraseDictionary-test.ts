@@ -0,0 +1,63 @@
+import {
+  DEFAULT_PHRASES,
+  exportPhrasesToJson,
+  normalizePhrase,
+  parsePhrasesJson,
+  removePhrase,
+  setPhrase,
+  translatePhrase,
+} from "@/app/services/PhraseDictionary";
+
+describe("translatePhrase", () => {
+  it("translates a message that is exactly a phrase", () => {
+    expect(translatePhrase("hello", DEFAULT_PHRASES)).toBe("Xin chào");
+    expect(translatePhrase("  Thank   You! ", DEFAULT_PHRASES)).toBe(
+      "Cảm ơn bạn"
+    );
+  });
+
+  it("leaves messages that only contain a phrase alone", () => {
+    expect(
+      translatePhrase("payment received from Hello Shop", DEFAULT_PHRASES)
+    ).toBeNull();
+    expect(translatePhrase("Say hello", DEFAULT_PHRASES)).toBeNull();
+  });
+});
+
+describe("dictionary editing", () => {
+  it("adds, replaces and removes phrases by normalized key", () => {
+    let dictionary = setPhrase({}, "Good Night.", " Chúc ngủ ngon ");
+    expect(dictionary).toEqual({ "good night": "Chúc ngủ ngon" });
+
+    dictionary = setPhrase(dictionary, "good night", "Ngủ ngon");
+    expect(dictionary).toEqual({ "good night": "Ngủ ngon" });
+
+    expect(removePhrase(dictionary, "GOOD NIGHT")).toEqual({});
+  });
+
+  it("normalizes whitespace, case and trailing punctuation", () => {
+    expect(normalizePhrase("  Payment   Received!!")).toBe("payment received");
+  });
+});
+
+describe("JSON import/export", () => {
+  it("round-trips the dictionary", () => {
+    expect(parsePhrasesJson(exportPhrasesToJson(DEFAULT_PHRASES))).toEqual(
+      DEFAULT_PHRASES
+    );
+  });
+
+  it("normalizes imported keys and skips empty entries", () => {
+    expect(
+      parsePhrasesJson('{"Hello!": "Xin chào", "": "x", "bye": " "}')
+    ).toEqual({ hello: "Xin chào" });
+  });
+
+  it.each([
+    ["not json", "The file is not valid JSON"],
+    ['["hello"]', "Expected an object of English to Vietnamese phrases"],
+    ['{"hello": 1}', 'The translation for "hello" is not text'],
+  ])("rejects %s", (json, message) => {
+    expect(() => parsePhrasesJson(json)).toThrow(message);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  DEFAULT_SALES_SUMMARY_SETTINGS,
+  RECAP_GRACE_MS,
+  addShift,
+  formatTimeOfDay,
+  getDayRange,
+  getShiftRange,
+  isRecapDue,
+  parseTimeOfDay,
+  summarizePayments,
+} from "@/app/services/SalesSummary";
+import { payment } from "./fixtures/factories";
+
+// Local time on 19 Oct 2026
+const at = (hours: number, minutes = 0, day = 19) =>
+  new Date(2026, 9, day, hours, minutes).getTime();
+
+describe("summarizePayments", () => {
+  it("totals the payments and finds the largest", () => {
+    const largest = payment({
+      amount: 500000,
+      sourceApp: "vietcombank",
+      sender: "TRAN B",
+    });
+    const summary = summarizePayments([
+      payment({ amount: 20000, sourceApp: "momo" }),
+      largest,
+      payment({ amount: 30000, sourceApp: "momo" }),
+    ]);
+
+    expect(summary.count).toBe(3);
+    expect(summary.totalAmount).toBe(550000);
+    expect(summary.largest).toBe(largest);
+  });
+
+  it("breaks the total down by wallet, highest total first", () => {
+    expect(
+      summarizePayments([
+        payment({ amount: 20000, sourceApp: "momo" }),
+        payment({ amount: 500000, sourceApp: "vietcombank" }),
+        payment({ amount: 30000, sourceApp: "momo" }),
+      ]).byWallet
+    ).toEqual([
+      { sourceApp: "vietcombank", count: 1, totalAmount: 500000 },
+      { sourceApp: "momo", count: 2, totalAmount: 50000 },
+    ]);
+  });
+
+  it("handles a day without payments", () => {
+    expect(summarizePayments([])).toEqual({
+      count: 0,
+      totalAmount: 0,
+      largest: null,
+      byWallet: [],
+    });
+  });
+});
+
+describe("time ranges", () => {
+  it("covers the whole local day", () => {
+    expect(getDayRange(at(15, 30))).toEqual({
+      from: at(0),
+      to: at(0, 0, 20) - 1,
+    });
+  });
+
+  it("covers a shift on the given day", () => {
+    expect(
+      getShiftRange({ name: "Morning", start: 6 * 60, end: 14 * 60 }, at(9))
+    ).toEqual({ from: at(6), to: at(14) - 1 });
+  });
+
+  it("runs overnight shifts into the next day", () => {
+    expect(
+      getShiftRange({ name: "Night", start: 22 * 60, end: 6 * 60 }, at(9))
+    ).toEqual({ from: at(22), to: at(6, 0, 20) - 1 });
+  });
+});
+
+describe("times of day", () => {
+  it.each([
+    ["06:30", 390],
+    ["6:30", 390],
+    ["22h15", 1335],
+    ["24:00", null],
+    ["7", null],
+  ])("parses %s", (value, expected) => {
+    expect(parseTimeOfDay(value)).toBe(expected);
+  });
+
+  it("formats minutes after midnight", () => {
+    expect(formatTimeOfDay(390)).toBe("06:30");
+    expect(formatTimeOfDay(0)).toBe("00:00");
+  });
+
+  it("keeps shifts ordered by start time", () => {
+    const settings = addShift(DEFAULT_SALES_SUMMARY_SETTINGS, {
+      name: "Early",
+      start: 4 * 60,
+      end: 6 * 60,
+    });
+    expect(settings.shifts.map((shift) => shift.name)).toEqual([
+      "Early",
+      "Morning",
+      "Evening",
+    ]);
+  });
+});
+
+describe("isRecapDue", () => {
+  const settings = {
+    ...DEFAULT_SALES_SUMMARY_SETTINGS,
+    recapEnabled: true,
+    recapTime: 22 * 60,
+  };
+
+  it("is due once the closing time has passed", () => {
+    expect(isRecapDue(settings, null, at(21, 59))).toBe(false);
+    expect(isRecapDue(settings, null, at(22))).toBe(true);
+    expect(isRecapDue(settings, at(22, 0, 18), at(22, 5))).toBe(true);
+  });
+
+  it("is spoken once per day", () => {
+    expect(isRecapDue(settings, at(22, 1), at(22, 5))).toBe(false);
+  });
+
+  it("is skipped when the app was not running at closing time", () => {
+    expect(isRecapDue(settings, null, at(22) + RECAP_GRACE_MS)).toBe(false);
+  });
+
+  it("is never due when disabled", () => {
+    expect(
+      isRecapDue({ ...settings, recapEnabled: false }, null, at(22, 1))
+    ).toBe(false);
+  });
+});
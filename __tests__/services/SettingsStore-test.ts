@@ -0,0 +1,49 @@
+import Storage from "expo-sqlite/kv-store";
+import { createSettingStore } from "@/app/services/SettingsStore";
+
+jest.mock("expo-sqlite/kv-store", () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => undefined),
+}));
+
+const getItemAsync = jest.mocked(Storage.getItemAsync);
+const setItemAsync = jest.mocked(Storage.setItemAsync);
+
+type Phrases = Record<string, string>;
+
+describe("createSettingStore", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getItemAsync.mockResolvedValue(JSON.stringify({ hello: "xin chào" }));
+  });
+
+  it("loads the stored value once", async () => {
+    const store = createSettingStore<Phrases>("phrases", {});
+
+    await expect(store.load()).resolves.toEqual({ hello: "xin chào" });
+    await store.load();
+    expect(getItemAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies an update made before loading to the stored value", async () => {
+    const store = createSettingStore<Phrases>("phrases", {});
+
+    await store.update((phrases) => ({ ...phrases, bye: "tạm biệt" }));
+
+    expect(store.get()).toEqual({ hello: "xin chào", bye: "tạm biệt" });
+    expect(setItemAsync).toHaveBeenCalledWith(
+      "phrases",
+      JSON.stringify({ hello: "xin chào", bye: "tạm biệt" })
+    );
+  });
+
+  it("keeps a value saved while loading", async () => {
+    const store = createSettingStore<Phrases>("phrases", {});
+
+    const loading = store.load();
+    await store.save({ bye: "tạm biệt" });
+    await loading;
+
+    expect(store.get()).toEqual({ bye: "tạm biệt" });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  SpeakerRoutingRule,
+  createRoutingRule,
+  getSpeakersForPayment,
+  matchesRoutingRule,
+} from "@/app/services/SpeakerRouting";
+
+const rule = (
+  fields: Partial<SpeakerRoutingRule> & Pick<SpeakerRoutingRule, "id">
+): SpeakerRoutingRule => ({
+  sourceApp: null,
+  account: null,
+  speakers: ["AA:AA"],
+  ...fields,
+});
+
+describe("matchesRoutingRule", () => {
+  it("matches masked accounts by their trailing digits", () => {
+    const counter = rule({ id: "1", account: "6789" });
+
+    expect(
+      matchesRoutingRule(counter, { sourceApp: "vcb", account: "x6789" })
+    ).toBe(true);
+    expect(
+      matchesRoutingRule(counter, { sourceApp: "vcb", account: "0123456789" })
+    ).toBe(true);
+    expect(
+      matchesRoutingRule(counter, { sourceApp: "vcb", account: "x1111" })
+    ).toBe(false);
+    expect(
+      matchesRoutingRule(counter, { sourceApp: "vcb", account: null })
+    ).toBe(false);
+  });
+
+  it("requires the wallet when the rule names one", () => {
+    const momo = rule({ id: "1", sourceApp: "momo" });
+
+    expect(matchesRoutingRule(momo, { sourceApp: "momo", account: null })).toBe(
+      true
+    );
+    expect(
+      matchesRoutingRule(momo, { sourceApp: "zalopay", account: null })
+    ).toBe(false);
+  });
+});
+
+describe("getSpeakersForPayment", () => {
+  const rules = [
+    rule({ id: "1", account: "1111", speakers: ["AA:AA"] }),
+    rule({ id: "2", sourceApp: "momo", speakers: ["BB:BB", "CC:CC"] }),
+    rule({ id: "3", sourceApp: "zalopay", speakers: [] }),
+  ];
+
+  it("uses the first matching rule", () => {
+    expect(
+      getSpeakersForPayment(rules, { sourceApp: "momo", account: "x1111" })
+    ).toEqual(["AA:AA"]);
+    expect(
+      getSpeakersForPayment(rules, { sourceApp: "momo", account: null })
+    ).toEqual(["BB:BB", "CC:CC"]);
+  });
+
+  it("announces on every speaker when no rule with speakers matches", () => {
+    expect(
+      getSpeakersForPayment(rules, { sourceApp: "zalopay", account: null })
+    ).toBeUndefined();
+    expect(
+      getSpeakersForPayment([], { sourceApp: "momo", account: null })
+    ).toBeUndefined();
+  });
+});
+
+describe("createRoutingRule", () => {
+  it("generates an id and drops an empty account", () => {
+    const created = createRoutingRule({
+      sourceApp: "momo",
+      account: "  ",
+      speakers: ["AA:AA"],
+    });
+
+    expect(created.id).toBeTruthy();
+    expect(created.account).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  DEFAULT_TTS_SETTINGS,
+  TTS_RATE_RANGE,
+  TTS_VOLUME_RANGE,
+  TtsVoice,
+  clampSetting,
+  describeVoice,
+  filterVoicesByLanguage,
+  normalizeTtsSettings,
+} from "@/app/services/TtsSettings";
+
+const voice = (
+  id: string,
+  language: string,
+  extra: Partial<TtsVoice> = {}
+): TtsVoice => ({ id, name: id, language, ...extra });
+
+describe("clampSetting", () => {
+  it("rounds to the step without floating point noise", () => {
+    expect(clampSetting(0.1 + 0.2, TTS_VOLUME_RANGE)).toBe(0.3);
+    expect(clampSetting(0.55 + 0.05, TTS_RATE_RANGE)).toBe(0.6);
+  });
+
+  it("keeps values inside the range", () => {
+    expect(clampSetting(0, TTS_VOLUME_RANGE)).toBe(0.1);
+    expect(clampSetting(3, TTS_RATE_RANGE)).toBe(1);
+  });
+});
+
+describe("normalizeTtsSettings", () => {
+  it("fills in missing fields with the defaults", () => {
+    expect(normalizeTtsSettings({})).toEqual(DEFAULT_TTS_SETTINGS);
+  });
+
+  it("keeps stored voices and repairs out-of-range values", () => {
+    expect(
+      normalizeTtsSettings({
+        voices: { vi: "vi-vn-x-gft-local" },
+        rate: 5,
+        pitch: 1.2,
+        volume: -1,
+      })
+    ).toEqual({
+      voices: { vi: "vi-vn-x-gft-local" },
+      rate: 1,
+      pitch: 1.2,
+      volume: 0.1,
+    });
+  });
+});
+
+describe("filterVoicesByLanguage", () => {
+  it("matches the language whatever the region separator", () => {
+    const voices = [
+      voice("vi-1", "vi-VN"),
+      voice("vi-2", "vi_VN"),
+      voice("vi-3", "vi"),
+      voice("en-1", "en-US"),
+    ];
+
+    expect(filterVoicesByLanguage(voices, "vi-VN").map((v) => v.id)).toEqual([
+      "vi-1",
+      "vi-2",
+      "vi-3",
+    ]);
+  });
+
+  it("skips voices that are not installed", () => {
+    const voices = [
+      voice("vi-1", "vi-VN", { notInstalled: true }),
+      voice("vi-2", "vi-VN"),
+    ];
+
+    expect(filterVoicesByLanguage(voices, "vi-VN").map((v) => v.id)).toEqual([
+      "vi-2",
+    ]);
+  });
+
+  it("lists offline and higher quality voices first", () => {
+    const voices = [
+      voice("a-network", "vi-VN", {
+        networkConnectionRequired: true,
+        quality: 500,
+      }),
+      voice("b-low", "vi-VN", { quality: 300 }),
+      voice("c-high", "vi-VN", { quality: 400 }),
+    ];
+
+    expect(filterVoicesByLanguage(voices, "vi-VN").map((v) => v.id)).toEqual([
+      "c-high",
+      "b-low",
+      "a-network",
+    ]);
+  });
+});
+
+describe("describeVoice", () => {
+  it("names the engine default when no voice is chosen", () => {
+    expect(describeVoice(undefined)).toBe("Default voice");
+  });
+
+  it("marks voices that need a connection", () => {
+    expect(
+      describeVoice(
+        voice("vi-vn-x-gft-network", "vi-VN", {
+          networkConnectionRequired: true,
+        })
+      )
+    ).toBe("vi-vn-x-gft-network (vi-VN) · online");
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  amountToVietnameseWords,
+  numberToVietnameseWords,
+} from "@/app/services/VietnameseNumbers";
+import {
+  buildPaymentAnnouncement,
+  buildPaymentSummaryAnnouncement,
+} from "@/app/services/AnnouncementBuilder";
+
+describe("numberToVietnameseWords", () => {
+  it.each([
+    [0, "không"],
+    [1, "một"],
+    [5, "năm"],
+    [10, "mười"],
+    [11, "mười một"],
+    [14, "mười bốn"],
+    [15, "mười lăm"],
+    [20, "hai mươi"],
+    [21, "hai mươi mốt"],
+    [24, "hai mươi tư"],
+    [25, "hai mươi lăm"],
+    [31, "ba mươi mốt"],
+    [44, "bốn mươi tư"],
+    [55, "năm mươi lăm"],
+    [99, "chín mươi chín"],
+    [100, "một trăm"],
+    [101, "một trăm linh một"],
+    [104, "một trăm linh bốn"],
+    [105, "một trăm linh năm"],
+    [110, "một trăm mười"],
+    [115, "một trăm mười lăm"],
+    [121, "một trăm hai mươi mốt"],
+    [999, "chín trăm chín mươi chín"],
+    [1000, "một nghìn"],
+    [1001, "một nghìn không trăm linh một"],
+    [1010, "một nghìn không trăm mười"],
+    [1100, "một nghìn một trăm"],
+    [2024, "hai nghìn không trăm hai mươi tư"],
+    [10000, "mười nghìn"],
+    [15000, "mười lăm nghìn"],
+    [21000, "hai mươi mốt nghìn"],
+    [50000, "năm mươi nghìn"],
+    [105000, "một trăm linh năm nghìn"],
+    [250000, "hai trăm năm mươi nghìn"],
+    [1000000, "một triệu"],
+    [1000005, "một triệu không trăm linh năm"],
+    [1205000, "một triệu hai trăm linh năm nghìn"],
+    [2050000, "hai triệu không trăm năm mươi nghìn"],
+    [10500000, "mười triệu năm trăm nghìn"],
+    [1000000000, "một tỷ"],
+    [1000000001, "một tỷ không trăm linh một"],
+    [2500000000, "hai tỷ năm trăm triệu"],
+    [1000000000000, "một nghìn tỷ"],
+    [1000000000000000000, "một tỷ tỷ"],
+  ])("reads %d as %s", (value, words) => {
+    expect(numberToVietnameseWords(value)).toBe(words);
+  });
+
+  it("supports the southern lẻ / ngàn variants", () => {
+    expect(
+      numberToVietnameseWords(1205000, { zeroTens: "lẻ", thousand: "ngàn" })
+    ).toBe("một triệu hai trăm lẻ năm ngàn");
+  });
+
+  it("rounds non-integers and reads negatives", () => {
+    expect(numberToVietnameseWords(49999.6)).toBe("năm mươi nghìn");
+    expect(numberToVietnameseWords(-21)).toBe("âm hai mươi mốt");
+  });
+
+  it("applies the mốt, tư and lăm rules to every number below 1000", () => {
+    for (let value = 0; value < 1000; value++) {
+      const words = numberToVietnameseWords(value);
+      const tens = Math.floor((value % 100) / 10);
+      const units = value % 10;
+
+      expect(words).not.toMatch(/  |^ | $/);
+      if (tens >= 2 && units === 1) expect(words).toMatch(/ mốt$/);
+      if (tens >= 2 && units === 4) expect(words).toMatch(/ tư$/);
+      if (tens >= 1 && units === 5) expect(words).toMatch(/ lăm$/);
+      if (tens === 0 && units > 0 && value > 100) {
+        expect(words).toMatch(/ linh \S+$/);
+      }
+      if (tens <= 1) expect(words).not.toMatch(/mốt|tư/);
+    }
+  });
+
+  it("reads every thousands group in full after the first", () => {
+    for (let group = 1; group < 1000; group++) {
+      const words = numberToVietnameseWords(7000000 + group);
+      expect(words.startsWith("bảy triệu không trăm")).toBe(group < 100);
+    }
+  });
+});
+
+describe("amountToVietnameseWords", () => {
+  it("appends the currency", () => {
+    expect(amountToVietnameseWords(50000)).toBe("năm mươi nghìn đồng");
+  });
+});
+
+describe("payment announcements", () => {
+  it("reads the amount in words", () => {
+    expect(
+      buildPaymentAnnouncement({
+        amount: 1205000,
+        sender: "NGUYEN VAN A",
+        reference: null,
+        transactionId: null,
+        account: null,
+        sourceApp: "momo",
+        packageName: "com.mservice.momotransfer",
+        rawText: "",
+        receivedAt: 0,
+        notificationKey: null,
+      })
+    ).toBe(
+      "Bạn vừa nhận được một triệu hai trăm linh năm nghìn đồng từ NGUYEN VAN A"
+    );
+  });
+
+  it("summarises a burst of payments", () => {
+    expect(buildPaymentSummaryAnnouncement(3, 250000)).toBe(
+      "Đã nhận ba giao dịch, tổng cộng hai trăm năm mươi nghìn đồng"
+    );
+  });
+});
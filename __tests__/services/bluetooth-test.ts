@@ -0,0 +1,199 @@
+import {
+  MOCK_DEVICES,
+  createSimulationAdapter,
+  generateRandomAddress,
+} from "@/app/services/bluetooth/simulationAdapter";
+import {
+  describeRssi,
+  getOverallConnectionState,
+  mergeDevices,
+} from "@/app/services/bluetooth/devices";
+import {
+  createReconnectLoop,
+  getReconnectDelay,
+} from "@/app/services/bluetooth/reconnect";
+
+describe("mergeDevices", () => {
+  const speaker = { id: "AA", address: "AA", name: "Speaker" };
+  const nearby = { id: "BB", address: "BB", name: "Nearby", rssi: -70 };
+
+  it("lists bonded devices first and marks the connected ones", () => {
+    expect(mergeDevices([speaker], [nearby], ["AA"])).toEqual([
+      { ...speaker, bonded: true, connected: true },
+      { ...nearby, bonded: false, connected: false },
+    ]);
+  });
+
+  it("keeps the bond of a rediscovered device and takes its RSSI", () => {
+    expect(mergeDevices([speaker], [{ ...speaker, rssi: -50 }])).toEqual([
+      { ...speaker, bonded: true, rssi: -50, connected: false },
+    ]);
+  });
+});
+
+describe("describeRssi", () => {
+  it.each([
+    [-45, "-45 dBm (strong)"],
+    [-75, "-75 dBm (fair)"],
+    [-90, "-90 dBm (weak)"],
+    [null, null],
+    [undefined, null],
+  ])("%s -> %s", (rssi, expected) => {
+    expect(describeRssi(rssi)).toBe(expected);
+  });
+});
+
+describe("simulation adapter", () => {
+  const address = MOCK_DEVICES[1].address as string;
+
+  it("lists the demo speakers as bonded", async () => {
+    const adapter = createSimulationAdapter();
+    expect(await adapter.getBondedDevices()).toEqual(MOCK_DEVICES);
+  });
+
+  it("connects and disconnects", async () => {
+    const adapter = createSimulationAdapter();
+    const device = await adapter.connect(address);
+
+    expect(device.connected).toBe(true);
+    expect(await adapter.isConnected(address)).toBe(true);
+
+    await adapter.disconnect(address);
+    expect(await adapter.isConnected(address)).toBe(false);
+  });
+
+  it("requires pairing before connecting to a discovered device", async () => {
+    const adapter = createSimulationAdapter({
+      discoveryDelayMs: 0,
+      random: () => 0.9,
+    });
+    const [discovered] = await adapter.discoverDevices();
+    const discoveredAddress = discovered.address as string;
+
+    expect(discovered.bonded).toBe(false);
+    await expect(adapter.connect(discoveredAddress)).rejects.toThrow(
+      "is not paired"
+    );
+
+    await adapter.pairDevice(discoveredAddress);
+    expect((await adapter.connect(discoveredAddress)).connected).toBe(true);
+  });
+
+  it("drops connections when Bluetooth is turned off", async () => {
+    const adapter = createSimulationAdapter();
+    const onEnabledChanged = jest.fn();
+    const onDisconnected = jest.fn();
+    adapter.onEnabledChanged(onEnabledChanged);
+    adapter.onDeviceDisconnected(onDisconnected);
+
+    await adapter.connect(address);
+    adapter.setEnabled(false);
+
+    expect(onDisconnected).toHaveBeenCalledWith(address);
+    expect(onEnabledChanged).toHaveBeenCalledWith(false);
+    await expect(adapter.getBondedDevices()).rejects.toThrow("turned off");
+  });
+
+  it("generates Bluetooth-like addresses", () => {
+    expect(generateRandomAddress()).toMatch(/^([0-9A-F]{2}:){5}[0-9A-F]{2}$/);
+  });
+});
+
+describe("getOverallConnectionState", () => {
+  it("summarises the state of several speakers", () => {
+    expect(getOverallConnectionState([])).toBe("idle");
+    expect(getOverallConnectionState(["lost", "connected"])).toBe("connected");
+    expect(getOverallConnectionState(["connected", "connecting"])).toBe(
+      "connecting"
+    );
+    expect(getOverallConnectionState(["idle", "lost", "reconnecting"])).toBe(
+      "reconnecting"
+    );
+  });
+});
+
+describe("reconnect loop", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("doubles the delay up to the maximum", () => {
+    expect(getReconnectDelay(1)).toBe(2000);
+    expect(getReconnectDelay(2)).toBe(4000);
+    expect(getReconnectDelay(4)).toBe(16000);
+    expect(getReconnectDelay(10)).toBe(60000);
+    expect(getReconnectDelay(3, { initialDelayMs: 100, maxDelayMs: 300 })).toBe(
+      300
+    );
+  });
+
+  it("retries with backoff until an attempt succeeds", async () => {
+    const attempt = jest
+      .fn()
+      .mockResolvedValueOnce(false)
+      .mockRejectedValueOnce(new Error("out of range"))
+      .mockResolvedValueOnce(true);
+    const loop = createReconnectLoop({ attempt });
+
+    loop.start();
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(attempt).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(attempt).toHaveBeenLastCalledWith(1);
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(attempt).toHaveBeenLastCalledWith(2);
+    await jest.advanceTimersByTimeAsync(8000);
+    expect(attempt).toHaveBeenLastCalledWith(3);
+
+    expect(loop.isRunning()).toBe(false);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const attempt = jest.fn().mockResolvedValue(false);
+    const onGiveUp = jest.fn();
+    const loop = createReconnectLoop(
+      { attempt, onGiveUp },
+      { initialDelayMs: 10, maxAttempts: 3 }
+    );
+
+    loop.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(attempt).toHaveBeenCalledTimes(3);
+    expect(onGiveUp).toHaveBeenCalledTimes(1);
+    expect(loop.isRunning()).toBe(false);
+  });
+
+  it("stops when cancelled, even with an attempt in flight", async () => {
+    let finishAttempt: (connected: boolean) => void = () => {};
+    const attempt = jest.fn(
+      () =>
+        new Promise<boolean>((resolve) => {
+          finishAttempt = resolve;
+        })
+    );
+    const onGiveUp = jest.fn();
+    const loop = createReconnectLoop(
+      { attempt, onGiveUp },
+      { initialDelayMs: 10, maxAttempts: 1 }
+    );
+
+    loop.start();
+    await jest.advanceTimersByTimeAsync(10);
+    loop.cancel();
+    finishAttempt(false);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(attempt).toHaveBeenCalledTimes(1);
+    expect(onGiveUp).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  TransactionCategory,
+  classifyTransaction,
+  parsePaymentNotification,
+  parseTransactionNotification,
+} from "@/app/services/parsers";
+import { notification } from "./fixtures/factories";
+
+// Real-world transaction notifications, see fixtures/transactions.json
+const fixtures: {
+  description: string;
+  packageName: string;
+  title: string;
+  text: string;
+  expected: { category: TransactionCategory; amount: number } | null;
+}[] = require("./fixtures/transactions.json");
+
+describe("transaction fixtures", () => {
+  it.each(fixtures.map((fixture) => [fixture.description, fixture]))(
+    "%s",
+    (_, fixture) => {
+      const transaction = parseTransactionNotification(
+        notification(fixture.packageName, fixture.text, {
+          title: fixture.title,
+        })
+      );
+
+      if (fixture.expected === null) {
+        expect(transaction).toBeNull();
+      } else {
+        expect(transaction).toMatchObject({
+          category: fixture.expected.category,
+          payment: { amount: fixture.expected.amount },
+        });
+      }
+    }
+  );
+
+  it("only treats received transactions as payments", () => {
+    fixtures.forEach((fixture) => {
+      const payment = parsePaymentNotification(
+        notification(fixture.packageName, fixture.text, {
+          title: fixture.title,
+        })
+      );
+      expect(payment !== null).toBe(fixture.expected?.category === "received");
+    });
+  });
+});
+
+describe("classifyTransaction", () => {
+  it("ignores words in the sender's memo", () => {
+    expect(
+      classifyTransaction(
+        "Bạn vừa nhận được 50.000đ từ NGUYEN VAN A. Lời nhắn: ma OTP khuyen mai",
+        { title: null }
+      )
+    ).toBe("received");
+  });
+
+  it("doesn't take generic payment words as money received", () => {
+    expect(
+      classifyTransaction("Payment of 50,000 VND", { title: "Transfer" })
+    ).toBe("other");
+  });
+
+  it("reads the title along with the text", () => {
+    expect(
+      classifyTransaction("50.000đ từ NGUYEN VAN A", {
+        title: "Nhận tiền thành công",
+      })
+    ).toBe("received");
+  });
+});
@@ -0,0 +1,34 @@
+import { PostedNotification } from "@/app/services/NotificationListener";
+import { PaymentEvent } from "@/app/services/parsers";
+
+// A MoMo payment, with the fields a test cares about overridden
+export const payment = (
+  overrides: Partial<PaymentEvent> = {}
+): PaymentEvent => ({
+  amount: 50000,
+  sender: "NGUYEN VAN A",
+  reference: null,
+  transactionId: null,
+  account: null,
+  sourceApp: "momo",
+  packageName: "com.mservice.momotransfer",
+  rawText: "Bạn vừa nhận được 50.000đ từ NGUYEN VAN A",
+  receivedAt: 1700000000000,
+  notificationKey: "0|com.mservice.momotransfer|1|null|10001",
+  ...overrides,
+});
+
+// A notification posted by the given app, keyed like Android keys it
+export const notification = (
+  packageName: string,
+  text: string,
+  overrides: Partial<PostedNotification> = {}
+): PostedNotification => ({
+  packageName,
+  title: null,
+  text,
+  bigText: null,
+  postTime: 1700000000000,
+  key: `0|${packageName}|1|null|10001`,
+  ...overrides,
+});
@@ -0,0 +1,161 @@
+import {
+  getParserForPackage,
+  getRegisteredParsers,
+  parsePaymentNotification,
+  registerParser,
+} from "@/app/services/parsers";
+import { parseVndNumber } from "@/app/services/parsers/helpers";
+import { notification } from "./fixtures/factories";
+
+describe("parser registry", () => {
+  it("registers the built-in wallets and banks", () => {
+    const ids = getRegisteredParsers().map((parser) => parser.id);
+
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        "momo",
+        "zalopay",
+        "vnpay",
+        "viettelmoney",
+        "vietcombank",
+        "techcombank",
+        "mbbank",
+      ])
+    );
+  });
+
+  it("ignores packages without a parser", () => {
+    expect(
+      parsePaymentNotification(
+        notification("com.example.chat", "You have received 50,000 VND")
+      )
+    ).toBeNull();
+  });
+
+  it("builds a PaymentEvent from a MoMo notification", () => {
+    const payment = parsePaymentNotification(
+      notification(
+        "com.mservice.momotransfer",
+        "You have received 1,250,000 VND from Alice"
+      )
+    );
+
+    expect(payment).toEqual({
+      amount: 1250000,
+      sender: "Alice",
+      reference: null,
+      transactionId: null,
+      account: null,
+      sourceApp: "momo",
+      packageName: "com.mservice.momotransfer",
+      rawText: "You have received 1,250,000 VND from Alice",
+      receivedAt: 1700000000000,
+      notificationKey: "0|com.mservice.momotransfer|1|null|10001",
+    });
+  });
+
+  it("only treats bank credits as payments", () => {
+    expect(
+      parsePaymentNotification(
+        notification("com.VCB", "TK 0123456789 -20,000 VND. ND: phi dich vu")
+      )
+    ).toBeNull();
+
+    expect(
+      parsePaymentNotification(
+        notification("com.VCB", "TK 0123456789 +20,000 VND. ND: tra tien hang")
+      )
+    ).toMatchObject({ amount: 20000, sourceApp: "vietcombank" });
+  });
+
+  it("extracts the receiving account from bank notifications", () => {
+    expect(
+      parsePaymentNotification(
+        notification("com.VCB", "TK 0123456789 +20,000 VND. ND: tra tien hang")
+      )?.account
+    ).toBe("0123456789");
+
+    expect(
+      parsePaymentNotification(
+        notification(
+          "com.mbmobile",
+          "Tài khoản: x6789 | GD: +150,000 VND | ND: cafe"
+        )
+      )?.account
+    ).toBe("x6789");
+
+    expect(
+      parsePaymentNotification(
+        notification("com.mbmobile", "TK 05xxx123|GD: +90,000VND|ND: cafe")
+      )?.account
+    ).toBe("05xxx123");
+  });
+
+  it("accepts new parsers", () => {
+    registerParser({
+      id: "shopeepay",
+      name: "ShopeePay",
+      packageNames: ["com.beeasy.shopee.vn"],
+      parse: () => ({
+        amount: 10000,
+        sender: "Shopee Buyer",
+        reference: null,
+        transactionId: null,
+      }),
+    });
+
+    expect(getParserForPackage("com.beeasy.shopee.vn")?.id).toBe("shopeepay");
+    expect(
+      parsePaymentNotification(notification("com.beeasy.shopee.vn", "Paid"))
+    ).toMatchObject({ amount: 10000, sourceApp: "shopeepay" });
+  });
+});
+
+// Real-world notification strings, see fixtures/notifications.json
+const fixtures: {
+  description: string;
+  packageName: string;
+  title: string;
+  text: string;
+  expected: {
+    amount: number;
+    sender: string | null;
+    reference: string | null;
+    transactionId: string | null;
+  } | null;
+}[] = require("./fixtures/notifications.json");
+
+describe("notification fixtures", () => {
+  it.each(fixtures.map((fixture) => [fixture.description, fixture]))(
+    "%s",
+    (_, fixture) => {
+      const payment = parsePaymentNotification(
+        notification(fixture.packageName, fixture.text, {
+          title: fixture.title,
+        })
+      );
+
+      if (fixture.expected === null) {
+        expect(payment).toBeNull();
+      } else {
+        expect(payment).toMatchObject(fixture.expected);
+      }
+    }
+  );
+});
+
+describe("parseVndNumber", () => {
+  it.each([
+    ["50.000", 50000],
+    ["50,000", 50000],
+    ["1.250.000", 1250000],
+    ["1,250,000", 1250000],
+    ["1.250.000,50", 1250001],
+    ["1,250,000.49", 1250000],
+    ["500", 500],
+    ["12.5", 13],
+    ["1.2.3", null],
+  ])("parses %s", (raw, expected) => {
+    expect(parseVndNumber(raw)).toBe(expected);
+  });
+});
@@ -18,6 +18,10 @@ import expo.modules.ReactNativeHostWrapper;
 import com.kjur.reactnativebluetoothclassic.RNBluetoothClassicPackage;
 import net.no_mad.tts.TextToSpeechPackage;
 
+import com.notifin.app.audio.AudioRoutePackage;
+import com.notifin.app.background.BackgroundModePackage;
+import com.notifin.app.notifications.NotificationListenerPackage;
+
 import java.util.List;
 
 public class MainApplication extends Application implements ReactApplication {
@@ -37,6 +41,9 @@ public class MainApplication extends Application implements ReactApplication {
           // Packages that cannot be autolinked yet can be added manually here
           packages.add(new RNBluetoothClassicPackage());
           packages.add(new TextToSpeechPackage());
+          packages.add(new NotificationListenerPackage());
+          packages.add(new AudioRoutePackage());
+          packages.add(new BackgroundModePackage());
           return packages;
         }
 
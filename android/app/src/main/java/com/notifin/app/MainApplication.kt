@@ -16,6 +16,10 @@ import com.facebook.soloader.SoLoader
 import expo.modules.ApplicationLifecycleDispatcher
 import expo.modules.ReactNativeHostWrapper
 
+import com.notifin.app.audio.AudioRoutePackage
+import com.notifin.app.background.BackgroundModePackage
+import com.notifin.app.notifications.NotificationListenerPackage
+
 class MainApplication : Application(), ReactApplication {
 
   override val reactNativeHost: ReactNativeHost = ReactNativeHostWrapper(
@@ -25,6 +29,9 @@ class MainApplication : Application(), ReactApplication {
             val packages = PackageList(this).packages
             // Packages that cannot be autolinked yet can be added manually here, for example:
             // packages.add(new MyReactNativePackage());
+            packages.add(NotificationListenerPackage())
+            packages.add(AudioRoutePackage())
+            packages.add(BackgroundModePackage())
             return packages
           }
 
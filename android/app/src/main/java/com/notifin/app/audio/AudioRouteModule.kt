@@ -0,0 +1,249 @@
+package com.notifin.app.audio
+
+import android.bluetooth.BluetoothDevice
+import android.bluetooth.BluetoothManager
+import android.bluetooth.BluetoothProfile
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.content.IntentFilter
+import android.media.AudioAttributes
+import android.media.AudioDeviceCallback
+import android.media.AudioDeviceInfo
+import android.media.AudioManager
+import android.os.Build
+import android.os.Handler
+import android.os.Looper
+import android.provider.Settings
+import android.util.Log
+import androidx.core.content.ContextCompat
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.WritableMap
+import com.facebook.react.modules.core.DeviceEventManagerModule
+
+/**
+ * Reports where media audio (and therefore TTS) is actually played: a
+ * Bluetooth A2DP speaker, a Bluetooth SCO headset, the phone speaker or a
+ * wired headset. Emits `audioRouteChanged` whenever outputs come and go.
+ */
+class AudioRouteModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  private val audioManager =
+    reactContext.getSystemService(Context.AUDIO_SERVICE) as AudioManager
+
+  private val deviceCallback = object : AudioDeviceCallback() {
+    override fun onAudioDevicesAdded(addedDevices: Array<out AudioDeviceInfo>) = emitRouteChanged()
+    override fun onAudioDevicesRemoved(removedDevices: Array<out AudioDeviceInfo>) = emitRouteChanged()
+  }
+
+  // Calls and voice assistants switch media to SCO without adding a device
+  private val scoReceiver = object : BroadcastReceiver() {
+    override fun onReceive(context: Context, intent: Intent) = emitRouteChanged()
+  }
+
+  init {
+    audioManager.registerAudioDeviceCallback(deviceCallback, Handler(Looper.getMainLooper()))
+    ContextCompat.registerReceiver(
+      reactContext,
+      scoReceiver,
+      IntentFilter(AudioManager.ACTION_SCO_AUDIO_STATE_UPDATED),
+      ContextCompat.RECEIVER_EXPORTED
+    )
+  }
+
+  override fun getName(): String = NAME
+
+  override fun invalidate() {
+    audioManager.unregisterAudioDeviceCallback(deviceCallback)
+    try {
+      reactApplicationContext.unregisterReceiver(scoReceiver)
+    } catch (error: IllegalArgumentException) {
+      Log.d(TAG, "SCO receiver was not registered")
+    }
+    super.invalidate()
+  }
+
+  @ReactMethod
+  fun getCurrentRoute(promise: Promise) {
+    try {
+      promise.resolve(currentRoute())
+    } catch (error: Exception) {
+      promise.reject("E_AUDIO_ROUTE", "Could not read the audio route", error)
+    }
+  }
+
+  // Whether the phone can be heard or felt at all: muted media means TTS is
+  // silent, silent ringer mode means vibrations are suppressed
+  @ReactMethod
+  fun getOutputStatus(promise: Promise) {
+    try {
+      val status = Arguments.createMap()
+      status.putInt("mediaVolume", audioManager.getStreamVolume(AudioManager.STREAM_MUSIC))
+      status.putInt("maxMediaVolume", audioManager.getStreamMaxVolume(AudioManager.STREAM_MUSIC))
+      status.putString(
+        "ringerMode",
+        when (audioManager.ringerMode) {
+          AudioManager.RINGER_MODE_SILENT -> "silent"
+          AudioManager.RINGER_MODE_VIBRATE -> "vibrate"
+          else -> "normal"
+        }
+      )
+      promise.resolve(status)
+    } catch (error: Exception) {
+      promise.reject("E_OUTPUT_STATUS", "Could not read the output status", error)
+    }
+  }
+
+  /**
+   * Asks Android to make the given A2DP speaker the active media output. This
+   * uses a hidden API that is not available on every device, so it resolves
+   * false instead of failing when it can't be applied.
+   */
+  @ReactMethod
+  fun preferBluetoothDevice(address: String, promise: Promise) {
+    val adapter = reactApplicationContext
+      .getSystemService(BluetoothManager::class.java)
+      ?.adapter
+    if (adapter == null) {
+      promise.resolve(false)
+      return
+    }
+
+    // Leave a lingering SCO link so media goes back to A2DP
+    @Suppress("DEPRECATION")
+    if (audioManager.isBluetoothScoOn) {
+      audioManager.stopBluetoothSco()
+      audioManager.isBluetoothScoOn = false
+    }
+
+    val listener = object : BluetoothProfile.ServiceListener {
+      override fun onServiceConnected(profile: Int, proxy: BluetoothProfile) {
+        val applied = try {
+          val device = adapter.getRemoteDevice(address)
+          if (!proxy.connectedDevices.contains(device)) {
+            Log.d(TAG, "$address is not connected as an A2DP speaker")
+            false
+          } else {
+            val method = proxy.javaClass.getMethod("setActiveDevice", BluetoothDevice::class.java)
+            method.invoke(proxy, device) as? Boolean ?: false
+          }
+        } catch (error: Exception) {
+          Log.d(TAG, "Could not make $address the active A2DP device", error)
+          false
+        }
+        adapter.closeProfileProxy(BluetoothProfile.A2DP, proxy)
+        promise.resolve(applied)
+      }
+
+      override fun onServiceDisconnected(profile: Int) {}
+    }
+
+    if (!adapter.getProfileProxy(reactApplicationContext, listener, BluetoothProfile.A2DP)) {
+      promise.resolve(false)
+    }
+  }
+
+  // Lets the user pick the output device themselves
+  @ReactMethod
+  fun openOutputSwitcher(promise: Promise) {
+    try {
+      val action = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+        Settings.Panel.ACTION_VOLUME
+      } else {
+        Settings.ACTION_BLUETOOTH_SETTINGS
+      }
+      val intent = Intent(action)
+      intent.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
+      reactApplicationContext.startActivity(intent)
+      promise.resolve(null)
+    } catch (error: Exception) {
+      promise.reject("E_OPEN_SETTINGS", "Could not open the output switcher", error)
+    }
+  }
+
+  // Required by NativeEventEmitter on the JS side
+  @ReactMethod
+  fun addListener(eventName: String) {}
+
+  @ReactMethod
+  fun removeListeners(count: Int) {}
+
+  private fun currentRoute(): WritableMap {
+    val device = currentMediaDevice()
+    val route = Arguments.createMap()
+    route.putString("type", device?.let { routeType(it.type) } ?: "unknown")
+    route.putString("name", device?.productName?.toString())
+    if (device != null && Build.VERSION.SDK_INT >= Build.VERSION_CODES.P) {
+      route.putString("address", device.address.ifEmpty { null })
+    } else {
+      route.putNull("address")
+    }
+    return route
+  }
+
+  private fun currentMediaDevice(): AudioDeviceInfo? {
+    if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
+      val attributes = AudioAttributes.Builder()
+        .setUsage(AudioAttributes.USAGE_MEDIA)
+        .build()
+      val devices = audioManager.getAudioDevicesForAttributes(attributes)
+      if (devices.isNotEmpty()) {
+        return audioManager
+          .getDevices(AudioManager.GET_DEVICES_OUTPUTS)
+          .firstOrNull { it.type == devices[0].type && it.address == devices[0].address }
+          ?: findOutput(devices[0].type)
+      }
+    }
+
+    // Older versions: infer the route the same way the audio policy does
+    @Suppress("DEPRECATION")
+    return when {
+      audioManager.isBluetoothScoOn -> findOutput(AudioDeviceInfo.TYPE_BLUETOOTH_SCO)
+      audioManager.isBluetoothA2dpOn -> findOutput(AudioDeviceInfo.TYPE_BLUETOOTH_A2DP)
+      else -> findOutput(AudioDeviceInfo.TYPE_WIRED_HEADSET)
+        ?: findOutput(AudioDeviceInfo.TYPE_WIRED_HEADPHONES)
+        ?: findOutput(AudioDeviceInfo.TYPE_USB_HEADSET)
+        ?: findOutput(AudioDeviceInfo.TYPE_BUILTIN_SPEAKER)
+    }
+  }
+
+  private fun findOutput(type: Int): AudioDeviceInfo? =
+    audioManager.getDevices(AudioManager.GET_DEVICES_OUTPUTS).firstOrNull { it.type == type }
+
+  private fun routeType(type: Int): String = when (type) {
+    AudioDeviceInfo.TYPE_BLUETOOTH_A2DP -> "a2dp"
+    AudioDeviceInfo.TYPE_BLUETOOTH_SCO -> "sco"
+    AudioDeviceInfo.TYPE_BUILTIN_SPEAKER -> "speaker"
+    AudioDeviceInfo.TYPE_BUILTIN_EARPIECE -> "earpiece"
+    AudioDeviceInfo.TYPE_WIRED_HEADSET,
+    AudioDeviceInfo.TYPE_WIRED_HEADPHONES -> "wired"
+    AudioDeviceInfo.TYPE_USB_HEADSET,
+    AudioDeviceInfo.TYPE_USB_DEVICE -> "usb"
+    else -> "unknown"
+  }
+
+  private fun emitRouteChanged() {
+    val context = reactApplicationContext
+    if (!context.hasActiveReactInstance()) return
+
+    try {
+      context
+        .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+        .emit(EVENT_ROUTE_CHANGED, currentRoute())
+    } catch (error: Exception) {
+      Log.d(TAG, "Could not emit audio route change", error)
+    }
+  }
+
+  companion object {
+    const val NAME = "AudioRoute"
+    const val EVENT_ROUTE_CHANGED = "audioRouteChanged"
+    private const val TAG = "AudioRoute"
+  }
+}
@@ -0,0 +1,51 @@
+package com.notifin.app.background
+
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+
+/**
+ * Switches background announcements ([PaymentForegroundService]) on and off
+ * and updates its status notification.
+ */
+class BackgroundModeModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = NAME
+
+  @ReactMethod
+  fun isEnabled(promise: Promise) {
+    promise.resolve(PaymentForegroundService.isEnabled(reactApplicationContext))
+  }
+
+  @ReactMethod
+  fun start(promise: Promise) {
+    try {
+      PaymentForegroundService.start(reactApplicationContext)
+      promise.resolve(true)
+    } catch (error: Exception) {
+      promise.reject("E_START_SERVICE", "Could not start background announcements", error)
+    }
+  }
+
+  @ReactMethod
+  fun stop(promise: Promise) {
+    try {
+      PaymentForegroundService.stop(reactApplicationContext)
+      promise.resolve(null)
+    } catch (error: Exception) {
+      promise.reject("E_STOP_SERVICE", "Could not stop background announcements", error)
+    }
+  }
+
+  @ReactMethod
+  fun updateStatus(status: String, promise: Promise) {
+    PaymentForegroundService.updateStatus(reactApplicationContext, status)
+    promise.resolve(null)
+  }
+
+  companion object {
+    const val NAME = "BackgroundMode"
+  }
+}
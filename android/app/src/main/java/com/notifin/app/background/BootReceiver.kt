@@ -0,0 +1,35 @@
+package com.notifin.app.background
+
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.util.Log
+
+/**
+ * Starts [PaymentForegroundService] again after a reboot or an app update
+ * when the user had background announcements switched on.
+ */
+class BootReceiver : BroadcastReceiver() {
+  override fun onReceive(context: Context, intent: Intent) {
+    if (intent.action !in START_ACTIONS) return
+    if (!PaymentForegroundService.isEnabled(context)) return
+
+    Log.d(TAG, "Restarting background announcements after ${intent.action}")
+    try {
+      PaymentForegroundService.start(context)
+    } catch (error: Exception) {
+      Log.w(TAG, "Could not restart background announcements", error)
+    }
+  }
+
+  companion object {
+    private const val TAG = "BootReceiver"
+
+    private val START_ACTIONS = setOf(
+      Intent.ACTION_BOOT_COMPLETED,
+      Intent.ACTION_MY_PACKAGE_REPLACED,
+      // Fast boot on some HTC and Xiaomi devices
+      "android.intent.action.QUICKBOOT_POWERON"
+    )
+  }
+}
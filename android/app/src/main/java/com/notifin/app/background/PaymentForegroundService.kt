@@ -0,0 +1,133 @@
+package com.notifin.app.background
+
+import android.app.Notification
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.app.Service
+import android.content.Context
+import android.content.Intent
+import android.content.pm.ServiceInfo
+import android.os.Build
+import android.os.IBinder
+import android.util.Log
+import androidx.core.app.NotificationCompat
+import androidx.core.content.ContextCompat
+
+/**
+ * Keeps the app process alive while the UI is closed so payment notifications
+ * can still be announced, and shows a persistent status notification. Whether
+ * it should run is persisted, so [BootReceiver] can start it again after a
+ * reboot.
+ */
+class PaymentForegroundService : Service() {
+
+  override fun onBind(intent: Intent?): IBinder? = null
+
+  override fun onStartCommand(intent: Intent?, flags: Int, startId: Int): Int {
+    val notification = buildNotification(this, lastStatus(this))
+    try {
+      if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+        startForeground(
+          NOTIFICATION_ID,
+          notification,
+          ServiceInfo.FOREGROUND_SERVICE_TYPE_CONNECTED_DEVICE
+        )
+      } else {
+        startForeground(NOTIFICATION_ID, notification)
+      }
+      isRunning = true
+    } catch (error: Exception) {
+      // Android 12+ refuses to start foreground services from the background
+      Log.w(TAG, "Could not start the foreground service", error)
+      stopSelf()
+    }
+    return START_STICKY
+  }
+
+  override fun onDestroy() {
+    isRunning = false
+    super.onDestroy()
+  }
+
+  companion object {
+    private const val TAG = "PaymentForegroundService"
+    private const val CHANNEL_ID = "payment-listener"
+    private const val NOTIFICATION_ID = 4201
+    private const val PREFERENCES = "background_announcements"
+    private const val KEY_ENABLED = "enabled"
+    private const val KEY_STATUS = "status"
+    private const val DEFAULT_STATUS = "Listening for payments"
+
+    @Volatile
+    var isRunning = false
+      private set
+
+    fun isEnabled(context: Context): Boolean =
+      preferences(context).getBoolean(KEY_ENABLED, false)
+
+    fun start(context: Context) {
+      preferences(context).edit().putBoolean(KEY_ENABLED, true).apply()
+      ContextCompat.startForegroundService(
+        context,
+        Intent(context, PaymentForegroundService::class.java)
+      )
+    }
+
+    fun stop(context: Context) {
+      preferences(context).edit().putBoolean(KEY_ENABLED, false).apply()
+      context.stopService(Intent(context, PaymentForegroundService::class.java))
+    }
+
+    // Replaces the text of the status notification, e.g. with the last payment
+    fun updateStatus(context: Context, status: String) {
+      preferences(context).edit().putString(KEY_STATUS, status).apply()
+      if (!isRunning) return
+
+      context
+        .getSystemService(NotificationManager::class.java)
+        ?.notify(NOTIFICATION_ID, buildNotification(context, status))
+    }
+
+    private fun preferences(context: Context) =
+      context.getSharedPreferences(PREFERENCES, Context.MODE_PRIVATE)
+
+    private fun lastStatus(context: Context): String =
+      preferences(context).getString(KEY_STATUS, null) ?: DEFAULT_STATUS
+
+    private fun buildNotification(context: Context, status: String): Notification {
+      if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+        val channel = NotificationChannel(
+          CHANNEL_ID,
+          "Background announcements",
+          NotificationManager.IMPORTANCE_LOW
+        )
+        channel.description = "Shown while payments are announced with the app closed"
+        context.getSystemService(NotificationManager::class.java)
+          ?.createNotificationChannel(channel)
+      }
+
+      // Tapping the notification opens the app
+      val launchIntent = context.packageManager.getLaunchIntentForPackage(context.packageName)
+      val contentIntent = launchIntent?.let {
+        PendingIntent.getActivity(
+          context,
+          0,
+          it,
+          PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+      }
+
+      return NotificationCompat.Builder(context, CHANNEL_ID)
+        .setContentTitle("Noti-Fin is announcing payments")
+        .setContentText(status)
+        .setSmallIcon(context.applicationInfo.icon)
+        .setContentIntent(contentIntent)
+        .setOngoing(true)
+        .setOnlyAlertOnce(true)
+        .setPriority(NotificationCompat.PRIORITY_LOW)
+        .setCategory(NotificationCompat.CATEGORY_SERVICE)
+        .build()
+    }
+  }
+}
@@ -0,0 +1,57 @@
+package com.notifin.app.background
+
+import android.content.Context
+import android.content.Intent
+import android.os.Bundle
+import android.util.Log
+
+import com.facebook.react.HeadlessJsTaskService
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.jstasks.HeadlessJsTaskConfig
+
+import com.notifin.app.notifications.NotificationListenerModule
+import com.notifin.app.notifications.PaymentNotificationListenerService
+
+/**
+ * Runs the `PaymentAnnouncementTask` headless JS task (registered in
+ * `index.ts`) for a posted notification, starting React Native without any
+ * UI when the app is closed.
+ */
+class PaymentHeadlessTaskService : HeadlessJsTaskService() {
+
+  override fun getTaskConfig(intent: Intent?): HeadlessJsTaskConfig? {
+    val extras = intent?.extras ?: return null
+    // The app was opened since the notification was posted. React Native
+    // refuses tasks in the foreground, so the open app gets the notification
+    // instead and decides itself whether to announce (not in demo mode).
+    if (NotificationListenerModule.isAppInForeground()) {
+      PaymentNotificationListenerService.deliverToApp(extras)
+      return null
+    }
+    return HeadlessJsTaskConfig(
+      TASK_NAME,
+      Arguments.fromBundle(extras),
+      TASK_TIMEOUT_MS,
+      false
+    )
+  }
+
+  companion object {
+    const val TASK_NAME = "PaymentAnnouncementTask"
+    private const val TAG = "PaymentHeadlessTask"
+
+    // Long enough to wait for announcements queued before this one
+    private const val TASK_TIMEOUT_MS = 120_000L
+
+    fun start(context: Context, notification: Bundle) {
+      try {
+        val intent = Intent(context, PaymentHeadlessTaskService::class.java)
+        intent.putExtras(notification)
+        context.startService(intent)
+        acquireWakeLockNow(context)
+      } catch (error: Exception) {
+        Log.w(TAG, "Could not start the headless task", error)
+      }
+    }
+  }
+}
@@ -0,0 +1,111 @@
+package com.notifin.app.notifications
+
+import android.content.Intent
+import android.os.Bundle
+import android.provider.Settings
+import android.util.Log
+import androidx.core.app.NotificationManagerCompat
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.WritableArray
+import com.facebook.react.bridge.WritableMap
+import com.facebook.react.common.LifecycleState
+import com.facebook.react.modules.core.DeviceEventManagerModule
+
+import java.lang.ref.WeakReference
+
+/**
+ * Bridges [PaymentNotificationListenerService] to JS: exposes the listener access
+ * state and emits a `notificationPosted` event for every posted notification.
+ */
+class NotificationListenerModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  init {
+    activeContext = WeakReference(reactContext)
+  }
+
+  override fun getName(): String = NAME
+
+  @ReactMethod
+  fun isPermissionGranted(promise: Promise) {
+    val enabledPackages = NotificationManagerCompat.getEnabledListenerPackages(reactApplicationContext)
+    promise.resolve(enabledPackages.contains(reactApplicationContext.packageName))
+  }
+
+  @ReactMethod
+  fun openPermissionSettings(promise: Promise) {
+    try {
+      val intent = Intent(Settings.ACTION_NOTIFICATION_LISTENER_SETTINGS)
+      intent.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
+      reactApplicationContext.startActivity(intent)
+      promise.resolve(null)
+    } catch (error: Exception) {
+      promise.reject("E_OPEN_SETTINGS", "Could not open notification access settings", error)
+    }
+  }
+
+  // Notifications still shown in the system tray, for catching up on payments
+  // that arrived while the app was not listening
+  @ReactMethod
+  fun getActiveNotifications(promise: Promise) {
+    promise.resolve(toArray(PaymentNotificationListenerService.activePayloads()))
+  }
+
+  // Notifications that arrived while no JS was listening, cleared once read
+  @ReactMethod
+  fun takeBufferedNotifications(promise: Promise) {
+    promise.resolve(toArray(PaymentNotificationListenerService.takeBuffered()))
+  }
+
+  private fun toArray(payloads: List<Bundle>): WritableArray {
+    val array = Arguments.createArray()
+    payloads.forEach { array.pushMap(Arguments.fromBundle(it)) }
+    return array
+  }
+
+  // Required by NativeEventEmitter on the JS side. The count tells whether the
+  // app is listening, otherwise notifications go to the background task.
+  @ReactMethod
+  fun addListener(eventName: String) {
+    listenerCount++
+  }
+
+  @ReactMethod
+  fun removeListeners(count: Int) {
+    listenerCount = maxOf(0, listenerCount - count)
+  }
+
+  companion object {
+    const val NAME = "NotificationListener"
+    const val EVENT_NOTIFICATION_POSTED = "notificationPosted"
+    private const val TAG = "NotificationListener"
+
+    private var activeContext: WeakReference<ReactApplicationContext>? = null
+
+    @Volatile
+    private var listenerCount = 0
+
+    // Whether the app's UI is on screen
+    fun isAppInForeground(): Boolean =
+      activeContext?.get()?.lifecycleState == LifecycleState.RESUMED
+
+    // Returns false when no part of the app is listening for notifications
+    fun emitNotificationPosted(payload: WritableMap): Boolean {
+      val context = activeContext?.get()
+      if (context == null || !context.hasActiveReactInstance() || listenerCount == 0) {
+        Log.d(TAG, "Nobody is listening, not emitting notification event")
+        return false
+      }
+
+      context
+        .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+        .emit(EVENT_NOTIFICATION_POSTED, payload)
+      return true
+    }
+  }
+}
@@ -0,0 +1,113 @@
+package com.notifin.app.notifications
+
+import android.app.Notification
+import android.os.Bundle
+import android.util.Log
+import android.service.notification.NotificationListenerService
+import android.service.notification.StatusBarNotification
+
+import com.facebook.react.bridge.Arguments
+
+import com.notifin.app.background.PaymentForegroundService
+import com.notifin.app.background.PaymentHeadlessTaskService
+
+/**
+ * Receives every notification posted on the device once the user has granted
+ * notification access, and forwards it to JS through [NotificationListenerModule].
+ * When the UI is closed and background announcements are on, the notification
+ * is handed to [PaymentHeadlessTaskService] instead; otherwise (background
+ * announcements off, or the app open but not listening, e.g. in demo mode) it
+ * is buffered until the app catches up on missed payments.
+ */
+class PaymentNotificationListenerService : NotificationListenerService() {
+  override fun onListenerConnected() {
+    super.onListenerConnected()
+    instance = this
+  }
+
+  override fun onListenerDisconnected() {
+    instance = null
+    super.onListenerDisconnected()
+  }
+
+  override fun onNotificationPosted(sbn: StatusBarNotification?) {
+    if (sbn == null || !isForwarded(sbn)) return
+
+    val payload = toPayload(sbn)
+    if (NotificationListenerModule.emitNotificationPosted(Arguments.fromBundle(payload))) return
+
+    // An open app that isn't listening is in demo mode: real payments wait
+    // in the buffer until it listens again
+    if (PaymentForegroundService.isEnabled(this) && !NotificationListenerModule.isAppInForeground()) {
+      PaymentHeadlessTaskService.start(this, payload)
+    } else {
+      buffer(payload)
+    }
+  }
+
+  private fun isForwarded(sbn: StatusBarNotification): Boolean =
+    sbn.packageName != packageName &&
+      // Group summaries repeat the content of the notifications they group
+      (sbn.notification.flags and Notification.FLAG_GROUP_SUMMARY) == 0
+
+  companion object {
+    private const val TAG = "PaymentNotificationListener"
+    private const val MAX_BUFFERED = 100
+
+    @Volatile
+    private var instance: PaymentNotificationListenerService? = null
+
+    private val buffered = ArrayDeque<Bundle>()
+
+    private fun buffer(payload: Bundle) = synchronized(buffered) {
+      if (buffered.size >= MAX_BUFFERED) buffered.removeFirst()
+      buffered.addLast(payload)
+    }
+
+    // Hands a notification to the open app: emitted when it listens, buffered
+    // until its next catch-up otherwise
+    fun deliverToApp(payload: Bundle) {
+      if (!NotificationListenerModule.emitNotificationPosted(Arguments.fromBundle(payload))) {
+        buffer(payload)
+      }
+    }
+
+    // Notifications nobody handled since the last call, oldest first
+    fun takeBuffered(): List<Bundle> = synchronized(buffered) {
+      val payloads = buffered.toList()
+      buffered.clear()
+      payloads
+    }
+
+    // Notifications still shown in the system tray, empty while the listener
+    // is not connected
+    fun activePayloads(): List<Bundle> {
+      val service = instance ?: return emptyList()
+      return try {
+        service.activeNotifications
+          ?.filter { service.isForwarded(it) }
+          ?.map { toPayload(it) }
+          ?: emptyList()
+      } catch (error: SecurityException) {
+        Log.w(TAG, "Could not read active notifications", error)
+        emptyList()
+      }
+    }
+
+    /**
+     * Flattens a [StatusBarNotification] into the shape expected by
+     * `PostedNotification` in `app/services/NotificationListener.ts`.
+     */
+    fun toPayload(sbn: StatusBarNotification): Bundle {
+      val extras = sbn.notification.extras
+      val payload = Bundle()
+      payload.putString("packageName", sbn.packageName)
+      payload.putString("title", extras.getCharSequence(Notification.EXTRA_TITLE)?.toString())
+      payload.putString("text", extras.getCharSequence(Notification.EXTRA_TEXT)?.toString())
+      payload.putString("bigText", extras.getCharSequence(Notification.EXTRA_BIG_TEXT)?.toString())
+      payload.putDouble("postTime", sbn.postTime.toDouble())
+      payload.putString("key", sbn.key)
+      return payload
+    }
+  }
+}
@@ -11,6 +11,9 @@ import { useEffect } from "react";
 import "react-native-reanimated";
 
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { BluetoothProvider } from "./services/BluetoothService";
+import { NotificationProvider } from "./services/NotificationService";
+import { DailyRecapScheduler } from "./services/SalesSummaryService";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -33,10 +36,39 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="index" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
+      {/* One speaker connection and payment pipeline for all screens */}
+      <BluetoothProvider>
+        <NotificationProvider>
+          <DailyRecapScheduler />
+          <Stack>
+            <Stack.Screen name="index" options={{ headerShown: false }} />
+            <Stack.Screen
+              name="history"
+              options={{ title: "Payment History" }}
+            />
+            <Stack.Screen
+              name="templates"
+              options={{ title: "Announcement Templates" }}
+            />
+            <Stack.Screen
+              name="phrases"
+              options={{ title: "Phrase Dictionary" }}
+            />
+            <Stack.Screen
+              name="speakers"
+              options={{ title: "Speaker Routing" }}
+            />
+            <Stack.Screen name="settings" options={{ title: "Settings" }} />
+            <Stack.Screen name="chimes" options={{ title: "Chimes" }} />
+            <Stack.Screen name="summary" options={{ title: "Sales Summary" }} />
+            <Stack.Screen
+              name="schedule"
+              options={{ title: "Announcement Hours" }}
+            />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+        </NotificationProvider>
+      </BluetoothProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
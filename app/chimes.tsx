@@ -0,0 +1,353 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  TextInput,
+  Keyboard,
+  Switch,
+} from "react-native";
+import useChimeSettings from "./services/ChimeService";
+import { ChimeSound, findChimeSound } from "./services/Chimes";
+import {
+  formatVnd,
+  getRegisteredParsers,
+  getSourceAppName,
+} from "./services/parsers";
+
+// Wallets and banks that can have their own chime
+const SOURCE_APPS = getRegisteredParsers().map((parser) => parser.id);
+
+const ChimeSettingsScreen = () => {
+  const {
+    settings,
+    sounds,
+    setEnabled,
+    setDefaultChime,
+    setWalletChime,
+    addAmountTier,
+    deleteAmountTier,
+    importSound,
+    deleteSound,
+    previewSound,
+  } = useChimeSettings();
+
+  const [sourceApp, setSourceApp] = useState<string>(SOURCE_APPS[0]);
+  const [tierAmount, setTierAmount] = useState<string>("");
+  const [tierChime, setTierChime] = useState<string>(settings.defaultChime);
+
+  const getSoundName = (id: string): string =>
+    findChimeSound(settings, id)?.name ?? "Missing sound";
+
+  const handleImport = async () => {
+    try {
+      const sound = await importSound();
+      if (sound) {
+        Alert.alert("Sound Imported", `"${sound.name}" can now be used.`);
+      }
+    } catch (error) {
+      console.error("Error importing sound:", error);
+      Alert.alert(
+        "Import Failed",
+        error instanceof Error ? error.message : "Could not copy the file."
+      );
+    }
+  };
+
+  const handleDeleteSound = (sound: ChimeSound) => {
+    Alert.alert(
+      "Delete Sound",
+      `Delete "${sound.name}"? Wallets and tiers using it go back to the default chime.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => deleteSound(sound.id),
+        },
+      ]
+    );
+  };
+
+  const handleAddTier = async () => {
+    const minAmount = Number(tierAmount.replace(/\D/g, ""));
+    if (!minAmount) {
+      Alert.alert("Missing Amount", "Please enter the amount in VND");
+      return;
+    }
+
+    await addAmountTier(minAmount, tierChime);
+    setTierAmount("");
+    Keyboard.dismiss();
+  };
+
+  const renderSoundChips = (
+    selected: string | null,
+    onSelect: (id: string) => void
+  ) =>
+    sounds.map((sound) => (
+      <TouchableOpacity
+        key={sound.id}
+        style={[styles.chip, selected === sound.id && styles.selectedChip]}
+        onPress={() => onSelect(sound.id)}
+      >
+        <Text
+          style={[
+            styles.chipText,
+            selected === sound.id && styles.selectedChipText,
+          ]}
+        >
+          {sound.name}
+        </Text>
+      </TouchableOpacity>
+    ));
+
+  return (
+    <ScrollView
+      style={styles.outerContainer}
+      contentContainerStyle={styles.scrollContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.card}>
+        <View style={styles.optionRow}>
+          <Text style={styles.optionText}>Chime before payments</Text>
+          <Switch value={settings.enabled} onValueChange={setEnabled} />
+        </View>
+        <Text style={styles.hintText}>
+          A short sound is played before each payment announcement so nobody
+          misses its first words. An amount tier wins over a wallet&apos;s
+          chime, which wins over the default.
+        </Text>
+      </View>
+
+      {/* Sounds */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Sounds</Text>
+        {sounds.map((sound) => (
+          <View key={sound.id} style={styles.listItem}>
+            <Text style={styles.itemText}>
+              {sound.name}
+              {sound.uri ? "" : " (built-in)"}
+            </Text>
+            <TouchableOpacity onPress={() => previewSound(sound)}>
+              <Text style={styles.linkText}>Play</Text>
+            </TouchableOpacity>
+            {sound.uri && (
+              <TouchableOpacity onPress={() => handleDeleteSound(sound)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+        <TouchableOpacity
+          style={[styles.button, styles.buttonSpacing]}
+          onPress={handleImport}
+        >
+          <Text style={styles.buttonText}>Import Sound</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Default chime */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Default Chime</Text>
+        <View style={styles.chipRow}>
+          {renderSoundChips(settings.defaultChime, setDefaultChime)}
+        </View>
+      </View>
+
+      {/* Per wallet */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Wallet Chimes</Text>
+        <Text style={styles.label}>Wallet or bank</Text>
+        <View style={styles.chipRow}>
+          {SOURCE_APPS.map((app) => (
+            <TouchableOpacity
+              key={app}
+              style={[styles.chip, sourceApp === app && styles.selectedChip]}
+              onPress={() => setSourceApp(app)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  sourceApp === app && styles.selectedChipText,
+                ]}
+              >
+                {getSourceAppName(app)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.label}>Chime</Text>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[
+              styles.chip,
+              !settings.appChimes[sourceApp] && styles.selectedChip,
+            ]}
+            onPress={() => setWalletChime(sourceApp, null)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                !settings.appChimes[sourceApp] && styles.selectedChipText,
+              ]}
+            >
+              Default
+            </Text>
+          </TouchableOpacity>
+          {renderSoundChips(settings.appChimes[sourceApp] ?? null, (id) =>
+            setWalletChime(sourceApp, id)
+          )}
+        </View>
+      </View>
+
+      {/* Amount tiers */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Amount Tiers</Text>
+        <Text style={styles.hintText}>
+          Payments of at least the amount use the tier&apos;s chime, e.g. a bell
+          from 1,000,000 đ.
+        </Text>
+        <TextInput
+          style={styles.textInput}
+          value={tierAmount}
+          onChangeText={setTierAmount}
+          placeholder="Minimum amount (VND)"
+          keyboardType="number-pad"
+        />
+        <View style={styles.chipRow}>
+          {renderSoundChips(tierChime, setTierChime)}
+        </View>
+        <TouchableOpacity style={styles.button} onPress={handleAddTier}>
+          <Text style={styles.buttonText}>Add Tier</Text>
+        </TouchableOpacity>
+        {settings.amountTiers.map((tier) => (
+          <View key={tier.minAmount} style={styles.listItem}>
+            <Text style={styles.itemText}>
+              From {formatVnd(tier.minAmount)} đ: {getSoundName(tier.chime)}
+            </Text>
+            <TouchableOpacity onPress={() => deleteAmountTier(tier.minAmount)}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContainer: {
+    paddingBottom: 20,
+  },
+  card: {
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: "#616161",
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#757575",
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E3F2FD",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    color: "#1565C0",
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  button: {
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonSpacing: {
+    marginTop: 10,
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+  listItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  linkText: {
+    color: "#2196F3",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+  deleteText: {
+    color: "#E53935",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+});
+
+export default ChimeSettingsScreen;
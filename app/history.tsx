@@ -0,0 +1,546 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import { Stack } from "expo-router";
+import usePaymentHistoryService from "./services/PaymentHistoryService";
+import useNotificationService from "./services/NotificationService";
+import { StoredPayment } from "./services/PaymentHistoryStore";
+import { PaymentExportFormat } from "./services/PaymentExport";
+import { getChannelLabel } from "./services/AnnouncementFallback";
+import {
+  formatVnd,
+  getRegisteredParsers,
+  getSourceAppName,
+} from "./services/parsers";
+
+type DateRange = "today" | "yesterday" | "week" | "all";
+
+const DATE_RANGES: { key: DateRange; label: string }[] = [
+  { key: "today", label: "Today" },
+  { key: "yesterday", label: "Yesterday" },
+  { key: "week", label: "7 Days" },
+  { key: "all", label: "All" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Convert a date preset into a receivedAt range in local time
+const getDateRange = (range: DateRange): { from?: number; to?: number } => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const today = startOfToday.getTime();
+
+  switch (range) {
+    case "today":
+      return { from: today };
+    case "yesterday":
+      return { from: today - DAY_MS, to: today - 1 };
+    case "week":
+      return { from: today - 6 * DAY_MS };
+    default:
+      return {};
+  }
+};
+
+const parseAmountInput = (value: string): number | undefined => {
+  const digits = value.replace(/[^\d]/g, "");
+  return digits ? parseInt(digits, 10) : undefined;
+};
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())} ${pad(
+    date.getDate()
+  )}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+};
+
+// Source apps the user can filter on
+const SOURCE_APPS = getRegisteredParsers().map((parser) => parser.id);
+
+const PaymentHistoryScreen = () => {
+  const [dateRange, setDateRange] = useState<DateRange>("today");
+  const [sourceApp, setSourceApp] = useState<string | null>(null);
+  const [minAmount, setMinAmount] = useState<string>("");
+  const [maxAmount, setMaxAmount] = useState<string>("");
+
+  const {
+    payments,
+    isLoading,
+    totalCount,
+    totalAmount,
+    setFilter,
+    deletePayment,
+    deleteAllPayments,
+    exportPayments,
+  } = usePaymentHistoryService({ ...getDateRange("today") });
+  const { announcePaymentAnyway } = useNotificationService();
+
+  // Rebuild the store filter whenever an input changes
+  useEffect(() => {
+    setFilter({
+      ...getDateRange(dateRange),
+      sourceApps: sourceApp ? [sourceApp] : undefined,
+      minAmount: parseAmountInput(minAmount),
+      maxAmount: parseAmountInput(maxAmount),
+    });
+  }, [dateRange, sourceApp, minAmount, maxAmount, setFilter]);
+
+  const handleAnnounceAnyway = async (payment: StoredPayment) => {
+    try {
+      await announcePaymentAnyway(payment.id);
+    } catch (error) {
+      console.error("Error announcing payment:", error);
+      Alert.alert("Announcement Failed", "The payment could not be announced.");
+    }
+  };
+
+  const handleDelete = (payment: StoredPayment) => {
+    Alert.alert(
+      "Delete Payment",
+      `Delete ${formatVnd(payment.amount)} đ from ${
+        payment.sender || "unknown sender"
+      }?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => deletePayment(payment.id),
+        },
+      ]
+    );
+  };
+
+  const handleDeleteAll = () => {
+    if (totalCount === 0) return;
+
+    Alert.alert(
+      "Delete Payments",
+      `Delete all ${totalCount} payments shown? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => deleteAllPayments(),
+        },
+      ]
+    );
+  };
+
+  const handleExport = async (format: PaymentExportFormat) => {
+    try {
+      await exportPayments(format);
+    } catch (error) {
+      console.error("Error exporting payments:", error);
+      Alert.alert(
+        "Export Failed",
+        error instanceof Error ? error.message : "Could not export payments."
+      );
+    }
+  };
+
+  const renderFilters = () => (
+    <View>
+      {/* Totals */}
+      <View style={styles.summaryContainer}>
+        <Text style={styles.summaryLabel}>Total</Text>
+        <Text style={styles.summaryAmount}>{formatVnd(totalAmount)} đ</Text>
+        <Text style={styles.summaryCount}>
+          {totalCount} {totalCount === 1 ? "payment" : "payments"}
+        </Text>
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filterContainer}>
+        <Text style={styles.subTitle}>Date</Text>
+        <View style={styles.chipRow}>
+          {DATE_RANGES.map((range) => (
+            <TouchableOpacity
+              key={range.key}
+              style={[
+                styles.chip,
+                dateRange === range.key && styles.selectedChip,
+              ]}
+              onPress={() => setDateRange(range.key)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  dateRange === range.key && styles.selectedChipText,
+                ]}
+              >
+                {range.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>App</Text>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, !sourceApp && styles.selectedChip]}
+            onPress={() => setSourceApp(null)}
+          >
+            <Text
+              style={[styles.chipText, !sourceApp && styles.selectedChipText]}
+            >
+              All
+            </Text>
+          </TouchableOpacity>
+          {SOURCE_APPS.map((app) => (
+            <TouchableOpacity
+              key={app}
+              style={[styles.chip, sourceApp === app && styles.selectedChip]}
+              onPress={() => setSourceApp(app)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  sourceApp === app && styles.selectedChipText,
+                ]}
+              >
+                {getSourceAppName(app)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>Amount (đ)</Text>
+        <View style={styles.amountRow}>
+          <TextInput
+            style={styles.amountInput}
+            value={minAmount}
+            onChangeText={setMinAmount}
+            placeholder="Min"
+            keyboardType="number-pad"
+          />
+          <Text style={styles.amountSeparator}>–</Text>
+          <TextInput
+            style={styles.amountInput}
+            value={maxAmount}
+            onChangeText={setMaxAmount}
+            placeholder="Max"
+            keyboardType="number-pad"
+          />
+        </View>
+
+        <View style={styles.exportRow}>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              styles.exportSpacing,
+              totalCount === 0 && styles.disabledButton,
+            ]}
+            onPress={() => handleExport("csv")}
+            disabled={totalCount === 0}
+          >
+            <Text style={styles.buttonText}>Export CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              totalCount === 0 && styles.disabledButton,
+            ]}
+            onPress={() => handleExport("json")}
+            disabled={totalCount === 0}
+          >
+            <Text style={styles.buttonText}>Export JSON</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[
+            styles.deleteAllButton,
+            totalCount === 0 && styles.disabledButton,
+          ]}
+          onPress={handleDeleteAll}
+          disabled={totalCount === 0}
+        >
+          <Text style={styles.buttonText}>Delete Shown Payments</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.outerContainer}>
+      <Stack.Screen options={{ title: "Payment History" }} />
+      <FlatList
+        data={payments}
+        keyExtractor={(item) => String(item.id)}
+        ListHeaderComponent={renderFilters()}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.loading} color="#2196F3" />
+          ) : (
+            <Text style={styles.emptyText}>No payments found</Text>
+          )
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.paymentItem}
+            onLongPress={() => handleDelete(item)}
+          >
+            <View style={styles.paymentHeader}>
+              <Text style={styles.paymentAmount}>
+                +{formatVnd(item.amount)} đ
+              </Text>
+              <Text style={styles.paymentApp}>
+                {getSourceAppName(item.sourceApp)}
+              </Text>
+            </View>
+            <Text style={styles.paymentSender}>
+              {item.sender || "Unknown sender"}
+            </Text>
+            {item.reference ? (
+              <Text style={styles.paymentReference}>{item.reference}</Text>
+            ) : null}
+            <Text style={styles.paymentTime}>
+              {formatTime(item.receivedAt)}
+              {item.transactionId ? ` · ${item.transactionId}` : ""}
+            </Text>
+            <Text
+              style={[
+                styles.paymentChannel,
+                !item.announcedVia && styles.notAnnounced,
+              ]}
+            >
+              {item.announcedVia
+                ? `Announced via ${getChannelLabel(item.announcedVia)}`
+                : getChannelLabel(null)}
+            </Text>
+            {item.missed && (
+              <Text style={styles.missedText}>
+                Missed while the app was closed
+              </Text>
+            )}
+            {item.quietHours && !item.announcedVia && (
+              <View style={styles.quietRow}>
+                <Text style={styles.missedText}>
+                  Outside announcement hours
+                </Text>
+                <TouchableOpacity
+                  style={styles.announceButton}
+                  onPress={() => handleAnnounceAnyway(item)}
+                >
+                  <Text style={styles.announceButtonText}>Announce Anyway</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  listContainer: {
+    paddingBottom: 20,
+  },
+  summaryContainer: {
+    margin: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#616161",
+  },
+  summaryAmount: {
+    fontSize: 28,
+    fontWeight: "bold",
+    color: "#2E7D32",
+  },
+  summaryCount: {
+    fontSize: 14,
+    color: "#616161",
+  },
+  filterContainer: {
+    marginHorizontal: 15,
+    marginBottom: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E3F2FD",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    color: "#1565C0",
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  amountInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+  },
+  amountSeparator: {
+    marginHorizontal: 10,
+    fontSize: 16,
+  },
+  exportRow: {
+    flexDirection: "row",
+    marginBottom: 10,
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  exportSpacing: {
+    marginRight: 10,
+  },
+  deleteAllButton: {
+    backgroundColor: "#E53935",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  disabledButton: {
+    backgroundColor: "#B0BEC5",
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+  loading: {
+    marginTop: 20,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 20,
+    color: "#757575",
+  },
+  paymentItem: {
+    marginHorizontal: 15,
+    marginBottom: 10,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  paymentHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  paymentAmount: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#2E7D32",
+  },
+  paymentApp: {
+    fontSize: 14,
+    color: "#1565C0",
+    fontWeight: "bold",
+  },
+  paymentSender: {
+    fontSize: 16,
+    marginTop: 4,
+  },
+  paymentReference: {
+    fontSize: 14,
+    color: "#616161",
+    marginTop: 2,
+  },
+  paymentTime: {
+    fontSize: 12,
+    color: "#757575",
+    marginTop: 4,
+  },
+  paymentChannel: {
+    fontSize: 12,
+    color: "#4CAF50",
+    marginTop: 2,
+  },
+  notAnnounced: {
+    color: "#E53935",
+  },
+  missedText: {
+    fontSize: 12,
+    color: "#FB8C00",
+    marginTop: 2,
+  },
+  quietRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  announceButton: {
+    backgroundColor: "#2196F3",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  announceButtonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 12,
+  },
+});
+
+export default PaymentHistoryScreen;
@@ -10,16 +10,57 @@ import {
   ActivityIndicator,
   Keyboard,
   ScrollView,
+  Switch,
 } from "react-native";
 import { StatusBar } from "expo-status-bar";
+import { useRouter } from "expo-router";
 import useBluetoothService, {
   BluetoothDevice,
+  ConnectionState,
 } from "./services/BluetoothService";
+import usePhraseDictionary from "./services/PhraseDictionaryService";
+import useAnnouncementFallback from "./services/AnnouncementFallbackService";
+import useBackgroundMode from "./services/BackgroundModeService";
+import useMissedPaymentSettings from "./services/MissedPaymentService";
+import useNotificationService from "./services/NotificationService";
+import usePaymentHistoryService from "./services/PaymentHistoryService";
+import { formatVnd, getSourceAppName } from "./services/parsers";
+import { getChannelLabel } from "./services/AnnouncementFallback";
+import {
+  describeRssi,
+  isClassicBluetoothAvailable,
+} from "./services/bluetooth";
+import { describeAudioRoute } from "./services/AudioRoute";
+
+const CONNECTION_STATE_LABELS: Record<ConnectionState, string> = {
+  idle: "Not connected",
+  connecting: "Connecting...",
+  connected: "Connected",
+  lost: "Connection lost",
+  reconnecting: "Reconnecting...",
+};
+
+// Payments shown in the live feed
+const FEED_LENGTH = 10;
+
+const formatFeedTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}`;
+};
 
 const PaymentListenerScreen = () => {
+  const router = useRouter();
   const {
     devices,
+    connectedDevices,
     connectedDevice,
+    connectionState,
+    getSpeakerState,
+    targetSpeakers,
+    removeTargetSpeaker,
     isEnabled,
     isScanning,
     isLoading,
@@ -27,21 +68,48 @@ const PaymentListenerScreen = () => {
     connectToDevice,
     disconnectDevice,
     speak,
+    announcementQueue,
+    clearAnnouncementQueue,
+    configureAnnouncementQueue,
     checkSystemConnection,
-    forceConnectToDevice,
     openBluetoothSettings,
-    setCustomVietnamesePhrase,
     getAvailableLanguages,
+    isSimulationMode,
+    setSimulationMode,
+    audioRoute,
+    isAudioRouteMismatch,
+    fixAudioRoute,
   } = useBluetoothService();
+  const { savePhrase } = usePhraseDictionary();
+  const {
+    chain: fallbackChain,
+    setChannelEnabled: setFallbackChannelEnabled,
+    moveChannel: moveFallbackChannel,
+  } = useAnnouncementFallback();
+  const backgroundMode = useBackgroundMode();
+  const missedPayments = useMissedPaymentSettings();
+  const {
+    hasPermission,
+    isDemoMode,
+    setDemoMode,
+    requestPermissions,
+    simulatePaymentNotification,
+  } = useNotificationService();
+  // Saved payments from the last day, newest first, including those announced
+  // in the background
+  const { payments: recentPayments } = usePaymentHistoryService({
+    from: Date.now() - 24 * 60 * 60 * 1000,
+  });
 
   const [message, setMessage] = useState<string>(
     "Your payment has been processed successfully"
   );
-  const [isConnecting, setIsConnecting] = useState<boolean>(false);
   const [englishPhrase, setEnglishPhrase] = useState<string>("");
   const [vietnamesePhrase, setVietnamesePhrase] = useState<string>("");
   const [languages, setLanguages] = useState<string[]>([]);
 
+  const isConnecting = connectionState === "connecting";
+
   // Helper function to get consistent device ID
   const getDeviceId = (device: BluetoothDevice): string => {
     return device.id || device.address || "unknown";
@@ -63,12 +131,7 @@ const PaymentListenerScreen = () => {
   };
 
   const handleConnect = async (device: BluetoothDevice) => {
-    try {
-      setIsConnecting(true);
-      await connectToDevice(device);
-    } finally {
-      setIsConnecting(false);
-    }
+    await connectToDevice(device);
   };
 
   const handleDisconnect = async () => {
@@ -113,9 +176,7 @@ const PaymentListenerScreen = () => {
 
       // If there's just one device, connect to it directly
       if (devices.length === 1) {
-        setIsConnecting(true);
         await connectToDevice(devices[0]);
-        setIsConnecting(false);
         return;
       }
 
@@ -126,11 +187,7 @@ const PaymentListenerScreen = () => {
         [
           ...devices.map((device) => ({
             text: device.name || `Device (${device.address || device.id})`,
-            onPress: async () => {
-              setIsConnecting(true);
-              await connectToDevice(device);
-              setIsConnecting(false);
-            },
+            onPress: () => connectToDevice(device),
           })),
           { text: "Cancel", style: "cancel" },
         ]
@@ -148,16 +205,32 @@ const PaymentListenerScreen = () => {
           { text: "OK" },
         ]
       );
-    } finally {
-      setIsConnecting(false);
     }
   };
 
-  const openSettings = () => {
-    Alert.alert("Settings", "Settings page would open here in a real app");
+  const handleRemoveSpeaker = (device: BluetoothDevice) => {
+    Alert.alert(
+      "Remove Speaker",
+      `Stop announcing on ${
+        device.name || "this speaker"
+      } and reconnecting to it automatically?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => removeTargetSpeaker(device),
+        },
+      ]
+    );
   };
 
-  const handleAddPhrase = () => {
+  const isDeviceConnected = (device: BluetoothDevice): boolean =>
+    connectedDevices.some(
+      (connected) => getDeviceId(connected) === getDeviceId(device)
+    );
+
+  const handleAddPhrase = async () => {
     if (!englishPhrase.trim() || !vietnamesePhrase.trim()) {
       Alert.alert(
         "Missing Information",
@@ -166,10 +239,22 @@ const PaymentListenerScreen = () => {
       return;
     }
 
-    setCustomVietnamesePhrase(englishPhrase, vietnamesePhrase);
-    setEnglishPhrase("");
-    setVietnamesePhrase("");
-    Keyboard.dismiss();
+    try {
+      await savePhrase(englishPhrase, vietnamesePhrase);
+      Alert.alert(
+        "Phrase Added",
+        `Added translation: "${englishPhrase.trim()}" → "${vietnamesePhrase.trim()}"`
+      );
+      setEnglishPhrase("");
+      setVietnamesePhrase("");
+      Keyboard.dismiss();
+    } catch (error) {
+      console.error("Error saving phrase:", error);
+      Alert.alert(
+        "Save Failed",
+        "Could not save the phrase. Please try again."
+      );
+    }
   };
 
   const handleDefaultPhraseSpeak = (english: string, vietnamese: string) => {
@@ -194,12 +279,93 @@ const PaymentListenerScreen = () => {
         {/* Header */}
         <View style={styles.header}>
           <Text style={styles.headerText}>Bluetooth Speaker</Text>
-          <TouchableOpacity
-            style={styles.settingsButton}
-            onPress={openSettings}
-          >
-            <Text style={styles.settingsButtonText}>Settings</Text>
-          </TouchableOpacity>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => router.push("/history")}
+            >
+              <Text style={styles.settingsButtonText}>History</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.settingsButton, styles.headerButtonSpacing]}
+              onPress={() => router.push("/settings")}
+            >
+              <Text style={styles.settingsButtonText}>Settings</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Payment Listener */}
+        <View style={styles.speakContainer}>
+          <Text style={styles.sectionTitle}>Payment Listener</Text>
+          <Text style={styles.statusText}>
+            Notification access:{" "}
+            {hasPermission && !isDemoMode ? "Granted" : "Not granted"}
+          </Text>
+          <Text style={styles.statusText}>
+            Mode: {isDemoMode ? "Demo" : "Live"}
+          </Text>
+          <View style={styles.optionRow}>
+            <Text style={styles.optionText}>Demo mode</Text>
+            <Switch value={isDemoMode} onValueChange={setDemoMode} />
+          </View>
+          <View style={styles.buttonRow}>
+            {(!hasPermission || isDemoMode) && (
+              <TouchableOpacity
+                style={[styles.speakButton, styles.buttonRowItem]}
+                onPress={requestPermissions}
+              >
+                <Text style={styles.buttonText}>Grant Access</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[
+                styles.speakButton,
+                styles.buttonRowItem,
+                !isDemoMode && styles.disabledButton,
+              ]}
+              onPress={simulatePaymentNotification}
+              disabled={!isDemoMode}
+            >
+              <Text style={styles.buttonText}>Demo Payment</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.subSectionTitle}>Latest Payments</Text>
+          {recentPayments.length === 0 ? (
+            <Text style={styles.queueItemText}>No payments yet</Text>
+          ) : (
+            recentPayments.slice(0, FEED_LENGTH).map((payment) => (
+              <View key={payment.id} style={styles.feedItem}>
+                <View style={styles.feedTexts}>
+                  <Text style={styles.feedAmount}>
+                    +{formatVnd(payment.amount)} đ
+                  </Text>
+                  <Text style={styles.queueItemText}>
+                    {payment.sender || "Unknown sender"} ·{" "}
+                    {getSourceAppName(payment.sourceApp)}
+                  </Text>
+                </View>
+                <Text style={styles.queueItemText}>
+                  {formatFeedTime(payment.receivedAt)}
+                </Text>
+              </View>
+            ))
+          )}
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.speakButton, styles.buttonRowItem]}
+              onPress={() => router.push("/history")}
+            >
+              <Text style={styles.buttonText}>View History</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.speakButton, styles.buttonRowItem]}
+              onPress={() => router.push("/summary")}
+            >
+              <Text style={styles.buttonText}>Sales Summary</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Connection Status */}
@@ -208,9 +374,59 @@ const PaymentListenerScreen = () => {
             Bluetooth: {isEnabled ? "Enabled" : "Disabled"}
           </Text>
           <Text style={styles.statusText}>
-            Connected:{" "}
-            {connectedDevice ? connectedDevice.name || "Device" : "No Device"}
+            Speakers: {connectedDevices.length} connected
           </Text>
+          <Text style={styles.statusText}>
+            Connection: {CONNECTION_STATE_LABELS[connectionState]}
+          </Text>
+          {targetSpeakers.map((speaker) => (
+            <View key={getDeviceId(speaker)} style={styles.optionRow}>
+              <Text style={styles.optionText}>
+                {speaker.name || speaker.id}:{" "}
+                {CONNECTION_STATE_LABELS[getSpeakerState(speaker)]}
+              </Text>
+              <TouchableOpacity onPress={() => handleRemoveSpeaker(speaker)}>
+                <Text style={styles.forgetText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          {audioRoute && (
+            <Text style={styles.statusText}>
+              Audio output: {describeAudioRoute(audioRoute)}
+            </Text>
+          )}
+          {isAudioRouteMismatch && (
+            <View style={styles.routeWarning}>
+              <Text style={styles.routeWarningText}>
+                Announcements are not playing through{" "}
+                {connectedDevices.length > 1
+                  ? "any of the connected speakers"
+                  : connectedDevice?.name || "the selected speaker"}
+                .
+              </Text>
+              <TouchableOpacity
+                style={styles.routeWarningButton}
+                onPress={fixAudioRoute}
+              >
+                <Text style={styles.buttonText}>Fix Output</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {isClassicBluetoothAvailable ? (
+            <View style={styles.optionRow}>
+              <Text style={styles.optionText}>
+                Simulation mode (demo speakers)
+              </Text>
+              <Switch
+                value={isSimulationMode}
+                onValueChange={setSimulationMode}
+              />
+            </View>
+          ) : (
+            <Text style={styles.statusText}>
+              Mode: Simulation (Bluetooth module not available)
+            </Text>
+          )}
         </View>
 
         {/* Action Buttons */}
@@ -230,7 +446,7 @@ const PaymentListenerScreen = () => {
           <TouchableOpacity
             style={styles.actionButton}
             onPress={handleConnectByButton}
-            disabled={Boolean(isConnecting) || Boolean(connectedDevice)}
+            disabled={Boolean(isConnecting)}
           >
             {isConnecting ? (
               <ActivityIndicator color="#fff" />
@@ -247,7 +463,7 @@ const PaymentListenerScreen = () => {
             onPress={handleDisconnect}
             disabled={!connectedDevice}
           >
-            <Text style={styles.buttonText}>Disconnect</Text>
+            <Text style={styles.buttonText}>Disconnect All</Text>
           </TouchableOpacity>
 
           <TouchableOpacity
@@ -271,29 +487,37 @@ const PaymentListenerScreen = () => {
                 <TouchableOpacity
                   style={[
                     styles.deviceItem,
-                    connectedDevice &&
-                      getDeviceId(connectedDevice) === getDeviceId(item) &&
-                      styles.connectedDevice,
+                    isDeviceConnected(item) && styles.connectedDevice,
                   ]}
                   onPress={() => handleConnect(item)}
-                  disabled={
-                    Boolean(isConnecting) ||
-                    Boolean(
-                      connectedDevice &&
-                        getDeviceId(connectedDevice) === getDeviceId(item)
-                    )
-                  }
+                  disabled={Boolean(isConnecting) || isDeviceConnected(item)}
                 >
                   <Text style={styles.deviceName}>
                     {item.name || "Unknown Device"}
                   </Text>
                   <Text style={styles.deviceAddress}>
                     {item.address || item.id}
+                    {item.bonded ? " · Paired" : " · Not paired"}
                   </Text>
-                  {connectedDevice &&
-                    getDeviceId(connectedDevice) === getDeviceId(item) && (
+                  {describeRssi(item.rssi) && (
+                    <Text style={styles.deviceAddress}>
+                      Signal: {describeRssi(item.rssi)}
+                    </Text>
+                  )}
+                  {isDeviceConnected(item) ? (
+                    <View style={styles.optionRow}>
                       <Text style={styles.connectedText}>Connected</Text>
-                    )}
+                      <TouchableOpacity onPress={() => disconnectDevice(item)}>
+                        <Text style={styles.forgetText}>Disconnect</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    getSpeakerState(item) !== "idle" && (
+                      <Text style={styles.deviceAddress}>
+                        {CONNECTION_STATE_LABELS[getSpeakerState(item)]}
+                      </Text>
+                    )
+                  )}
                 </TouchableOpacity>
               )}
             />
@@ -326,6 +550,201 @@ const PaymentListenerScreen = () => {
           </TouchableOpacity>
         </View>
 
+        {/* Announcement Queue */}
+        <View style={styles.speakContainer}>
+          <Text style={styles.sectionTitle}>Announcement Queue</Text>
+          <Text style={styles.statusText}>
+            Now speaking:{" "}
+            {announcementQueue.current
+              ? announcementQueue.current.text
+              : "Nothing"}
+          </Text>
+          <Text style={styles.statusText}>
+            Waiting: {announcementQueue.pending.length}
+            {announcementQueue.droppedCount > 0
+              ? ` (${announcementQueue.droppedCount} dropped)`
+              : ""}
+          </Text>
+          {announcementQueue.lastDelivery && (
+            <Text style={styles.statusText}>
+              Last announcement:{" "}
+              {getChannelLabel(announcementQueue.lastDelivery.channel)}
+            </Text>
+          )}
+          {announcementQueue.pending.slice(0, 3).map((item) => (
+            <Text key={item.id} style={styles.queueItemText} numberOfLines={1}>
+              {item.priority ? "Urgent: " : ""}
+              {item.text}
+            </Text>
+          ))}
+
+          <View style={styles.optionRow}>
+            <Text style={styles.optionText}>Combine payment bursts</Text>
+            <Switch
+              value={announcementQueue.config.coalesce}
+              onValueChange={(coalesce) =>
+                configureAnnouncementQueue({ coalesce })
+              }
+            />
+          </View>
+          <View style={styles.optionRow}>
+            <Text style={styles.optionText}>Max waiting</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() =>
+                  configureAnnouncementQueue({
+                    maxLength: Math.max(
+                      1,
+                      announcementQueue.config.maxLength - 1
+                    ),
+                  })
+                }
+              >
+                <Text style={styles.buttonText}>-</Text>
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>
+                {announcementQueue.config.maxLength}
+              </Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() =>
+                  configureAnnouncementQueue({
+                    maxLength: announcementQueue.config.maxLength + 1,
+                  })
+                }
+              >
+                <Text style={styles.buttonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.speakButton,
+              announcementQueue.pending.length === 0 && styles.disabledButton,
+            ]}
+            onPress={clearAnnouncementQueue}
+            disabled={announcementQueue.pending.length === 0}
+          >
+            <Text style={styles.buttonText}>Clear Queue</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Background Announcements */}
+        <View style={styles.speakContainer}>
+          <Text style={styles.sectionTitle}>Background Announcements</Text>
+          {backgroundMode.isAvailable ? (
+            <>
+              <Text style={styles.queueItemText}>
+                Keep announcing payments when the app is closed or the phone is
+                locked, also after a restart. A status notification stays
+                visible while this is on.
+              </Text>
+              <View style={styles.optionRow}>
+                <Text style={styles.optionText}>Announce in background</Text>
+                <Switch
+                  value={backgroundMode.isEnabled}
+                  onValueChange={backgroundMode.setEnabled}
+                />
+              </View>
+            </>
+          ) : (
+            <Text style={styles.queueItemText}>
+              Only available in the Android app.
+            </Text>
+          )}
+          <View style={styles.optionRow}>
+            <Text style={styles.optionText}>
+              Announce missed payments on return
+            </Text>
+            <Switch
+              value={missedPayments.settings.announceSummary}
+              onValueChange={missedPayments.setAnnounceSummary}
+            />
+          </View>
+          <Text style={styles.queueItemText}>
+            Payments from the last 30 minutes that arrived while Noti-Fin was
+            not listening are read out as one summary when you open it. Older
+            ones are only marked as missed in the history.
+          </Text>
+        </View>
+
+        {/* Fallback Chain */}
+        <View style={styles.speakContainer}>
+          <Text style={styles.sectionTitle}>Fallback Chain</Text>
+          <Text style={styles.queueItemText}>
+            Each announcement uses the first channel that works, in this order.
+          </Text>
+          {fallbackChain.map(({ channel, enabled }, index) => (
+            <View key={channel} style={styles.optionRow}>
+              <Text
+                style={[styles.optionText, !enabled && styles.disabledText]}
+              >
+                {index + 1}. {getChannelLabel(channel)}
+              </Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={[
+                    styles.stepperButton,
+                    index === 0 && styles.disabledButton,
+                  ]}
+                  onPress={() => moveFallbackChannel(channel, -1)}
+                  disabled={index === 0}
+                >
+                  <Text style={styles.buttonText}>↑</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.stepperButton,
+                    styles.stepperSpacing,
+                    index === fallbackChain.length - 1 && styles.disabledButton,
+                  ]}
+                  onPress={() => moveFallbackChannel(channel, 1)}
+                  disabled={index === fallbackChain.length - 1}
+                >
+                  <Text style={styles.buttonText}>↓</Text>
+                </TouchableOpacity>
+                <Switch
+                  value={enabled}
+                  onValueChange={(value) =>
+                    setFallbackChannelEnabled(channel, value)
+                  }
+                />
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Speaker Routing */}
+        <View style={styles.speakContainer}>
+          <Text style={styles.sectionTitle}>Speaker Routing</Text>
+          <Text style={styles.queueItemText}>
+            Send payments for a wallet or account to particular speakers, e.g.
+            one per counter.
+          </Text>
+          <TouchableOpacity
+            style={[styles.speakButton, styles.linkButton]}
+            onPress={() => router.push("/speakers")}
+          >
+            <Text style={styles.buttonText}>Edit Routing</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Announcement Templates */}
+        <View style={styles.speakContainer}>
+          <Text style={styles.sectionTitle}>Announcement Templates</Text>
+          <Text style={styles.queueItemText}>
+            Choose what is spoken for each payment, per language and per wallet.
+          </Text>
+          <TouchableOpacity
+            style={[styles.speakButton, styles.linkButton]}
+            onPress={() => router.push("/templates")}
+          >
+            <Text style={styles.buttonText}>Edit Templates</Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Vietnamese Translation Section */}
         <View style={styles.speakContainer}>
           <Text style={styles.sectionTitle}>Vietnamese Translation</Text>
@@ -361,6 +780,12 @@ const PaymentListenerScreen = () => {
             >
               <Text style={styles.buttonText}>Add Translation</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.speakButton, styles.linkButton]}
+              onPress={() => router.push("/phrases")}
+            >
+              <Text style={styles.buttonText}>Manage Phrases</Text>
+            </TouchableOpacity>
           </View>
 
           {/* Quick Phrases */}
@@ -435,6 +860,12 @@ const styles = StyleSheet.create({
     fontSize: 22,
     fontWeight: "bold",
   },
+  headerButtons: {
+    flexDirection: "row",
+  },
+  headerButtonSpacing: {
+    marginLeft: 8,
+  },
   settingsButton: {
     paddingHorizontal: 15,
     paddingVertical: 8,
@@ -460,6 +891,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 5,
   },
+  routeWarning: {
+    backgroundColor: "#FFF3E0",
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 5,
+  },
+  routeWarningText: {
+    color: "#E65100",
+    marginBottom: 8,
+  },
+  routeWarningButton: {
+    backgroundColor: "#FB8C00",
+    padding: 10,
+    borderRadius: 8,
+    alignItems: "center",
+  },
   actionContainer: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -477,6 +924,9 @@ const styles = StyleSheet.create({
   disabledButton: {
     backgroundColor: "#B0BEC5",
   },
+  linkButton: {
+    marginTop: 10,
+  },
   buttonText: {
     color: "white",
     fontWeight: "bold",
@@ -555,6 +1005,77 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: "center",
   },
+  queueItemText: {
+    fontSize: 14,
+    color: "#616161",
+    marginBottom: 4,
+  },
+  subSectionTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginTop: 15,
+    marginBottom: 8,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    marginTop: 10,
+  },
+  buttonRowItem: {
+    flex: 1,
+    marginRight: 10,
+  },
+  feedItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  feedTexts: {
+    flex: 1,
+  },
+  feedAmount: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#4CAF50",
+  },
+  optionRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginVertical: 8,
+  },
+  optionText: {
+    fontSize: 16,
+  },
+  forgetText: {
+    color: "#E53935",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#2196F3",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperSpacing: {
+    marginHorizontal: 8,
+  },
+  disabledText: {
+    color: "#9E9E9E",
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginHorizontal: 12,
+  },
   languageContainer: {
     marginBottom: 15,
     padding: 10,
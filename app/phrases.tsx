@@ -0,0 +1,350 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  TextInput,
+  Keyboard,
+} from "react-native";
+import usePhraseDictionary, {
+  PhraseEntry,
+} from "./services/PhraseDictionaryService";
+
+const PhraseDictionaryScreen = () => {
+  const {
+    phrases,
+    savePhrase,
+    deletePhrase,
+    resetPhrases,
+    importPhrases,
+    exportPhrases,
+  } = usePhraseDictionary();
+
+  const [english, setEnglish] = useState<string>("");
+  const [vietnamese, setVietnamese] = useState<string>("");
+  // The phrase being edited, null when adding a new one
+  const [editing, setEditing] = useState<PhraseEntry | null>(null);
+  const [search, setSearch] = useState<string>("");
+
+  const visiblePhrases = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return phrases;
+    return phrases.filter(
+      (phrase) =>
+        phrase.english.includes(query) ||
+        phrase.vietnamese.toLowerCase().includes(query)
+    );
+  }, [phrases, search]);
+
+  const clearForm = () => {
+    setEditing(null);
+    setEnglish("");
+    setVietnamese("");
+    Keyboard.dismiss();
+  };
+
+  const handleSave = async () => {
+    if (!english.trim() || !vietnamese.trim()) {
+      Alert.alert(
+        "Missing Information",
+        "Please enter both English and Vietnamese phrases"
+      );
+      return;
+    }
+
+    await savePhrase(english, vietnamese, editing?.english);
+    clearForm();
+  };
+
+  const handleEdit = (phrase: PhraseEntry) => {
+    setEditing(phrase);
+    setEnglish(phrase.english);
+    setVietnamese(phrase.vietnamese);
+  };
+
+  const handleDelete = (phrase: PhraseEntry) => {
+    Alert.alert("Delete Phrase", `Delete "${phrase.english}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          if (editing?.english === phrase.english) clearForm();
+          deletePhrase(phrase.english);
+        },
+      },
+    ]);
+  };
+
+  const runImport = async (replace: boolean) => {
+    try {
+      const count = await importPhrases(replace);
+      if (count !== null) {
+        Alert.alert("Phrases Imported", `Imported ${count} phrases.`);
+      }
+    } catch (error) {
+      console.error("Error importing phrases:", error);
+      Alert.alert(
+        "Import Failed",
+        error instanceof Error ? error.message : "Could not read the file."
+      );
+    }
+  };
+
+  const handleImport = () => {
+    Alert.alert(
+      "Import Phrases",
+      "Add the phrases from a JSON file to your dictionary, or replace the whole dictionary?",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", onPress: () => runImport(true) },
+        { text: "Add", onPress: () => runImport(false) },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    try {
+      await exportPhrases();
+    } catch (error) {
+      console.error("Error exporting phrases:", error);
+      Alert.alert(
+        "Export Failed",
+        error instanceof Error ? error.message : "Could not export phrases."
+      );
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      "Reset Phrases",
+      "Replace your dictionary with the built-in phrases? Your custom phrases will be lost.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Reset",
+          style: "destructive",
+          onPress: () => {
+            clearForm();
+            resetPhrases();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderHeader = () => (
+    <View>
+      {/* Add / edit form */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>
+          {editing ? "Edit Phrase" : "Add Phrase"}
+        </Text>
+        <Text style={styles.hintText}>
+          A message is spoken in Vietnamese only when it matches the whole
+          English phrase.
+        </Text>
+        <TextInput
+          style={styles.textInput}
+          value={english}
+          onChangeText={setEnglish}
+          placeholder="English phrase"
+        />
+        <TextInput
+          style={styles.textInput}
+          value={vietnamese}
+          onChangeText={setVietnamese}
+          placeholder="Vietnamese translation"
+        />
+        <View style={styles.buttonRow}>
+          {editing && (
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={clearForm}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.button} onPress={handleSave}>
+            <Text style={styles.buttonText}>
+              {editing ? "Save Changes" : "Add Phrase"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Import / export */}
+      <View style={styles.card}>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.buttonSpacing]}
+            onPress={handleImport}
+          >
+            <Text style={styles.buttonText}>Import JSON</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={handleExport}>
+            <Text style={styles.buttonText}>Export JSON</Text>
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+          <Text style={styles.buttonText}>Reset to Built-in Phrases</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TextInput
+        style={[styles.textInput, styles.searchInput]}
+        value={search}
+        onChangeText={setSearch}
+        placeholder={`Search ${phrases.length} phrases`}
+      />
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.outerContainer}
+      contentContainerStyle={styles.listContainer}
+      data={visiblePhrases}
+      keyExtractor={(item) => item.english}
+      ListHeaderComponent={renderHeader()}
+      ListEmptyComponent={<Text style={styles.emptyText}>No phrases</Text>}
+      keyboardShouldPersistTaps="handled"
+      renderItem={({ item }) => (
+        <TouchableOpacity
+          style={[
+            styles.phraseItem,
+            editing?.english === item.english && styles.editingItem,
+          ]}
+          onPress={() => handleEdit(item)}
+          onLongPress={() => handleDelete(item)}
+        >
+          <View style={styles.phraseTexts}>
+            <Text style={styles.englishText}>{item.english}</Text>
+            <Text style={styles.vietnameseText}>{item.vietnamese}</Text>
+          </View>
+          <TouchableOpacity onPress={() => handleDelete(item)}>
+            <Text style={styles.deleteText}>Delete</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      )}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  listContainer: {
+    paddingBottom: 20,
+  },
+  card: {
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#757575",
+    marginBottom: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+    backgroundColor: "white",
+  },
+  searchInput: {
+    marginHorizontal: 15,
+    marginTop: 15,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  button: {
+    flex: 1,
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonSpacing: {
+    marginRight: 10,
+  },
+  cancelButton: {
+    backgroundColor: "#B0BEC5",
+    marginRight: 10,
+  },
+  resetButton: {
+    backgroundColor: "#E53935",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 10,
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 20,
+    color: "#757575",
+  },
+  phraseItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 15,
+    marginBottom: 10,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  editingItem: {
+    borderWidth: 2,
+    borderColor: "#2196F3",
+  },
+  phraseTexts: {
+    flex: 1,
+  },
+  englishText: {
+    fontSize: 16,
+  },
+  vietnameseText: {
+    fontSize: 14,
+    color: "#1565C0",
+    marginTop: 2,
+  },
+  deleteText: {
+    color: "#E53935",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+});
+
+export default PhraseDictionaryScreen;
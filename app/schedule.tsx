@@ -0,0 +1,370 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  TextInput,
+  Keyboard,
+  Switch,
+} from "react-native";
+import useAnnouncementSchedule from "./services/AnnouncementScheduleService";
+import {
+  OutsideHoursAction,
+  ScheduleWindow,
+  WEEKDAY_NAMES,
+  isWithinSchedule,
+} from "./services/AnnouncementSchedule";
+import { formatTimeOfDay, parseTimeOfDay } from "./services/SalesSummary";
+
+const OUTSIDE_HOURS_ACTIONS: {
+  action: OutsideHoursAction;
+  label: string;
+  description: string;
+}[] = [
+  {
+    action: "notify",
+    label: "Silent Notification",
+    description:
+      "Payments show up as a silent notification with an Announce anyway button.",
+  },
+  {
+    action: "log",
+    label: "Log Only",
+    description:
+      "Payments are only saved to the history, where they can still be announced.",
+  },
+];
+
+const formatWindow = (window: ScheduleWindow): string =>
+  `${formatTimeOfDay(window.start)}–${formatTimeOfDay(window.end)}${
+    window.end <= window.start ? " (overnight)" : ""
+  }`;
+
+const AnnouncementScheduleScreen = () => {
+  const [day, setDay] = useState<number>(() => new Date().getDay());
+  const [windowStart, setWindowStart] = useState<string>("");
+  const [windowEnd, setWindowEnd] = useState<string>("");
+
+  const {
+    schedule,
+    setEnabled,
+    setOutsideHours,
+    addWindow,
+    deleteWindow,
+    copyDayToAllDays,
+  } = useAnnouncementSchedule();
+
+  const isAnnouncingNow = isWithinSchedule(schedule, Date.now());
+
+  const handleAddWindow = async () => {
+    const start = parseTimeOfDay(windowStart);
+    const end = parseTimeOfDay(windowEnd);
+    if (start === null || end === null) {
+      Alert.alert(
+        "Missing Information",
+        "Please enter start and end times like 07:00"
+      );
+      return;
+    }
+
+    await addWindow(day, { start, end });
+    setWindowStart("");
+    setWindowEnd("");
+    Keyboard.dismiss();
+  };
+
+  const handleDeleteWindow = (index: number) => {
+    Alert.alert(
+      "Delete Hours",
+      `Stop announcing ${WEEKDAY_NAMES[day]} ${formatWindow(
+        schedule.days[day][index]
+      )}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => deleteWindow(day, index),
+        },
+      ]
+    );
+  };
+
+  const handleCopyToAllDays = () => {
+    Alert.alert(
+      "Copy to All Days",
+      `Use the hours of ${WEEKDAY_NAMES[day]} for every day of the week?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Copy", onPress: () => copyDayToAllDays(day) },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.outerContainer}
+      contentContainerStyle={styles.scrollContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      {/* On / off */}
+      <View style={styles.card}>
+        <View style={styles.optionRow}>
+          <Text style={styles.subTitle}>Announcement Hours</Text>
+          <Switch value={schedule.enabled} onValueChange={setEnabled} />
+        </View>
+        <Text style={styles.hintText}>
+          {schedule.enabled
+            ? "Payments are only spoken during the hours below."
+            : "Payments are spoken at any time of day."}
+        </Text>
+        {schedule.enabled && (
+          <Text
+            style={[
+              styles.statusText,
+              !isAnnouncingNow && styles.quietStatusText,
+            ]}
+          >
+            {isAnnouncingNow ? "Announcing now" : "Quiet now"}
+          </Text>
+        )}
+      </View>
+
+      {/* Outside hours */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Outside These Hours</Text>
+        <View style={styles.chipRow}>
+          {OUTSIDE_HOURS_ACTIONS.map(({ action, label }) => (
+            <TouchableOpacity
+              key={action}
+              style={[
+                styles.chip,
+                schedule.outsideHours === action && styles.selectedChip,
+              ]}
+              onPress={() => setOutsideHours(action)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  schedule.outsideHours === action && styles.selectedChipText,
+                ]}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.hintText}>
+          {
+            OUTSIDE_HOURS_ACTIONS.find(
+              ({ action }) => action === schedule.outsideHours
+            )?.description
+          }
+        </Text>
+      </View>
+
+      {/* Week */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Weekly Hours</Text>
+        {WEEKDAY_NAMES.map((name, index) => (
+          <TouchableOpacity
+            key={name}
+            style={[styles.dayItem, day === index && styles.selectedDayItem]}
+            onPress={() => setDay(index)}
+          >
+            <Text style={styles.dayName}>{name}</Text>
+            <Text style={styles.dayWindows}>
+              {schedule.days[index].length > 0
+                ? schedule.days[index].map(formatWindow).join(", ")
+                : "Quiet all day"}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Selected day */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>{WEEKDAY_NAMES[day]}</Text>
+        {schedule.days[day].length === 0 ? (
+          <Text style={styles.hintText}>No announcements on this day</Text>
+        ) : (
+          schedule.days[day].map((window, index) => (
+            <View
+              key={`${window.start}-${window.end}-${index}`}
+              style={styles.windowItem}
+            >
+              <Text style={styles.windowText}>{formatWindow(window)}</Text>
+              <TouchableOpacity onPress={() => handleDeleteWindow(index)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+        <View style={[styles.inputRow, styles.buttonSpacing]}>
+          <TextInput
+            style={[styles.textInput, styles.timeInput, styles.inputSpacing]}
+            value={windowStart}
+            onChangeText={setWindowStart}
+            placeholder="Start (07:00)"
+            keyboardType="numbers-and-punctuation"
+          />
+          <TextInput
+            style={[styles.textInput, styles.timeInput]}
+            value={windowEnd}
+            onChangeText={setWindowEnd}
+            placeholder="End (22:00)"
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+        <TouchableOpacity style={styles.button} onPress={handleAddWindow}>
+          <Text style={styles.buttonText}>Add Hours</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.buttonSpacing]}
+          onPress={handleCopyToAllDays}
+        >
+          <Text style={styles.buttonText}>Copy to All Days</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContainer: {
+    paddingBottom: 20,
+  },
+  card: {
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#757575",
+  },
+  statusText: {
+    marginTop: 8,
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#4CAF50",
+  },
+  quietStatusText: {
+    color: "#E53935",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E3F2FD",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    color: "#1565C0",
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  dayItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  selectedDayItem: {
+    backgroundColor: "#E3F2FD",
+  },
+  dayName: {
+    width: 100,
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  dayWindows: {
+    flex: 1,
+    fontSize: 14,
+    color: "#616161",
+  },
+  windowItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  windowText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  inputRow: {
+    flexDirection: "row",
+  },
+  timeInput: {
+    flex: 1,
+  },
+  inputSpacing: {
+    marginRight: 10,
+  },
+  button: {
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonSpacing: {
+    marginTop: 12,
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+  deleteText: {
+    color: "#E53935",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+});
+
+export default AnnouncementScheduleScreen;
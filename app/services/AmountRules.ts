@@ -0,0 +1,107 @@
+import {
+  AnnouncementLanguage,
+  AnnouncementTemplateSettings,
+  getTemplateForPayment,
+  renderTemplate,
+} from "./AnnouncementTemplates";
+import { PaymentEvent } from "./parsers";
+
+export interface AmountRules {
+  // Payments below this (VND) are saved but not announced, 0 announces all
+  minAmount: number;
+  // From this amount the high-value template and chime are used
+  highValueAmount: number | null;
+  highValueTemplates: Record<AnnouncementLanguage, string>;
+  // Chime id for high-value payments, null keeps the normal chime
+  highValueChime: string | null;
+  // From this amount the announcement is spoken twice
+  repeatAmount: number | null;
+}
+
+export const DEFAULT_AMOUNT_RULES: AmountRules = {
+  minAmount: 0,
+  highValueAmount: null,
+  highValueTemplates: {
+    vi: "Giao dịch lớn. Bạn vừa nhận được {amountWords} từ {sender}",
+    en: "Large payment. You have received {amount} VND from {sender}",
+  },
+  highValueChime: "bell",
+  repeatAmount: null,
+};
+
+export interface AmountRuleResult {
+  announce: boolean;
+  isHighValue: boolean;
+  // Number of times the announcement is spoken
+  repeat: number;
+}
+
+export const evaluateAmountRules = (
+  rules: AmountRules,
+  amount: number
+): AmountRuleResult => {
+  if (amount < rules.minAmount) {
+    return { announce: false, isHighValue: false, repeat: 0 };
+  }
+
+  return {
+    announce: true,
+    isHighValue:
+      rules.highValueAmount !== null && amount >= rules.highValueAmount,
+    repeat: rules.repeatAmount !== null && amount >= rules.repeatAmount ? 2 : 1,
+  };
+};
+
+export interface PlannedAnnouncement {
+  text: string;
+  // Chime that overrides the chime settings, if any
+  chime: string | null;
+  // Large or repeated, so it must not disappear into a queue summary
+  standalone: boolean;
+}
+
+/**
+ * What to announce for a payment once the amount rules are applied, or null
+ * when the payment is below the minimum. High-value payments use their own
+ * template instead of the wallet's.
+ */
+export const planPaymentAnnouncement = (
+  payment: PaymentEvent,
+  templates: AnnouncementTemplateSettings,
+  rules: AmountRules
+): PlannedAnnouncement | null => {
+  const { announce, isHighValue, repeat } = evaluateAmountRules(
+    rules,
+    payment.amount
+  );
+  if (!announce) return null;
+
+  const { language } = templates;
+  const template =
+    (isHighValue && rules.highValueTemplates[language]) ||
+    getTemplateForPayment(templates, payment.sourceApp);
+  const text = renderTemplate(template, payment, language);
+
+  return {
+    text: Array.from({ length: repeat }, () =>
+      text.replace(/[.!?]+$/, "")
+    ).join(". "),
+    chime: isHighValue ? rules.highValueChime : null,
+    standalone: isHighValue || repeat > 1,
+  };
+};
+
+// Error shown in settings, null when the rules make sense
+export const validateAmountRules = (rules: AmountRules): string | null => {
+  if (rules.minAmount < 0) return "The minimum can't be negative";
+  if (
+    rules.highValueAmount !== null &&
+    rules.highValueAmount <= rules.minAmount
+  ) {
+    return "The large payment amount must be above the minimum";
+  }
+  if (rules.repeatAmount !== null && rules.repeatAmount <= rules.minAmount) {
+    return "The repeat amount must be above the minimum";
+  }
+  return null;
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from "react";
+import { AmountRules, validateAmountRules } from "./AmountRules";
+import {
+  getAmountRules,
+  loadAmountRules,
+  saveAmountRules,
+  subscribeToAmountRules,
+} from "./AmountRulesStore";
+
+interface UseAmountRulesReturn {
+  rules: AmountRules;
+  // Resolves with an error message instead of saving invalid rules
+  saveRules: (rules: AmountRules) => Promise<string | null>;
+}
+
+// This hook exposes the rules deciding how payments are announced by amount
+export default function useAmountRules(): UseAmountRulesReturn {
+  const [rules, setRules] = useState<AmountRules>(getAmountRules());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAmountRules(setRules);
+    loadAmountRules()
+      .then(setRules)
+      .catch((error) => {
+        console.error("Error loading amount rules:", error);
+      });
+    return unsubscribe;
+  }, []);
+
+  const saveRules = useCallback(async (updated: AmountRules) => {
+    const error = validateAmountRules(updated);
+    if (error) return error;
+
+    await saveAmountRules(updated);
+    return null;
+  }, []);
+
+  return { rules, saveRules };
+}
@@ -0,0 +1,20 @@
+import { AmountRules, DEFAULT_AMOUNT_RULES } from "./AmountRules";
+import { createSettingStore } from "./SettingsStore";
+
+const amountRulesStore = createSettingStore<AmountRules>(
+  "amountRules",
+  DEFAULT_AMOUNT_RULES,
+  (defaults, stored) => ({
+    ...defaults,
+    ...stored,
+    highValueTemplates: {
+      ...defaults.highValueTemplates,
+      ...stored.highValueTemplates,
+    },
+  })
+);
+
+export const getAmountRules = amountRulesStore.get;
+export const loadAmountRules = amountRulesStore.load;
+export const saveAmountRules = amountRulesStore.save;
+export const subscribeToAmountRules = amountRulesStore.subscribe;
@@ -0,0 +1,93 @@
+import {
+  AnnouncementLanguage,
+  AnnouncementTemplateSettings,
+  DEFAULT_TEMPLATE_SETTINGS,
+  getTemplateForPayment,
+  renderTemplate,
+} from "./AnnouncementTemplates";
+import { PaymentEvent, TransactionCategory, formatVnd } from "./parsers";
+import {
+  amountToVietnameseWords,
+  numberToVietnameseWords,
+} from "./VietnameseNumbers";
+
+// Text spoken for a single payment, rendered from the user's template for
+// the payment's wallet and the announcement language
+export const buildPaymentAnnouncement = (
+  payment: PaymentEvent,
+  settings: AnnouncementTemplateSettings = DEFAULT_TEMPLATE_SETTINGS
+): string =>
+  renderTemplate(
+    getTemplateForPayment(settings, payment.sourceApp),
+    payment,
+    settings.language
+  );
+
+// Text spoken when the queue merges a burst of payments
+export const buildPaymentSummaryAnnouncement = (
+  count: number,
+  totalAmount: number,
+  language: AnnouncementLanguage = "vi"
+): string =>
+  language === "vi"
+    ? `Đã nhận ${numberToVietnameseWords(
+        count
+      )} giao dịch, tổng cộng ${amountToVietnameseWords(totalAmount)}`
+    : `${count} payments received, total ${formatVnd(totalAmount)} VND`;
+
+// Text of the spoken recap at closing time
+export const buildDailyRecapAnnouncement = (
+  count: number,
+  totalAmount: number,
+  language: AnnouncementLanguage = "vi"
+): string => {
+  if (language === "vi") {
+    return count === 0
+      ? "Hôm nay chưa nhận giao dịch nào"
+      : `Hôm nay nhận ${numberToVietnameseWords(
+          count
+        )} giao dịch, tổng cộng ${amountToVietnameseWords(totalAmount)}`;
+  }
+  return count === 0
+    ? "No payments received today"
+    : `Today ${count} ${
+        count === 1 ? "payment was" : "payments were"
+      } received, total ${formatVnd(totalAmount)} VND`;
+};
+
+// Text spoken on return for payments that arrived while the app was closed
+export const buildMissedPaymentsAnnouncement = (
+  count: number,
+  totalAmount: number,
+  language: AnnouncementLanguage = "vi"
+): string =>
+  language === "vi"
+    ? `Trong lúc vắng, đã nhận ${numberToVietnameseWords(
+        count
+      )} giao dịch, tổng cộng ${amountToVietnameseWords(totalAmount)}`
+    : `While you were away, ${count} ${
+        count === 1 ? "payment was" : "payments were"
+      } received, total ${formatVnd(totalAmount)} VND`;
+
+const TRANSACTION_PHRASES: Record<
+  TransactionCategory,
+  Record<AnnouncementLanguage, string>
+> = {
+  received: { vi: "Đã nhận", en: "Received" },
+  sent: { vi: "Đã chuyển đi", en: "Sent" },
+  topup: { vi: "Đã nạp", en: "Topped up" },
+  promo: { vi: "Khuyến mãi", en: "Promotion of" },
+  otp: { vi: "Mã xác thực cho", en: "Verification code for" },
+  other: { vi: "Giao dịch", en: "Transaction of" },
+};
+
+// Text spoken for a transaction that isn't a payment received, when the user
+// turned its category on
+export const buildTransactionAnnouncement = (
+  category: TransactionCategory,
+  amount: number,
+  language: AnnouncementLanguage = "vi"
+): string =>
+  language === "vi"
+    ? `${TRANSACTION_PHRASES[category].vi} ${amountToVietnameseWords(amount)}`
+    : `${TRANSACTION_PHRASES[category].en} ${formatVnd(amount)} VND`;
@@ -0,0 +1,89 @@
+import { Vibration } from "react-native";
+import {
+  AnnouncementChannel,
+  ChannelDeliverer,
+  PAYMENT_VIBRATION_PATTERN,
+} from "./AnnouncementFallback";
+import {
+  getAudioOutputStatus,
+  getCurrentAudioRoute,
+  switchOutputToDevice,
+} from "./AudioRoute";
+import { showAnnouncementNotification } from "./LocalNotifications";
+import { speakToCompletion } from "./Speech";
+import { ChimeSound } from "./Chimes";
+import { playChime } from "./ChimePlayer";
+import { BluetoothDevice } from "./bluetooth";
+
+interface DelivererOptions {
+  // The speakers that should announce, already narrowed down by routing
+  speakers: BluetoothDevice[];
+  // Whether any speaker is connected at all, used when the route is unknown
+  hasConnectedSpeakers: boolean;
+  // Simulated speakers have no audio route to switch to
+  isSimulated?: boolean;
+  // Played right before the speech on every output that announces
+  chime?: ChimeSound | null;
+}
+
+// Muted media means nobody hears the announcement, whatever the output
+const isMediaAudible = async (): Promise<boolean> => {
+  const status = await getAudioOutputStatus();
+  return !status || status.mediaVolume > 0;
+};
+
+/**
+ * How each fallback channel delivers an announcement. Used by the app and by
+ * the background task, which only differ in the speakers they know about.
+ */
+export const createChannelDeliverers = ({
+  speakers,
+  hasConnectedSpeakers,
+  isSimulated = false,
+  chime = null,
+}: DelivererOptions): Record<AnnouncementChannel, ChannelDeliverer> => {
+  const announce = async (text: string) => {
+    if (chime) await playChime(chime);
+    await speakToCompletion(text);
+  };
+
+  return {
+    // Android plays media on one A2DP speaker at a time, so the announcement
+    // is spoken on each speaker in turn
+    bluetooth: async (text) => {
+      let delivered = false;
+      for (const device of speakers) {
+        // Audio that ends up on another output is not delivered by the speaker
+        if (!isSimulated && !(await switchOutputToDevice(device))) {
+          console.log(
+            `Could not switch the output to ${device.name}, skipping`
+          );
+          continue;
+        }
+        if (!(await isMediaAudible())) continue;
+
+        await announce(text);
+        delivered = true;
+      }
+      return delivered;
+    },
+    loudspeaker: async (text) => {
+      const route = await getCurrentAudioRoute();
+      const isPhoneSpeaker = route
+        ? route.type === "speaker"
+        : !hasConnectedSpeakers;
+      if (!isPhoneSpeaker || !(await isMediaAudible())) return false;
+
+      await announce(text);
+      return true;
+    },
+    vibration: async () => {
+      const status = await getAudioOutputStatus();
+      if (status?.ringerMode === "silent") return false;
+
+      Vibration.vibrate(PAYMENT_VIBRATION_PATTERN);
+      return true;
+    },
+    notification: showAnnouncementNotification,
+  };
+};
@@ -0,0 +1,114 @@
+// Where an announcement can be delivered when the Bluetooth speaker is gone
+
+export type AnnouncementChannel =
+  "bluetooth" | "loudspeaker" | "vibration" | "notification";
+
+export interface FallbackChannelSetting {
+  channel: AnnouncementChannel;
+  enabled: boolean;
+}
+
+// Channels in the order they are tried
+export type FallbackChain = FallbackChannelSetting[];
+
+// Resolves true when the announcement was delivered, false when the channel
+// is unavailable right now (e.g. no speaker connected, volume muted)
+export type ChannelDeliverer = (text: string) => Promise<boolean>;
+
+export const ANNOUNCEMENT_CHANNELS: {
+  key: AnnouncementChannel;
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "bluetooth",
+    label: "Bluetooth speaker",
+    description: "Spoken on the connected speaker",
+  },
+  {
+    key: "loudspeaker",
+    label: "Phone loudspeaker",
+    description: "Spoken on the phone when no speaker is connected",
+  },
+  {
+    key: "vibration",
+    label: "Vibration",
+    description: "A vibration pattern, unless the phone is on silent",
+  },
+  {
+    key: "notification",
+    label: "Notification",
+    description: "A heads-up notification with the announcement text",
+  },
+];
+
+export const DEFAULT_FALLBACK_CHAIN: FallbackChain = ANNOUNCEMENT_CHANNELS.map(
+  ({ key }) => ({ channel: key, enabled: true })
+);
+
+// Three long pulses, different enough from a regular notification buzz
+export const PAYMENT_VIBRATION_PATTERN = [0, 400, 200, 400, 200, 400];
+
+export const getChannelLabel = (channel: AnnouncementChannel | null): string =>
+  ANNOUNCEMENT_CHANNELS.find(({ key }) => key === channel)?.label ??
+  "Not announced";
+
+// Drop unknown channels and append missing ones, so a chain saved by an
+// older app version still lists every channel exactly once
+export const normalizeFallbackChain = (chain: FallbackChain): FallbackChain => {
+  const known = chain.filter(
+    (setting, index) =>
+      ANNOUNCEMENT_CHANNELS.some(({ key }) => key === setting.channel) &&
+      chain.findIndex(({ channel }) => channel === setting.channel) === index
+  );
+  const missing = DEFAULT_FALLBACK_CHAIN.filter(
+    ({ channel }) => !known.some((setting) => setting.channel === channel)
+  );
+  return [...known, ...missing];
+};
+
+export const setChannelEnabled = (
+  chain: FallbackChain,
+  channel: AnnouncementChannel,
+  enabled: boolean
+): FallbackChain =>
+  chain.map((setting) =>
+    setting.channel === channel ? { ...setting, enabled } : setting
+  );
+
+// Move a channel one step earlier (-1) or later (1) in the chain
+export const moveChannel = (
+  chain: FallbackChain,
+  channel: AnnouncementChannel,
+  direction: -1 | 1
+): FallbackChain => {
+  const index = chain.findIndex((setting) => setting.channel === channel);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= chain.length) return chain;
+
+  const moved = [...chain];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+/**
+ * Tries the enabled channels in order and returns the one that delivered the
+ * announcement, or null when none could. A channel that throws counts as
+ * unavailable so the next one still gets a chance.
+ */
+export const deliverWithFallback = async (
+  text: string,
+  chain: FallbackChain,
+  deliverers: Record<AnnouncementChannel, ChannelDeliverer>
+): Promise<AnnouncementChannel | null> => {
+  for (const { channel, enabled } of chain) {
+    if (!enabled) continue;
+
+    try {
+      if (await deliverers[channel](text)) return channel;
+    } catch (error) {
+      console.error(`Announcement channel ${channel} failed:`, error);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  AnnouncementChannel,
+  DEFAULT_FALLBACK_CHAIN,
+  FallbackChain,
+  moveChannel as moveChannelInChain,
+  setChannelEnabled as setChannelEnabledInChain,
+} from "./AnnouncementFallback";
+import {
+  getFallbackChain,
+  loadFallbackChain,
+  saveFallbackChain,
+  subscribeToFallbackChain,
+  updateFallbackChain,
+} from "./AnnouncementFallbackStore";
+import { ensureNotificationPermission } from "./LocalNotifications";
+
+interface UseAnnouncementFallbackReturn {
+  chain: FallbackChain;
+  setChannelEnabled: (
+    channel: AnnouncementChannel,
+    enabled: boolean
+  ) => Promise<void>;
+  moveChannel: (
+    channel: AnnouncementChannel,
+    direction: -1 | 1
+  ) => Promise<void>;
+  resetChain: () => Promise<void>;
+}
+
+// This hook exposes the order of channels tried when announcing a payment
+export default function useAnnouncementFallback(): UseAnnouncementFallbackReturn {
+  const [chain, setChain] = useState<FallbackChain>(getFallbackChain());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToFallbackChain(setChain);
+    loadFallbackChain()
+      .then(setChain)
+      .catch((error) => {
+        console.error("Error loading the fallback chain:", error);
+      });
+    return unsubscribe;
+  }, []);
+
+  const setChannelEnabled = useCallback(
+    async (channel: AnnouncementChannel, enabled: boolean) => {
+      // Ask now rather than when a payment arrives
+      if (channel === "notification" && enabled) {
+        await ensureNotificationPermission().catch(() => false);
+      }
+      await updateFallbackChain((current) =>
+        setChannelEnabledInChain(current, channel, enabled)
+      );
+    },
+    []
+  );
+
+  const moveChannel = useCallback(
+    async (channel: AnnouncementChannel, direction: -1 | 1) => {
+      await updateFallbackChain((current) =>
+        moveChannelInChain(current, channel, direction)
+      );
+    },
+    []
+  );
+
+  const resetChain = useCallback(async () => {
+    await saveFallbackChain(DEFAULT_FALLBACK_CHAIN);
+  }, []);
+
+  return { chain, setChannelEnabled, moveChannel, resetChain };
+}
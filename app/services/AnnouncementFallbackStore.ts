@@ -0,0 +1,18 @@
+import {
+  DEFAULT_FALLBACK_CHAIN,
+  FallbackChain,
+  normalizeFallbackChain,
+} from "./AnnouncementFallback";
+import { createSettingStore } from "./SettingsStore";
+
+const fallbackStore = createSettingStore<FallbackChain>(
+  "announcementFallback",
+  DEFAULT_FALLBACK_CHAIN,
+  (_defaults, stored) => normalizeFallbackChain(stored)
+);
+
+export const getFallbackChain = fallbackStore.get;
+export const loadFallbackChain = fallbackStore.load;
+export const saveFallbackChain = fallbackStore.save;
+export const updateFallbackChain = fallbackStore.update;
+export const subscribeToFallbackChain = fallbackStore.subscribe;
@@ -0,0 +1,328 @@
+import { AnnouncementChannel } from "./AnnouncementFallback";
+import { formatVnd } from "./parsers";
+
+export interface AnnouncementOptions {
+  // Urgent announcements interrupt the current one and jump the queue
+  priority?: boolean;
+  // Set for payment announcements so bursts can be coalesced and get a chime
+  payment?: AnnouncedPayment;
+  // Addresses of the speakers to announce on, every speaker when omitted
+  speakers?: string[];
+  // Called once it is finished with the channel that delivered it, or null
+  // when it failed, was dropped or cleared. Payments merged into a summary
+  // get the summary's channel.
+  onDelivered?: (channel: AnnouncementChannel | null) => void;
+}
+
+export interface AnnouncedPayment {
+  amount: number;
+  sourceApp?: string;
+  // Chime chosen by an amount rule, played even when chimes are off
+  chime?: string;
+  // Flagged by an amount rule, so always announced on its own
+  standalone?: boolean;
+}
+
+export type AnnouncementStatus =
+  "played" | "failed" | "coalesced" | "dropped" | "cleared";
+
+export interface Announcement {
+  id: number;
+  text: string;
+  priority: boolean;
+  payment?: AnnouncedPayment;
+  speakers?: string[];
+  enqueuedAt: number;
+}
+
+export interface AnnouncementDelivery {
+  text: string;
+  channel: AnnouncementChannel | null;
+  deliveredAt: number;
+}
+
+export interface AnnouncementQueueConfig {
+  // Pending announcements kept before the oldest ones are dropped
+  maxLength: number;
+  // Merge pending payment announcements into one summary
+  coalesce: boolean;
+  // Minimum number of pending payments before they are merged
+  coalesceThreshold: number;
+}
+
+export interface AnnouncementQueueState {
+  current: Announcement | null;
+  pending: Announcement[];
+  droppedCount: number;
+  config: AnnouncementQueueConfig;
+  lastDelivery: AnnouncementDelivery | null;
+}
+
+export interface AnnouncementQueue {
+  // Resolves once the announcement was played, merged, dropped or cleared
+  enqueue: (
+    text: string,
+    options?: AnnouncementOptions
+  ) => Promise<AnnouncementStatus>;
+  clear: () => void;
+  configure: (config: Partial<AnnouncementQueueConfig>) => void;
+  getState: () => AnnouncementQueueState;
+  subscribe: (listener: (state: AnnouncementQueueState) => void) => () => void;
+}
+
+interface AnnouncementQueueDependencies {
+  // Speaks the text and resolves when playback has finished, with the
+  // channel that delivered it or null when nothing could
+  play: (
+    text: string,
+    announcement: Announcement
+  ) => Promise<AnnouncementChannel | null | void>;
+  // Stops the current playback, used when a priority announcement interrupts
+  stop: () => Promise<void>;
+  // Text for a merged burst of payments
+  formatSummary?: (count: number, totalAmount: number) => string;
+}
+
+export const DEFAULT_QUEUE_CONFIG: AnnouncementQueueConfig = {
+  maxLength: 10,
+  coalesce: false,
+  coalesceThreshold: 2,
+};
+
+const defaultSummary = (count: number, totalAmount: number) =>
+  `${count} payments received, total ${formatVnd(totalAmount)} đồng`;
+
+/**
+ * Plays announcements one at a time in FIFO order. Priority announcements
+ * interrupt whatever is playing; the interrupted announcement is played again
+ * afterwards so no payment is lost.
+ */
+export const createAnnouncementQueue = (
+  { play, stop, formatSummary = defaultSummary }: AnnouncementQueueDependencies,
+  initialConfig: Partial<AnnouncementQueueConfig> = {}
+): AnnouncementQueue => {
+  let config: AnnouncementQueueConfig = {
+    ...DEFAULT_QUEUE_CONFIG,
+    ...initialConfig,
+  };
+  let current: Announcement | null = null;
+  let pending: Announcement[] = [];
+  let droppedCount = 0;
+  let nextId = 1;
+  let isDraining = false;
+  let interrupted = false;
+  let lastDelivery: AnnouncementDelivery | null = null;
+
+  const resolvers = new Map<number, (status: AnnouncementStatus) => void>();
+  const deliveryCallbacks = new Map<
+    number,
+    (channel: AnnouncementChannel | null) => void
+  >();
+  const listeners = new Set<(state: AnnouncementQueueState) => void>();
+
+  const getState = (): AnnouncementQueueState => ({
+    current,
+    pending: [...pending],
+    droppedCount,
+    config,
+    lastDelivery,
+  });
+
+  const notify = () => {
+    const state = getState();
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const settle = (
+    announcement: Announcement,
+    status: AnnouncementStatus,
+    channel: AnnouncementChannel | null = null
+  ) => {
+    // Coalesced callbacks were handed over to the summary
+    if (status !== "coalesced") {
+      deliveryCallbacks.get(announcement.id)?.(channel);
+      deliveryCallbacks.delete(announcement.id);
+    }
+    resolvers.get(announcement.id)?.(status);
+    resolvers.delete(announcement.id);
+  };
+
+  // Keep the queue within maxLength by dropping the oldest normal announcements
+  const enforceMaxLength = () => {
+    while (pending.length > config.maxLength) {
+      const dropIndex = pending.findIndex((item) => !item.priority);
+      if (dropIndex === -1) break;
+
+      const [dropped] = pending.splice(dropIndex, 1);
+      droppedCount++;
+      console.log(`Announcement queue full, dropped: "${dropped.text}"`);
+      settle(dropped, "dropped");
+    }
+  };
+
+  // Only plain payments are merged, a large or repeated one keeps its own
+  // text and chime
+  const canCoalesce = (item: Announcement): boolean =>
+    !item.priority && !!item.payment && !item.payment.standalone;
+
+  // Take the next announcement, merging pending payments when enabled
+  const takeNext = (): Announcement | undefined => {
+    const next = pending[0];
+    if (!next || !canCoalesce(next) || !config.coalesce) {
+      return pending.shift();
+    }
+
+    // A summary only goes where each of its payments would have gone
+    const speakerKey = (item: Announcement) =>
+      item.speakers ? [...item.speakers].sort().join("\n") : null;
+    const payments = pending.filter(
+      (item) => canCoalesce(item) && speakerKey(item) === speakerKey(next)
+    );
+    if (payments.length < Math.max(2, config.coalesceThreshold)) {
+      return pending.shift();
+    }
+
+    pending = pending.filter((item) => !payments.includes(item));
+    const totalAmount = payments.reduce(
+      (sum, item) => sum + (item.payment?.amount ?? 0),
+      0
+    );
+    // The wallet is kept when every payment came from the same one
+    const sourceApps = new Set(payments.map((item) => item.payment?.sourceApp));
+    const summary: Announcement = {
+      id: nextId++,
+      text: formatSummary(payments.length, totalAmount),
+      priority: false,
+      payment: {
+        amount: totalAmount,
+        sourceApp: sourceApps.size === 1 ? [...sourceApps][0] : undefined,
+      },
+      speakers: next.speakers,
+      enqueuedAt: payments[0].enqueuedAt,
+    };
+
+    // Whatever delivers the summary delivered each merged payment
+    const callbacks = payments.flatMap((item) => {
+      const callback = deliveryCallbacks.get(item.id);
+      deliveryCallbacks.delete(item.id);
+      return callback ? [callback] : [];
+    });
+    if (callbacks.length > 0) {
+      deliveryCallbacks.set(summary.id, (channel) =>
+        callbacks.forEach((callback) => callback(channel))
+      );
+    }
+
+    payments.forEach((item) => settle(item, "coalesced"));
+    return summary;
+  };
+
+  const drain = async () => {
+    if (isDraining) return;
+    isDraining = true;
+
+    try {
+      let announcement = takeNext();
+      while (announcement) {
+        current = announcement;
+        interrupted = false;
+        notify();
+
+        let status: AnnouncementStatus = "played";
+        let channel: AnnouncementChannel | null = null;
+        try {
+          const delivered = await play(announcement.text, announcement);
+          if (delivered === null) {
+            status = "failed";
+          } else {
+            channel = delivered ?? null;
+          }
+        } catch (error) {
+          console.error("Error playing announcement:", error);
+          status = "failed";
+        }
+
+        if (interrupted) {
+          // Replay the interrupted announcement after the priority ones
+          const insertAt = pending.filter((item) => item.priority).length;
+          pending.splice(insertAt, 0, announcement);
+        } else {
+          lastDelivery = {
+            text: announcement.text,
+            channel,
+            deliveredAt: Date.now(),
+          };
+          settle(announcement, status, channel);
+        }
+
+        current = null;
+        notify();
+        announcement = takeNext();
+      }
+    } finally {
+      isDraining = false;
+    }
+  };
+
+  const enqueue = (
+    text: string,
+    options: AnnouncementOptions = {}
+  ): Promise<AnnouncementStatus> => {
+    const announcement: Announcement = {
+      id: nextId++,
+      text,
+      priority: Boolean(options.priority),
+      payment: options.payment,
+      speakers: options.speakers,
+      enqueuedAt: Date.now(),
+    };
+
+    const result = new Promise<AnnouncementStatus>((resolve) => {
+      resolvers.set(announcement.id, resolve);
+    });
+    if (options.onDelivered) {
+      deliveryCallbacks.set(announcement.id, options.onDelivered);
+    }
+
+    if (announcement.priority) {
+      // Behind other priority announcements, ahead of everything else
+      const insertAt = pending.filter((item) => item.priority).length;
+      pending.splice(insertAt, 0, announcement);
+
+      if (current && !current.priority) {
+        interrupted = true;
+        stop().catch((error) => {
+          console.log("Failed to interrupt current announcement:", error);
+        });
+      }
+    } else {
+      pending.push(announcement);
+    }
+
+    enforceMaxLength();
+    notify();
+    drain();
+    return result;
+  };
+
+  const clear = () => {
+    pending.forEach((item) => settle(item, "cleared"));
+    pending = [];
+    notify();
+  };
+
+  const configure = (changes: Partial<AnnouncementQueueConfig>) => {
+    config = { ...config, ...changes };
+    enforceMaxLength();
+    notify();
+  };
+
+  const subscribe = (listener: (state: AnnouncementQueueState) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { enqueue, clear, configure, getState, subscribe };
+};
@@ -0,0 +1,96 @@
+export interface ScheduleWindow {
+  // Minutes after midnight; a window ending before it starts runs overnight
+  start: number;
+  end: number;
+}
+
+// What happens to payments that arrive outside the schedule
+export type OutsideHoursAction = "log" | "notify";
+
+export interface AnnouncementSchedule {
+  enabled: boolean;
+  // Windows per weekday, indexed like Date.getDay() (0 is Sunday)
+  days: ScheduleWindow[][];
+  outsideHours: OutsideHoursAction;
+}
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const DEFAULT_ANNOUNCEMENT_SCHEDULE: AnnouncementSchedule = {
+  enabled: false,
+  days: WEEKDAY_NAMES.map(() => [{ start: 7 * 60, end: 22 * 60 }]),
+  outsideHours: "notify",
+};
+
+const getMinutesOfDay = (date: Date): number =>
+  date.getHours() * 60 + date.getMinutes();
+
+/**
+ * Whether payments are announced at `timestamp` (local time). Always true
+ * when the schedule is off. An overnight window belongs to the day it
+ * starts, and a window starting and ending at the same time lasts 24 hours.
+ */
+export const isWithinSchedule = (
+  schedule: AnnouncementSchedule,
+  timestamp: number
+): boolean => {
+  if (!schedule.enabled) return true;
+
+  const date = new Date(timestamp);
+  const minutes = getMinutesOfDay(date);
+  const today = schedule.days[date.getDay()] ?? [];
+  const yesterday = schedule.days[(date.getDay() + 6) % 7] ?? [];
+
+  return (
+    today.some((window) =>
+      window.end > window.start
+        ? minutes >= window.start && minutes < window.end
+        : minutes >= window.start
+    ) ||
+    yesterday.some(
+      (window) => window.end <= window.start && minutes < window.end
+    )
+  );
+};
+
+// Adds a window to a weekday, keeping them ordered by start time
+export const addScheduleWindow = (
+  schedule: AnnouncementSchedule,
+  day: number,
+  window: ScheduleWindow
+): AnnouncementSchedule => ({
+  ...schedule,
+  days: schedule.days.map((windows, index) =>
+    index === day
+      ? [...windows, window].sort((a, b) => a.start - b.start)
+      : windows
+  ),
+});
+
+export const removeScheduleWindow = (
+  schedule: AnnouncementSchedule,
+  day: number,
+  windowIndex: number
+): AnnouncementSchedule => ({
+  ...schedule,
+  days: schedule.days.map((windows, index) =>
+    index === day ? windows.filter((_window, i) => i !== windowIndex) : windows
+  ),
+});
+
+// Gives every weekday the windows of `day`
+export const copyScheduleDay = (
+  schedule: AnnouncementSchedule,
+  day: number
+): AnnouncementSchedule => ({
+  ...schedule,
+  days: schedule.days.map(() => [...schedule.days[day]]),
+});
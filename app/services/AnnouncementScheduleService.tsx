@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  AnnouncementSchedule,
+  OutsideHoursAction,
+  ScheduleWindow,
+  addScheduleWindow,
+  copyScheduleDay,
+  removeScheduleWindow,
+} from "./AnnouncementSchedule";
+import {
+  getAnnouncementSchedule,
+  loadAnnouncementSchedule,
+  subscribeToAnnouncementSchedule,
+  updateAnnouncementSchedule,
+} from "./AnnouncementScheduleStore";
+import { ensureNotificationPermission } from "./LocalNotifications";
+
+interface UseAnnouncementScheduleReturn {
+  schedule: AnnouncementSchedule;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setOutsideHours: (action: OutsideHoursAction) => Promise<void>;
+  addWindow: (day: number, window: ScheduleWindow) => Promise<void>;
+  deleteWindow: (day: number, windowIndex: number) => Promise<void>;
+  copyDayToAllDays: (day: number) => Promise<void>;
+}
+
+// This hook exposes the weekly hours during which payments are announced
+export default function useAnnouncementSchedule(): UseAnnouncementScheduleReturn {
+  const [schedule, setSchedule] = useState<AnnouncementSchedule>(
+    getAnnouncementSchedule()
+  );
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAnnouncementSchedule(setSchedule);
+    loadAnnouncementSchedule()
+      .then(setSchedule)
+      .catch((error) => {
+        console.error("Error loading announcement schedule:", error);
+      });
+    return unsubscribe;
+  }, []);
+
+  // Quiet payments are posted as notifications, possibly by the background
+  // task, which can't ask for permission. Ask now instead.
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    if (enabled && getAnnouncementSchedule().outsideHours === "notify") {
+      await ensureNotificationPermission().catch(() => false);
+    }
+    await updateAnnouncementSchedule((current) => ({ ...current, enabled }));
+  }, []);
+
+  const setOutsideHours = useCallback(async (action: OutsideHoursAction) => {
+    if (action === "notify" && getAnnouncementSchedule().enabled) {
+      await ensureNotificationPermission().catch(() => false);
+    }
+    await updateAnnouncementSchedule((current) => ({
+      ...current,
+      outsideHours: action,
+    }));
+  }, []);
+
+  const addWindow = useCallback(async (day: number, window: ScheduleWindow) => {
+    await updateAnnouncementSchedule((current) =>
+      addScheduleWindow(current, day, window)
+    );
+  }, []);
+
+  const deleteWindow = useCallback(async (day: number, windowIndex: number) => {
+    await updateAnnouncementSchedule((current) =>
+      removeScheduleWindow(current, day, windowIndex)
+    );
+  }, []);
+
+  const copyDayToAllDays = useCallback(async (day: number) => {
+    await updateAnnouncementSchedule((current) =>
+      copyScheduleDay(current, day)
+    );
+  }, []);
+
+  return {
+    schedule,
+    setEnabled,
+    setOutsideHours,
+    addWindow,
+    deleteWindow,
+    copyDayToAllDays,
+  };
+}
@@ -0,0 +1,23 @@
+import {
+  AnnouncementSchedule,
+  DEFAULT_ANNOUNCEMENT_SCHEDULE,
+} from "./AnnouncementSchedule";
+import { createSettingStore } from "./SettingsStore";
+
+const announcementScheduleStore = createSettingStore<AnnouncementSchedule>(
+  "announcementSchedule",
+  DEFAULT_ANNOUNCEMENT_SCHEDULE,
+  (defaults, stored) => ({
+    ...defaults,
+    ...stored,
+    // One entry per weekday, even if the stored value is incomplete
+    days: defaults.days.map((windows, day) => stored.days?.[day] ?? windows),
+  })
+);
+
+export const getAnnouncementSchedule = announcementScheduleStore.get;
+export const loadAnnouncementSchedule = announcementScheduleStore.load;
+export const saveAnnouncementSchedule = announcementScheduleStore.save;
+export const updateAnnouncementSchedule = announcementScheduleStore.update;
+export const subscribeToAnnouncementSchedule =
+  announcementScheduleStore.subscribe;
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  AnnouncementLanguage,
+  AnnouncementTemplateSettings,
+  DEFAULT_TEMPLATE_SETTINGS,
+  getTemplateForPayment,
+  renderTemplate,
+} from "./AnnouncementTemplates";
+import {
+  getTemplateSettings,
+  loadTemplateSettings,
+  subscribeToTemplateSettings,
+  updateTemplateSettings,
+} from "./AnnouncementTemplateStore";
+import { PaymentEvent } from "./parsers";
+
+interface UseAnnouncementTemplatesReturn {
+  settings: AnnouncementTemplateSettings;
+  isLoaded: boolean;
+  setLanguage: (language: AnnouncementLanguage) => Promise<void>;
+  // sourceApp null edits the language default, otherwise a wallet override
+  getTemplate: (
+    language: AnnouncementLanguage,
+    sourceApp: string | null
+  ) => string;
+  setTemplate: (
+    language: AnnouncementLanguage,
+    sourceApp: string | null,
+    template: string
+  ) => Promise<void>;
+  resetTemplate: (
+    language: AnnouncementLanguage,
+    sourceApp: string | null
+  ) => Promise<void>;
+  renderPreview: (
+    template: string,
+    payment: PaymentEvent,
+    language: AnnouncementLanguage
+  ) => string;
+}
+
+// This hook exposes the user-editable announcement templates
+export default function useAnnouncementTemplates(): UseAnnouncementTemplatesReturn {
+  const [settings, setSettings] = useState<AnnouncementTemplateSettings>(
+    getTemplateSettings()
+  );
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToTemplateSettings(setSettings);
+    loadTemplateSettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error("Error loading announcement templates:", error);
+      })
+      .finally(() => setIsLoaded(true));
+    return unsubscribe;
+  }, []);
+
+  const setLanguage = useCallback(async (language: AnnouncementLanguage) => {
+    await updateTemplateSettings((current) => ({ ...current, language }));
+  }, []);
+
+  const getTemplate = useCallback(
+    (language: AnnouncementLanguage, sourceApp: string | null) =>
+      sourceApp
+        ? getTemplateForPayment(settings, sourceApp, language)
+        : settings.templates[language],
+    [settings]
+  );
+
+  const setTemplate = useCallback(
+    async (
+      language: AnnouncementLanguage,
+      sourceApp: string | null,
+      template: string
+    ) => {
+      await updateTemplateSettings((current) =>
+        sourceApp
+          ? {
+              ...current,
+              appTemplates: {
+                ...current.appTemplates,
+                [language]: {
+                  ...current.appTemplates[language],
+                  [sourceApp]: template,
+                },
+              },
+            }
+          : {
+              ...current,
+              templates: { ...current.templates, [language]: template },
+            }
+      );
+    },
+    []
+  );
+
+  // Restores the default template, or removes the wallet override
+  const resetTemplate = useCallback(
+    async (language: AnnouncementLanguage, sourceApp: string | null) => {
+      await updateTemplateSettings((current) => {
+        if (!sourceApp) {
+          return {
+            ...current,
+            templates: {
+              ...current.templates,
+              [language]: DEFAULT_TEMPLATE_SETTINGS.templates[language],
+            },
+          };
+        }
+
+        const { [sourceApp]: _removed, ...appTemplates } =
+          current.appTemplates[language];
+        return {
+          ...current,
+          appTemplates: { ...current.appTemplates, [language]: appTemplates },
+        };
+      });
+    },
+    []
+  );
+
+  return {
+    settings,
+    isLoaded,
+    setLanguage,
+    getTemplate,
+    setTemplate,
+    resetTemplate,
+    renderPreview: renderTemplate,
+  };
+}
@@ -0,0 +1,22 @@
+import {
+  AnnouncementTemplateSettings,
+  DEFAULT_TEMPLATE_SETTINGS,
+} from "./AnnouncementTemplates";
+import { createSettingStore } from "./SettingsStore";
+
+const templateStore = createSettingStore<AnnouncementTemplateSettings>(
+  "announcementTemplates",
+  DEFAULT_TEMPLATE_SETTINGS,
+  (defaults, stored) => ({
+    ...defaults,
+    ...stored,
+    templates: { ...defaults.templates, ...stored.templates },
+    appTemplates: { ...defaults.appTemplates, ...stored.appTemplates },
+  })
+);
+
+export const getTemplateSettings = templateStore.get;
+export const loadTemplateSettings = templateStore.load;
+export const saveTemplateSettings = templateStore.save;
+export const updateTemplateSettings = templateStore.update;
+export const subscribeToTemplateSettings = templateStore.subscribe;
@@ -0,0 +1,99 @@
+import { PaymentEvent, formatVnd, getSourceAppName } from "./parsers";
+import { amountToVietnameseWords } from "./VietnameseNumbers";
+
+export type AnnouncementLanguage = "vi" | "en";
+
+export const ANNOUNCEMENT_LANGUAGES: {
+  key: AnnouncementLanguage;
+  label: string;
+  // Language the TTS engine is switched to
+  ttsLanguage: string;
+}[] = [
+  { key: "vi", label: "Tiếng Việt", ttsLanguage: "vi-VN" },
+  { key: "en", label: "English", ttsLanguage: "en-US" },
+];
+
+export const getTtsLanguage = (language: AnnouncementLanguage): string =>
+  ANNOUNCEMENT_LANGUAGES.find((item) => item.key === language)?.ttsLanguage ??
+  "vi-VN";
+
+// Placeholders that can be used inside a template, e.g. "{amountWords}"
+export const TEMPLATE_PLACEHOLDERS = [
+  "amount",
+  "amountWords",
+  "sender",
+  "app",
+  "memo",
+  "time",
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+export interface AnnouncementTemplateSettings {
+  // Language used for announcements
+  language: AnnouncementLanguage;
+  // Default template per language
+  templates: Record<AnnouncementLanguage, string>;
+  // Optional per-wallet overrides, keyed by PaymentEvent.sourceApp
+  appTemplates: Record<AnnouncementLanguage, Record<string, string>>;
+}
+
+export const DEFAULT_TEMPLATE_SETTINGS: AnnouncementTemplateSettings = {
+  language: "vi",
+  templates: {
+    vi: "Bạn vừa nhận được {amountWords} từ {sender}",
+    en: "You have received {amount} VND from {sender}",
+  },
+  appTemplates: { vi: {}, en: {} },
+};
+
+const UNKNOWN_SENDER: Record<AnnouncementLanguage, string> = {
+  vi: "người gửi không xác định",
+  en: "unknown sender",
+};
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const getTemplateValues = (
+  payment: PaymentEvent,
+  language: AnnouncementLanguage
+): Record<TemplatePlaceholder, string> => ({
+  amount: formatVnd(payment.amount),
+  amountWords:
+    language === "vi"
+      ? amountToVietnameseWords(payment.amount)
+      : `${formatVnd(payment.amount)} dong`,
+  sender: payment.sender || UNKNOWN_SENDER[language],
+  app: getSourceAppName(payment.sourceApp),
+  memo: payment.reference || "",
+  time: formatTime(payment.receivedAt),
+});
+
+// Replace every known {placeholder}; unknown ones are left untouched
+export const renderTemplate = (
+  template: string,
+  payment: PaymentEvent,
+  language: AnnouncementLanguage
+): string => {
+  const values = getTemplateValues(payment, language);
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in values ? values[name as TemplatePlaceholder] : match
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+// The wallet-specific template if there is one, otherwise the language default
+export const getTemplateForPayment = (
+  settings: AnnouncementTemplateSettings,
+  sourceApp: string,
+  language: AnnouncementLanguage = settings.language
+): string =>
+  settings.appTemplates[language]?.[sourceApp] ||
+  settings.templates[language] ||
+  DEFAULT_TEMPLATE_SETTINGS.templates[language];
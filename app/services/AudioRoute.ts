@@ -0,0 +1,159 @@
+import {
+  EmitterSubscription,
+  NativeEventEmitter,
+  NativeModules,
+  Platform,
+} from "react-native";
+import { BluetoothDevice, getDeviceAddress } from "./bluetooth";
+
+export type AudioRouteType =
+  "a2dp" | "sco" | "speaker" | "earpiece" | "wired" | "usb" | "unknown";
+
+// Where media audio (and therefore TTS) is currently played
+export interface AudioRoute {
+  type: AudioRouteType;
+  // Product name reported by Android, e.g. "WYS-2301BT"
+  name: string | null;
+  // Bluetooth address for A2DP/SCO routes (Android 9+)
+  address: string | null;
+}
+
+// Volume and ringer mode, used to tell whether an announcement can be heard
+export interface AudioOutputStatus {
+  mediaVolume: number;
+  maxMediaVolume: number;
+  ringerMode: "normal" | "vibrate" | "silent";
+}
+
+const AUDIO_ROUTE_CHANGED_EVENT = "audioRouteChanged";
+
+const { AudioRoute: AudioRouteModule } = NativeModules;
+
+// The native module only exists in Android builds that include our package
+export const isAudioRouteAvailable =
+  Platform.OS === "android" && Boolean(AudioRouteModule);
+
+const emitter = isAudioRouteAvailable
+  ? new NativeEventEmitter(AudioRouteModule)
+  : null;
+
+const ROUTE_LABELS: Record<AudioRouteType, string> = {
+  a2dp: "Bluetooth speaker",
+  sco: "Bluetooth headset (call audio)",
+  speaker: "Phone speaker",
+  earpiece: "Phone earpiece",
+  wired: "Wired headphones",
+  usb: "USB audio",
+  unknown: "Unknown output",
+};
+
+// "Bluetooth speaker (WYS-2301BT)"
+export const describeAudioRoute = (route: AudioRoute): string =>
+  route.name && route.type !== "speaker" && route.type !== "earpiece"
+    ? `${ROUTE_LABELS[route.type]} (${route.name})`
+    : ROUTE_LABELS[route.type];
+
+/**
+ * Whether announcements actually reach the selected speaker: the route must
+ * be A2DP and belong to that device. Older Android versions don't report the
+ * address, so the product name is compared instead.
+ */
+export const isRouteForDevice = (
+  route: AudioRoute,
+  device: BluetoothDevice
+): boolean => {
+  if (route.type !== "a2dp") return false;
+
+  if (route.address) {
+    return (
+      route.address.toUpperCase() === getDeviceAddress(device).toUpperCase()
+    );
+  }
+  return Boolean(
+    route.name &&
+    device.name &&
+    route.name.trim().toLowerCase() === device.name.trim().toLowerCase()
+  );
+};
+
+export const getCurrentAudioRoute = async (): Promise<AudioRoute | null> => {
+  if (!isAudioRouteAvailable) return null;
+
+  try {
+    return await AudioRouteModule.getCurrentRoute();
+  } catch (error) {
+    console.error("Error reading the audio route:", error);
+    return null;
+  }
+};
+
+// Null when the status can't be read, callers should assume audio is audible
+export const getAudioOutputStatus =
+  async (): Promise<AudioOutputStatus | null> => {
+    if (!isAudioRouteAvailable) return null;
+
+    try {
+      return await AudioRouteModule.getOutputStatus();
+    } catch (error) {
+      console.error("Error reading the output status:", error);
+      return null;
+    }
+  };
+
+// Ask Android to play media on this A2DP speaker. Resolves false when the
+// device doesn't allow apps to choose the output.
+export const preferBluetoothOutput = async (
+  address: string
+): Promise<boolean> => {
+  if (!isAudioRouteAvailable) return false;
+
+  try {
+    return Boolean(await AudioRouteModule.preferBluetoothDevice(address));
+  } catch (error) {
+    console.error("Error selecting the audio output:", error);
+    return false;
+  }
+};
+
+const ROUTE_POLL_INTERVAL_MS = 250;
+
+/**
+ * Make the speaker the active output before speaking on it. Android plays
+ * media on one A2DP speaker at a time, so announcing on several speakers
+ * means switching between them. Resolves false when the output didn't move
+ * to this speaker in time; true when the route can't be read at all.
+ */
+export const switchOutputToDevice = async (
+  device: BluetoothDevice,
+  timeoutMs = 2000
+): Promise<boolean> => {
+  let route = await getCurrentAudioRoute();
+  if (!route || isRouteForDevice(route, device)) return true;
+
+  await preferBluetoothOutput(getDeviceAddress(device));
+  for (let waited = 0; waited < timeoutMs; waited += ROUTE_POLL_INTERVAL_MS) {
+    await new Promise((resolve) => setTimeout(resolve, ROUTE_POLL_INTERVAL_MS));
+    route = await getCurrentAudioRoute();
+    if (route && isRouteForDevice(route, device)) return true;
+  }
+  return false;
+};
+
+// Open the system output switcher (volume panel on Android 10+)
+export const openOutputSwitcher = async (): Promise<void> => {
+  if (!isAudioRouteAvailable) return;
+
+  try {
+    await AudioRouteModule.openOutputSwitcher();
+  } catch (error) {
+    console.error("Failed to open the output switcher:", error);
+  }
+};
+
+// Subscribe to output changes (speaker connected, headset plugged in, call audio)
+export const addAudioRouteListener = (
+  handler: (route: AudioRoute) => void
+): EmitterSubscription | null => {
+  if (!emitter) return null;
+  return emitter.addListener(AUDIO_ROUTE_CHANGED_EVENT, handler);
+};
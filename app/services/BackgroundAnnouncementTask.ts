@@ -0,0 +1,265 @@
+import { PostedNotification } from "./NotificationListener";
+import {
+  PaymentEvent,
+  TransactionCategory,
+  formatVnd,
+  parseTransactionNotification,
+} from "./parsers";
+import {
+  listPayments,
+  savePayment,
+  setPaymentAnnouncedVia,
+} from "./PaymentHistoryStore";
+import { createPaymentDeduplicator } from "./PaymentDeduplicator";
+import {
+  buildPaymentSummaryAnnouncement,
+  buildTransactionAnnouncement,
+} from "./AnnouncementBuilder";
+import { planPaymentAnnouncement } from "./AmountRules";
+import { getAmountRules, loadAmountRules } from "./AmountRulesStore";
+import { isWithinSchedule } from "./AnnouncementSchedule";
+import {
+  getAnnouncementSchedule,
+  loadAnnouncementSchedule,
+} from "./AnnouncementScheduleStore";
+import { showQuietPaymentNotification } from "./LocalNotifications";
+import { isCategoryAnnounced } from "./TransactionCategories";
+import {
+  getAnnouncedCategories,
+  loadAnnouncedCategories,
+} from "./TransactionCategoryStore";
+import {
+  getTemplateSettings,
+  loadTemplateSettings,
+} from "./AnnouncementTemplateStore";
+import {
+  AnnouncementQueue,
+  createAnnouncementQueue,
+} from "./AnnouncementQueue";
+import {
+  AnnouncementChannel,
+  deliverWithFallback,
+} from "./AnnouncementFallback";
+import {
+  getFallbackChain,
+  loadFallbackChain,
+} from "./AnnouncementFallbackStore";
+import { createChannelDeliverers } from "./AnnouncementDeliverers";
+import { selectChime } from "./Chimes";
+import { getChimeSettings, loadChimeSettings } from "./ChimeStore";
+import { stopChime } from "./ChimePlayer";
+import { getSpeakersForPayment } from "./SpeakerRouting";
+import { getRoutingRules, loadRoutingRules } from "./SpeakerRoutingStore";
+import { getDeviceAddress } from "./bluetooth";
+import {
+  getTargetSpeakers,
+  loadTargetSpeakers,
+} from "./bluetooth/targetSpeakers";
+import { getTtsSettings, loadTtsSettings } from "./TtsSettingsStore";
+import { ActiveTts, prepareTts } from "./Speech";
+import { updateBackgroundStatus } from "./BackgroundMode";
+
+// Must match PaymentHeadlessTaskService.TASK_NAME on the native side
+export const BACKGROUND_ANNOUNCEMENT_TASK = "PaymentAnnouncementTask";
+
+// Module state lives as long as the JS runtime, which Android keeps alive
+// between tasks while the foreground service runs
+const deduplicator = createPaymentDeduplicator();
+// Sent money, top-ups etc. are kept apart so they never hide a payment
+const transactionDeduplicator = createPaymentDeduplicator();
+let setupPromise: Promise<void> | null = null;
+let queue: AnnouncementQueue | null = null;
+
+// Settings, speakers and recent payments are loaded once per JS runtime
+const setUp = (): Promise<void> => {
+  if (!setupPromise) {
+    const logError = (what: string) => (error: unknown) => {
+      console.error(`[Background] Error loading ${what}:`, error);
+    };
+
+    setupPromise = Promise.all([
+      loadTemplateSettings().catch(logError("announcement templates")),
+      loadRoutingRules().catch(logError("speaker routing")),
+      loadFallbackChain().catch(logError("the fallback chain")),
+      loadTargetSpeakers().catch(logError("target speakers")),
+      loadTtsSettings().catch(logError("voice settings")),
+      loadChimeSettings().catch(logError("chime settings")),
+      loadAmountRules().catch(logError("amount rules")),
+      loadAnnouncementSchedule().catch(logError("the announcement schedule")),
+      loadAnnouncedCategories().catch(logError("announced categories")),
+      listPayments({ from: Date.now() - 24 * 60 * 60 * 1000 })
+        .then(deduplicator.seed)
+        .catch(logError("recent payments for dedup")),
+    ]).then(() => prepareTts(getTtsSettings(), getTemplateSettings().language));
+  }
+  return setupPromise;
+};
+
+// Without the app there is no Bluetooth connection to track, so the saved
+// speakers are used and the audio route tells which one is reachable
+const getQueue = (): AnnouncementQueue => {
+  if (!queue) {
+    queue = createAnnouncementQueue({
+      play: async (text, announcement) => {
+        const speakers = getTargetSpeakers();
+        const channel = await deliverWithFallback(
+          text,
+          getFallbackChain(),
+          createChannelDeliverers({
+            speakers: speakers.filter(
+              (device) =>
+                !announcement.speakers ||
+                announcement.speakers.includes(getDeviceAddress(device))
+            ),
+            hasConnectedSpeakers: speakers.length > 0,
+            chime: selectChime(getChimeSettings(), announcement.payment),
+          })
+        );
+        console.log(
+          `[Background] Announcement delivered via ${channel ?? "no channel"}`
+        );
+        return channel;
+      },
+      stop: async () => {
+        stopChime();
+        await ActiveTts.stop();
+      },
+      formatSummary: (count, totalAmount) =>
+        buildPaymentSummaryAnnouncement(
+          count,
+          totalAmount,
+          getTemplateSettings().language
+        ),
+    });
+  }
+  return queue;
+};
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Transactions other than payments received are logged, never saved, and
+// only spoken when the user turned their category on
+const handleOtherTransaction = async (
+  category: TransactionCategory,
+  payment: PaymentEvent
+): Promise<void> => {
+  if (
+    !isCategoryAnnounced(getAnnouncedCategories(), category) ||
+    !isWithinSchedule(getAnnouncementSchedule(), payment.receivedAt)
+  ) {
+    console.log(
+      `[Background] Not announcing ${category} notification from ${payment.sourceApp}: ${payment.amount} VND`
+    );
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    getQueue().enqueue(
+      buildTransactionAnnouncement(
+        category,
+        payment.amount,
+        getTemplateSettings().language
+      ),
+      {
+        speakers: getSpeakersForPayment(getRoutingRules(), payment),
+        onDelivered: () => resolve(),
+      }
+    );
+  });
+};
+
+/**
+ * Headless JS task run by PaymentHeadlessTaskService for notifications that
+ * arrive while the app UI is closed: parses, deduplicates, saves and
+ * announces the payment, then updates the status notification.
+ */
+export const backgroundAnnouncementTask = async (
+  notification: PostedNotification
+): Promise<void> => {
+  await setUp();
+
+  const transaction = parseTransactionNotification(notification);
+  if (!transaction) return;
+  const { category, payment } = transaction;
+
+  const seen = category === "received" ? deduplicator : transactionDeduplicator;
+  const duplicate = seen.check(payment);
+  if (duplicate.isDuplicate) {
+    console.log(
+      `[Background] Suppressed duplicate ${payment.sourceApp} ${category} transaction of ${payment.amount} VND (${duplicate.reason})`
+    );
+    return;
+  }
+  seen.remember(payment);
+
+  if (category !== "received") {
+    await handleOtherTransaction(category, payment);
+    return;
+  }
+
+  const planned = planPaymentAnnouncement(
+    payment,
+    getTemplateSettings(),
+    getAmountRules()
+  );
+  const schedule = getAnnouncementSchedule();
+  const isQuiet =
+    planned !== null && !isWithinSchedule(schedule, payment.receivedAt);
+
+  const stored = await savePayment(payment, { quietHours: isQuiet }).catch(
+    (error) => {
+      console.error("[Background] Error saving payment to history:", error);
+      return null;
+    }
+  );
+
+  if (!planned) {
+    console.log(
+      `[Background] Not announcing ${payment.amount} VND, below the minimum`
+    );
+    return;
+  }
+
+  if (isQuiet) {
+    console.log(
+      `[Background] Not announcing ${payment.amount} VND, outside the announcement schedule`
+    );
+    if (stored && schedule.outsideHours === "notify") {
+      await showQuietPaymentNotification(planned.text, stored.id).catch(
+        (error) => {
+          console.error("[Background] Error posting quiet payment:", error);
+        }
+      );
+    }
+    return;
+  }
+
+  const channel = await new Promise<AnnouncementChannel | null>((resolve) => {
+    getQueue().enqueue(planned.text, {
+      payment: {
+        amount: payment.amount,
+        sourceApp: payment.sourceApp,
+        chime: planned.chime ?? undefined,
+        standalone: planned.standalone,
+      },
+      speakers: getSpeakersForPayment(getRoutingRules(), payment),
+      onDelivered: resolve,
+    });
+  });
+
+  if (stored) {
+    await setPaymentAnnouncedVia(stored.id, channel).catch((error) => {
+      console.error("[Background] Error recording the channel:", error);
+    });
+  }
+
+  await updateBackgroundStatus(
+    `Last payment: ${formatVnd(payment.amount)} đ from ${
+      payment.sender || "unknown sender"
+    } at ${formatTime(payment.receivedAt)}`
+  );
+};
@@ -0,0 +1,53 @@
+import { NativeModules, Platform } from "react-native";
+
+const { BackgroundMode: BackgroundModeModule } = NativeModules;
+
+// The foreground service only exists in Android builds that include our package
+export const isBackgroundModeAvailable =
+  Platform.OS === "android" && Boolean(BackgroundModeModule);
+
+// Whether announcements keep running with the app closed (survives reboots)
+export const isBackgroundModeEnabled = async (): Promise<boolean> => {
+  if (!isBackgroundModeAvailable) return false;
+
+  try {
+    return Boolean(await BackgroundModeModule.isEnabled());
+  } catch (error) {
+    console.error("Error reading background mode:", error);
+    return false;
+  }
+};
+
+// Start the foreground service and its status notification. Resolves false
+// when Android refused to start it.
+export const startBackgroundMode = async (): Promise<boolean> => {
+  if (!isBackgroundModeAvailable) return false;
+
+  try {
+    return Boolean(await BackgroundModeModule.start());
+  } catch (error) {
+    console.error("Error starting background mode:", error);
+    return false;
+  }
+};
+
+export const stopBackgroundMode = async (): Promise<void> => {
+  if (!isBackgroundModeAvailable) return;
+
+  try {
+    await BackgroundModeModule.stop();
+  } catch (error) {
+    console.error("Error stopping background mode:", error);
+  }
+};
+
+// Replace the text of the persistent status notification
+export const updateBackgroundStatus = async (status: string): Promise<void> => {
+  if (!isBackgroundModeAvailable) return;
+
+  try {
+    await BackgroundModeModule.updateStatus(status);
+  } catch (error) {
+    console.error("Error updating the background status:", error);
+  }
+};
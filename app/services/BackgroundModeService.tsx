@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from "react";
+import { Alert } from "react-native";
+import {
+  isBackgroundModeAvailable,
+  isBackgroundModeEnabled,
+  startBackgroundMode,
+  stopBackgroundMode,
+} from "./BackgroundMode";
+import { ensureNotificationPermission } from "./LocalNotifications";
+
+interface UseBackgroundModeReturn {
+  // False on iOS, Expo Go and builds without the native service
+  isAvailable: boolean;
+  isEnabled: boolean;
+  setEnabled: (enabled: boolean) => Promise<void>;
+}
+
+// This hook switches announcements with the app closed on and off
+export default function useBackgroundMode(): UseBackgroundModeReturn {
+  const [isEnabled, setIsEnabled] = useState(false);
+
+  useEffect(() => {
+    isBackgroundModeEnabled().then(setIsEnabled);
+  }, []);
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    if (!enabled) {
+      await stopBackgroundMode();
+      setIsEnabled(false);
+      return;
+    }
+
+    // The status notification is hidden without the permission on Android 13+
+    await ensureNotificationPermission().catch(() => false);
+    const started = await startBackgroundMode();
+    setIsEnabled(started);
+    if (!started) {
+      Alert.alert(
+        "Background Mode Unavailable",
+        "Android did not allow Noti-Fin to keep running in the background."
+      );
+    }
+  }, []);
+
+  return { isAvailable: isBackgroundModeAvailable, isEnabled, setEnabled };
+}
@@ -1,6 +1,82 @@
-import { useState, useEffect, useRef } from "react";
-import { Alert, Platform, Linking, NativeModules } from "react-native";
-import Tts from "react-native-tts";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  useMemo,
+} from "react";
+import { Alert, Platform, Linking } from "react-native";
+import {
+  AnnouncementOptions,
+  AnnouncementQueue,
+  AnnouncementQueueConfig,
+  AnnouncementQueueState,
+  createAnnouncementQueue,
+} from "./AnnouncementQueue";
+import { buildPaymentSummaryAnnouncement } from "./AnnouncementBuilder";
+import {
+  getTemplateSettings,
+  loadTemplateSettings,
+  subscribeToTemplateSettings,
+} from "./AnnouncementTemplateStore";
+import {
+  AnnouncementChannel,
+  ChannelDeliverer,
+  deliverWithFallback,
+} from "./AnnouncementFallback";
+import { createChannelDeliverers } from "./AnnouncementDeliverers";
+import { ChimeSound, selectChime } from "./Chimes";
+import { getChimeSettings, loadChimeSettings } from "./ChimeStore";
+import { stopChime } from "./ChimePlayer";
+import {
+  getFallbackChain,
+  loadFallbackChain,
+} from "./AnnouncementFallbackStore";
+import { ActiveTts, applyTtsSettings, isNativeTts } from "./Speech";
+import {
+  getTtsSettings,
+  loadTtsSettings,
+  subscribeToTtsSettings,
+} from "./TtsSettingsStore";
+import { translatePhrase } from "./PhraseDictionary";
+import {
+  getPhraseDictionary,
+  loadPhraseDictionary,
+} from "./PhraseDictionaryStore";
+import {
+  AudioRoute,
+  addAudioRouteListener,
+  describeAudioRoute,
+  getCurrentAudioRoute,
+  isRouteForDevice,
+  openOutputSwitcher,
+  preferBluetoothOutput,
+} from "./AudioRoute";
+import {
+  BluetoothDevice,
+  ConnectionState,
+  ReconnectLoop,
+  createReconnectLoop,
+  getBluetoothAdapter,
+  getDeviceAddress,
+  getOverallConnectionState,
+  isClassicBluetoothAvailable,
+  mergeDevices,
+  requestBluetoothPermissions,
+} from "./bluetooth";
+// Kept out of the barrel so pure bluetooth modules don't load the store
+import {
+  addTargetSpeaker,
+  getTargetSpeakers,
+  isTargetSpeaker,
+  loadTargetSpeakers,
+  removeTargetSpeaker as removeStoredTargetSpeaker,
+  subscribeToTargetSpeakers,
+} from "./bluetooth/targetSpeakers";
+
+export type { BluetoothDevice, ConnectionState } from "./bluetooth";
 
 // Define interfaces for TTS
 interface Voice {
@@ -11,148 +87,383 @@ interface Voice {
   isDefault?: boolean;
 }
 
-// Create a mock TTS implementation for when native TTS fails
-const MockTts = {
-  voices: () =>
-    Promise.resolve([{ language: "vi-VN", name: "Vietnamese (Mock)" }]),
-  getInitStatus: () => Promise.resolve("success"),
-  setDefaultLanguage: () => Promise.resolve(),
-  setDefaultRate: () => Promise.resolve(),
-  setDefaultPitch: () => Promise.resolve(),
-  addEventListener: () => {},
-  removeEventListener: () => {},
-  speak: (text: string) => {
-    console.log(`[Mock TTS] Speaking: "${text}"`);
-    return Promise.resolve();
-  },
-  stop: () => Promise.resolve(),
-  isSpeaking: () => Promise.resolve(false),
-};
-
-// Use a reference to hold the active TTS implementation
-let ActiveTts: typeof Tts | typeof MockTts = Tts;
-
-// Detect if TTS is available and set up the appropriate implementation
-try {
-  if (
-    typeof Tts === "undefined" ||
-    Tts === null ||
-    !NativeModules.TextToSpeech
-  ) {
-    console.log("Native TTS not available, using mock implementation");
-    ActiveTts = MockTts;
-  } else {
-    console.log("Native TTS is available");
-    ActiveTts = Tts;
-  }
-} catch (error) {
-  console.error("Error during TTS detection:", error);
-  ActiveTts = MockTts;
-}
-
-// Define device interface
-export interface BluetoothDevice {
-  name?: string;
-  id: string;
-  address?: string;
-  connected?: boolean;
-}
-
 interface UseBluetoothReturn {
   devices: BluetoothDevice[];
+  // Every connected speaker, announcements are sent to all of them unless a
+  // routing rule picks specific ones
+  connectedDevices: BluetoothDevice[];
+  // The first connected speaker, for screens that only need one
   connectedDevice: BluetoothDevice | null;
+  // Summary over all speakers, see getSpeakerState for a single one
+  connectionState: ConnectionState;
+  getSpeakerState: (device: BluetoothDevice) => ConnectionState;
+  // Speakers kept connected, reconnected on startup and when Bluetooth comes back
+  targetSpeakers: BluetoothDevice[];
+  // Disconnects the speaker and stops announcing on it
+  removeTargetSpeaker: (device: BluetoothDevice) => Promise<void>;
   isEnabled: boolean;
   isScanning: boolean;
   isLoading: boolean;
   scanForDevices: () => Promise<void>;
   connectToDevice: (device: BluetoothDevice) => Promise<boolean>;
-  disconnectDevice: () => Promise<void>;
-  speak: (message: string) => Promise<void>;
+  // Disconnects one speaker, or every speaker when none is given
+  disconnectDevice: (device?: BluetoothDevice) => Promise<void>;
+  // Resolves with the channel that delivered the message, null if none did
+  speak: (
+    message: string,
+    options?: AnnouncementOptions
+  ) => Promise<AnnouncementChannel | null>;
+  announcementQueue: AnnouncementQueueState;
+  clearAnnouncementQueue: () => void;
+  configureAnnouncementQueue: (
+    config: Partial<AnnouncementQueueConfig>
+  ) => void;
   checkSystemConnection: () => Promise<void>;
   forceConnectToDevice: (deviceNameOrAddress: string) => Promise<boolean>;
   openBluetoothSettings: () => Promise<void>;
-  setCustomVietnamesePhrase: (english: string, vietnamese: string) => void;
   getAvailableLanguages: () => Promise<string[]>;
+  // Demo speakers instead of the real Bluetooth stack
+  isSimulationMode: boolean;
+  // Only has an effect when the native Bluetooth module is available
+  setSimulationMode: (enabled: boolean) => Promise<void>;
+  // Where TTS is actually played, null when the route can't be read
+  audioRoute: AudioRoute | null;
+  // Connected to a speaker, but audio goes somewhere else
+  isAudioRouteMismatch: boolean;
+  // Route audio to the connected speaker, or let the user pick the output
+  fixAudioRoute: () => Promise<void>;
 }
 
-// Mock data for testing
-const MOCK_DEVICES: BluetoothDevice[] = [
-  {
-    name: "Generic Bluetooth Speaker",
-    id: "00:11:22:33:44:55",
-    address: "00:11:22:33:44:55",
-    connected: false,
-  },
-  {
-    name: "WYS-2301BT",
-    id: "00:22:33:44:55:66",
-    address: "00:22:33:44:55:66",
-    connected: false,
-  },
-  {
-    name: "Portable Speaker",
-    id: "00:33:44:55:66:77",
-    address: "00:33:44:55:66:77",
-    connected: false,
-  },
-];
-
-// Default Vietnamese phrases
-const DEFAULT_VIETNAMESE_PHRASES = {
-  hello: "Xin chào",
-  "thank you": "Cảm ơn bạn",
-  goodbye: "Tạm biệt",
-  welcome: "Chào mừng",
-  "how are you": "Bạn khỏe không",
-  "good morning": "Chào buổi sáng",
-  "good afternoon": "Chào buổi chiều",
-  "good evening": "Chào buổi tối",
-  please: "Làm ơn",
-  sorry: "Xin lỗi",
-  "what is your name": "Tên bạn là gì",
-  "my name is": "Tên tôi là",
-  "nice to meet you": "Rất vui được gặp bạn",
-  "payment successful": "Thanh toán thành công",
-  "payment received": "Đã nhận thanh toán",
-};
-
-// Helper function to safely speak text
-const safeSpeak = async (text: string): Promise<void> => {
-  try {
-    // Use the active TTS implementation
-    const result = ActiveTts.speak(text);
-    if (result && typeof result === "object" && "then" in result) {
-      await result;
-    }
-    return Promise.resolve();
-  } catch (error) {
-    console.error("Error in safeSpeak:", error);
-    return Promise.reject(error);
-  }
-};
-
-export default function useBluetoothService(): UseBluetoothReturn {
+// One Bluetooth stack per app: a single set of connections, reconnect loops,
+// announcement queue and TTS engine, shared through BluetoothProvider
+function useBluetoothState(): UseBluetoothReturn {
   const [devices, setDevices] = useState<BluetoothDevice[]>([]);
-  const [connectedDevice, setConnectedDevice] =
-    useState<BluetoothDevice | null>(null);
+  const [connectedDevices, setConnectedDevices] = useState<BluetoothDevice[]>(
+    []
+  );
   const [isEnabled, setIsEnabled] = useState<boolean>(true);
   const [isScanning, setIsScanning] = useState<boolean>(false);
-  const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
   const [availableLanguages, setAvailableLanguages] = useState<string[]>([]);
+  const [isSimulationMode, setIsSimulationMode] = useState<boolean>(
+    !isClassicBluetoothAvailable
+  );
+  const adapter = useMemo(
+    () => getBluetoothAdapter(isSimulationMode),
+    [isSimulationMode]
+  );
+  const [audioRoute, setAudioRoute] = useState<AudioRoute | null>(null);
+  // Connection state of each speaker by address
+  const [speakerStates, setSpeakerStates] = useState<
+    Record<string, ConnectionState>
+  >({});
+  const [targetSpeakers, setTargetSpeakers] =
+    useState<BluetoothDevice[]>(getTargetSpeakers());
+
+  const connectedDevice = connectedDevices[0] ?? null;
+  const connectionState = getOverallConnectionState(
+    Object.values(speakerStates)
+  );
+
+  // Read by the adapter listeners, reconnect loops and the announcement
+  // queue, which outlive renders
+  const connectedDevicesRef = useRef(new Map<string, BluetoothDevice>());
+  const reconnectLoopsRef = useRef(new Map<string, ReconnectLoop>());
+
+  // Stable, as they only use state setters and refs, so the adapter
+  // listeners below don't restart on every render
+  const setSpeakerState = useCallback(
+    (address: string, state: ConnectionState) => {
+      setSpeakerStates((prev) => ({ ...prev, [address]: state }));
+    },
+    []
+  );
+
+  const updateConnectedDevices = useCallback(() => {
+    const connected = connectedDevicesRef.current;
+    setConnectedDevices([...connected.values()]);
+    setDevices((prev) =>
+      prev.map(
+        (d) =>
+          connected.get(getDeviceAddress(d)) ?? {
+            ...d,
+            connected: false,
+          }
+      )
+    );
+  }, []);
 
-  // Reference to store Vietnamese phrases
-  const vietnamesePhrases = useRef<Record<string, string>>({
-    ...DEFAULT_VIETNAMESE_PHRASES,
-  });
+  const markConnected = useCallback(
+    (device: BluetoothDevice) => {
+      const address = getDeviceAddress(device);
+      connectedDevicesRef.current.set(address, device);
+      setSpeakerState(address, "connected");
+      updateConnectedDevices();
+    },
+    [setSpeakerState, updateConnectedDevices]
+  );
+
+  const markDisconnected = useCallback(
+    (address: string, state: ConnectionState) => {
+      connectedDevicesRef.current.delete(address);
+      setSpeakerState(address, state);
+      updateConnectedDevices();
+    },
+    [setSpeakerState, updateConnectedDevices]
+  );
+
+  const cancelReconnect = (address: string) => {
+    reconnectLoopsRef.current.get(address)?.cancel();
+  };
 
-  // Initialize Bluetooth state and TTS
+  useEffect(() => subscribeToTargetSpeakers(setTargetSpeakers), []);
+
+  // The simulated speakers have no real audio route to compare against
+  const isAudioRouteMismatch = Boolean(
+    connectedDevices.length > 0 &&
+    audioRoute &&
+    !adapter.isSimulated &&
+    !connectedDevices.some((device) => isRouteForDevice(audioRoute, device))
+  );
+
+  // How each fallback channel delivers an announcement, on the connected
+  // speakers a payment is routed to. Rebuilt every render and read through a
+  // ref by the queue, which is created once.
+  const getDeliverers = (
+    speakers?: string[],
+    chime?: ChimeSound | null
+  ): Record<AnnouncementChannel, ChannelDeliverer> =>
+    createChannelDeliverers({
+      speakers: [...connectedDevicesRef.current.values()].filter(
+        (device) => !speakers || speakers.includes(getDeviceAddress(device))
+      ),
+      hasConnectedSpeakers: connectedDevicesRef.current.size > 0,
+      isSimulated: adapter.isSimulated,
+      chime,
+    });
+  const getDeliverersRef = useRef(getDeliverers);
+  getDeliverersRef.current = getDeliverers;
+
+  // Announcements are played one at a time through this queue, each on the
+  // first channel of the fallback chain that can deliver it
+  const queueRef = useRef<AnnouncementQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createAnnouncementQueue({
+      play: async (text, announcement) => {
+        const channel = await deliverWithFallback(
+          text,
+          getFallbackChain(),
+          getDeliverersRef.current(
+            announcement.speakers,
+            selectChime(getChimeSettings(), announcement.payment)
+          )
+        );
+        console.log(`Announcement delivered via ${channel ?? "no channel"}`);
+        return channel;
+      },
+      stop: async () => {
+        stopChime();
+        await ActiveTts.stop();
+      },
+      formatSummary: (count, totalAmount) =>
+        buildPaymentSummaryAnnouncement(
+          count,
+          totalAmount,
+          getTemplateSettings().language
+        ),
+    });
+  }
+  const announcementQueue = queueRef.current;
+  const [announcementQueueState, setAnnouncementQueueState] =
+    useState<AnnouncementQueueState>(announcementQueue.getState());
+  const isSpeaking = announcementQueueState.current !== null;
+
+  useEffect(
+    () => announcementQueue.subscribe(setAnnouncementQueueState),
+    [announcementQueue]
+  );
+
+  // Follow language changes made on the template screen and voice changes
+  // made on the settings screen
   useEffect(() => {
-    console.log("Initializing simple Bluetooth service");
-    setIsEnabled(true);
-    setDevices(MOCK_DEVICES);
+    let currentLanguage = getTemplateSettings().language;
+    const unsubscribeTemplates = subscribeToTemplateSettings(({ language }) => {
+      if (language === currentLanguage) return;
+      currentLanguage = language;
+      applyTtsSettings(getTtsSettings(), language).catch((err) => {
+        console.log("Failed to switch TTS language:", err);
+      });
+    });
+    const unsubscribeTts = subscribeToTtsSettings((settings) => {
+      applyTtsSettings(settings, currentLanguage).catch((err) => {
+        console.log("Failed to apply voice settings:", err);
+      });
+    });
+
+    return () => {
+      unsubscribeTemplates();
+      unsubscribeTts();
+    };
+  }, []);
+
+  // Follow the adapter's Bluetooth state and dropped connections, and keep
+  // the target speakers connected
+  useEffect(() => {
+    console.log(
+      `Initializing Bluetooth service (${
+        adapter.isSimulated ? "simulation" : "Bluetooth Classic"
+      })`
+    );
+    let isMounted = true;
+    const connected = connectedDevicesRef.current;
+    const reconnectLoops = reconnectLoopsRef.current;
+
+    // One loop per speaker, each with its own backoff
+    const startReconnecting = (speaker: BluetoothDevice) => {
+      const address = getDeviceAddress(speaker);
+      let loop = reconnectLoops.get(address);
+      if (!loop) {
+        loop = createReconnectLoop({
+          attempt: async (attemptNumber) => {
+            if (!isMounted || !isTargetSpeaker(address)) return true;
+            if (connected.has(address)) return true;
+            if (!(await adapter.isEnabled())) return false;
+
+            console.log(
+              `Reconnecting to ${speaker.name || address} (attempt ${attemptNumber})`
+            );
+            setSpeakerState(address, "reconnecting");
+            const device = await adapter.connect(address);
+            if (!isMounted) return true;
+            markConnected({ ...speaker, ...device, connected: true });
+            return true;
+          },
+          onGiveUp: () => {
+            console.log(`Giving up reconnecting to ${speaker.name || address}`);
+            if (isMounted) setSpeakerState(address, "lost");
+          },
+        });
+        reconnectLoops.set(address, loop);
+      }
+
+      setSpeakerState(address, "reconnecting");
+      loop.start();
+    };
+
+    // Only reconnect to target speakers this adapter knows about
+    const reconnectTargetSpeakers = async (bonded: BluetoothDevice[]) => {
+      const speakers = await loadTargetSpeakers();
+      if (!isMounted) return;
+
+      speakers.forEach((speaker) => {
+        const address = getDeviceAddress(speaker);
+        if (connected.has(address)) return;
+        if (!bonded.some((device) => getDeviceAddress(device) === address)) {
+          console.log(`Speaker ${address} is not paired, not reconnecting`);
+          return;
+        }
+        startReconnecting(speaker);
+      });
+    };
+
+    const loadBondedDevices = async () => {
+      try {
+        const enabled = await adapter.isEnabled();
+        if (!isMounted) return;
+        setIsEnabled(enabled);
+        if (enabled) {
+          const bonded = await adapter.getBondedDevices();
+          if (!isMounted) return;
+          setDevices(mergeDevices(bonded, [], [...connected.keys()]));
+          await reconnectTargetSpeakers(bonded);
+        } else {
+          (await loadTargetSpeakers()).forEach((speaker) =>
+            setSpeakerState(getDeviceAddress(speaker), "lost")
+          );
+        }
+      } catch (error) {
+        console.error("Error loading bonded devices:", error);
+      }
+    };
+    loadBondedDevices();
+
+    const removeEnabledListener = adapter.onEnabledChanged((enabled) => {
+      setIsEnabled(enabled);
+      if (enabled) {
+        loadBondedDevices();
+        return;
+      }
+
+      reconnectLoops.forEach((loop) => loop.cancel());
+      [...connected.keys()].forEach((address) =>
+        markDisconnected(address, "lost")
+      );
+      getTargetSpeakers().forEach((speaker) =>
+        setSpeakerState(getDeviceAddress(speaker), "lost")
+      );
+    });
+
+    const removeDisconnectListener = adapter.onDeviceDisconnected((address) => {
+      if (!connected.has(address)) return;
+
+      console.log(`Bluetooth device ${address} disconnected`);
+      markDisconnected(address, "lost");
+
+      const speaker = getTargetSpeakers().find(
+        (target) => getDeviceAddress(target) === address
+      );
+      if (speaker) startReconnecting(speaker);
+    });
 
+    return () => {
+      isMounted = false;
+      reconnectLoops.forEach((loop) => loop.cancel());
+      reconnectLoops.clear();
+      removeEnabledListener();
+      removeDisconnectListener();
+    };
+  }, [adapter, markConnected, markDisconnected, setSpeakerState]);
+
+  // Track the real audio output
+  useEffect(() => {
+    getCurrentAudioRoute().then(setAudioRoute);
+    const subscription = addAudioRouteListener((route) => {
+      console.log(`Audio route changed: ${describeAudioRoute(route)}`);
+      setAudioRoute(route);
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  // When audio leaves the speakers, try to move it back once per change
+  const mismatchAddress =
+    isAudioRouteMismatch && connectedDevice
+      ? getDeviceAddress(connectedDevice)
+      : null;
+  useEffect(() => {
+    if (!mismatchAddress) return;
+
+    console.log(
+      `Audio is playing on ${
+        audioRoute ? describeAudioRoute(audioRoute) : "another output"
+      }, switching back to ${mismatchAddress}`
+    );
+    preferBluetoothOutput(mismatchAddress).then((applied) => {
+      if (!applied) console.log("Android did not allow switching the output");
+    });
+  }, [mismatchAddress, audioRoute]);
+
+  // Initialize TTS
+  useEffect(() => {
     // Initialize TTS
     initTts();
+    loadPhraseDictionary().catch((error) => {
+      console.error("Error loading phrase dictionary:", error);
+    });
+    loadFallbackChain().catch((error) => {
+      console.error("Error loading the fallback chain:", error);
+    });
+    loadChimeSettings().catch((error) => {
+      console.error("Error loading chime settings:", error);
+    });
 
     return () => {
       // Clean up TTS
@@ -169,7 +480,7 @@ export default function useBluetoothService(): UseBluetoothReturn {
     try {
       console.log(
         "Initializing TTS with implementation:",
-        ActiveTts === Tts ? "Native TTS" : "Mock TTS"
+        isNativeTts ? "Native TTS" : "Mock TTS"
       );
 
       // Initialize TTS engine with better error handling
@@ -183,14 +494,10 @@ export default function useBluetoothService(): UseBluetoothReturn {
       }
 
       // Set up event listeners with safe checks
-      if (ActiveTts === Tts) {
+      if (isNativeTts) {
         try {
-          ActiveTts.addEventListener("tts-start", () => setIsSpeaking(true));
-          ActiveTts.addEventListener("tts-finish", () => setIsSpeaking(false));
-          ActiveTts.addEventListener("tts-cancel", () => setIsSpeaking(false));
           ActiveTts.addEventListener("tts-error", (err) => {
             console.error("TTS Error:", err);
-            setIsSpeaking(false);
           });
         } catch (eventErr) {
           console.error("Could not set up TTS event listeners:", eventErr);
@@ -231,21 +538,16 @@ export default function useBluetoothService(): UseBluetoothReturn {
         Array.isArray(availableVoices) ? availableVoices.length : 0
       );
 
-      // Try to set Vietnamese language with safeguards
-      try {
-        await ActiveTts.setDefaultLanguage("vi-VN").catch((err) => {
-          console.log("Failed to set Vietnamese, trying fallback:", err);
-        });
-      } catch (langErr) {
-        console.log("Setting Vietnamese language failed:", langErr);
-      }
-
-      // Set rate and pitch with error handling
+      // Speak in the language of the announcement templates (Vietnamese
+      // unless the user switched to English) with the saved voice settings
+      const [{ language }, ttsSettings] = await Promise.all([
+        loadTemplateSettings().catch(() => getTemplateSettings()),
+        loadTtsSettings().catch(() => getTtsSettings()),
+      ]);
       try {
-        await ActiveTts.setDefaultRate(0.5).catch(() => null); // Slower speech rate
-        await ActiveTts.setDefaultPitch(1.0).catch(() => null); // Normal pitch
-      } catch (rateErr) {
-        console.log("Failed to set speech rate/pitch:", rateErr);
+        await applyTtsSettings(ttsSettings, language);
+      } catch (settingsErr) {
+        console.log("Failed to apply voice settings:", settingsErr);
       }
 
       console.log("TTS initialization completed");
@@ -285,219 +587,273 @@ export default function useBluetoothService(): UseBluetoothReturn {
     }
   };
 
-  // Scan for devices
+  // List bonded devices and discover nearby ones
   const scanForDevices = async (): Promise<void> => {
     try {
       setIsScanning(true);
 
-      // Simulate scanning delay and potential device discovery
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Generate a more dynamic list of devices to simulate real world scenarios
-      const randomDevices: BluetoothDevice[] = [];
-
-      // Add basic mock devices that are always present
-      randomDevices.push(...MOCK_DEVICES);
-
-      // Sometimes "discover" additional random devices
-      if (Math.random() > 0.5) {
-        const additionalDevices = [
-          {
-            name: "JBL Flip",
-            id: generateRandomId(),
-            address: generateRandomId(),
-            connected: false,
-          },
-          {
-            name: "Bose SoundLink",
-            id: generateRandomId(),
-            address: generateRandomId(),
-            connected: false,
-          },
-          {
-            name: "Sony SRS-XB12",
-            id: generateRandomId(),
-            address: generateRandomId(),
-            connected: false,
-          },
-          {
-            name: "Anker Soundcore",
-            id: generateRandomId(),
-            address: generateRandomId(),
-            connected: false,
-          },
-        ];
+      if (!adapter.isSimulated && !(await requestBluetoothPermissions())) {
+        Alert.alert(
+          "Bluetooth Permission Required",
+          "Noti-Fin needs the Nearby devices permission to find your speaker.",
+          [
+            { text: "Cancel", style: "cancel" },
+            { text: "Open Settings", onPress: () => Linking.openSettings() },
+          ]
+        );
+        return;
+      }
 
-        // Add 1-3 random additional devices
-        const numToAdd = Math.floor(Math.random() * 3) + 1;
-        for (let i = 0; i < numToAdd; i++) {
-          if (additionalDevices[i]) {
-            randomDevices.push(additionalDevices[i]);
-          }
-        }
+      if (!(await adapter.isEnabled())) {
+        const enabled = await adapter.requestEnable().catch(() => false);
+        setIsEnabled(enabled);
+        if (!enabled) return;
       }
 
-      // Update the device list
-      setDevices(randomDevices);
+      // Show paired speakers right away, discovery takes a few seconds
+      const connectedAddresses = [...connectedDevicesRef.current.keys()];
+      const bonded = await adapter.getBondedDevices();
+      setDevices(mergeDevices(bonded, [], connectedAddresses));
+
+      const discovered = await adapter.discoverDevices();
+      const found = mergeDevices(bonded, discovered, connectedAddresses);
+      setDevices(found);
 
-      console.log(`Found ${randomDevices.length} Bluetooth devices`);
+      console.log(
+        `Found ${found.length} Bluetooth devices (${discovered.length} discovered)`
+      );
     } catch (error) {
       console.error("Error scanning for devices:", error);
-      // Even on error, update with basic devices to ensure app can continue
-      setDevices(MOCK_DEVICES);
+      Alert.alert(
+        "Scan Failed",
+        "Could not search for Bluetooth devices. Please make sure Bluetooth is turned on."
+      );
     } finally {
       setIsScanning(false);
     }
   };
 
-  // Helper to generate random Bluetooth-like addresses
-  const generateRandomId = (): string => {
-    const hexChars = "0123456789ABCDEF";
-    let result = "";
-    for (let i = 0; i < 6; i++) {
-      const section = Array(2)
-        .fill(0)
-        .map(() => hexChars.charAt(Math.floor(Math.random() * hexChars.length)))
-        .join("");
-      result += (i > 0 ? ":" : "") + section;
+  // Pair if needed, then open a connection to the device
+  const openConnection = async (
+    device: BluetoothDevice
+  ): Promise<BluetoothDevice> => {
+    const address = getDeviceAddress(device);
+
+    // Discovery slows down connections
+    await adapter.cancelDiscovery().catch(() => {});
+
+    let paired = device;
+    if (!device.bonded) {
+      console.log(`Pairing with ${device.name || address}`);
+      paired = { ...device, ...(await adapter.pairDevice(address)) };
     }
-    return result;
+
+    const connected = await adapter.connect(address);
+    return {
+      ...paired,
+      ...connected,
+      rssi: connected.rssi ?? paired.rssi,
+      connected: true,
+    };
   };
 
-  // Connect to a device
+  // Connect to a speaker picked by the user and add it to the target speakers
   const connectToDevice = async (device: BluetoothDevice): Promise<boolean> => {
+    const address = getDeviceAddress(device);
+
     try {
-      // Display connection message
+      if (!adapter.isSimulated && !(await requestBluetoothPermissions())) {
+        Alert.alert(
+          "Bluetooth Permission Required",
+          "Noti-Fin needs the Nearby devices permission to connect to your speaker."
+        );
+        return false;
+      }
+
+      cancelReconnect(address);
+      setSpeakerState(address, "connecting");
+      const updated = await openConnection(device);
+      markConnected(updated);
+      console.log(`Connected to ${updated.name || address}`);
+      await addTargetSpeaker(updated);
+
+      // Make sure announcements play on this speaker, not the phone
+      if (!adapter.isSimulated) {
+        await preferBluetoothOutput(address);
+        setAudioRoute(await getCurrentAudioRoute());
+      }
+      return true;
+    } catch (error) {
+      console.error("Error connecting to device:", error);
+      setSpeakerState(
+        address,
+        connectedDevicesRef.current.has(address) ? "connected" : "idle"
+      );
       Alert.alert(
-        "System Connection Required",
-        `Please make sure your "${
-          device.name || "Bluetooth speaker"
-        }" is connected in your phone's Bluetooth settings, then tap OK.`,
+        "Connection Failed",
+        `Could not connect to "${
+          device.name || address
+        }". Make sure the speaker is turned on and in range.`,
         [
           {
             text: "Open Bluetooth Settings",
             onPress: () => openBluetoothSettings(),
           },
-          {
-            text: "OK",
-            onPress: () => {
-              // Update connection state
-              setConnectedDevice({ ...device, connected: true });
-              setDevices((prev) =>
-                prev.map((d) =>
-                  d.id === device.id ? { ...d, connected: true } : d
-                )
-              );
-            },
-          },
+          { text: "OK" },
         ]
       );
-      return true;
-    } catch (error) {
-      console.error("Error connecting to device:", error);
       return false;
     }
   };
 
-  // Disconnect from device
-  const disconnectDevice = async (): Promise<void> => {
-    if (!connectedDevice) return;
+  // A manual disconnect also stops reconnecting until the next launch
+  const disconnectDevice = async (device?: BluetoothDevice): Promise<void> => {
+    const addresses = device
+      ? [getDeviceAddress(device)]
+      : [...connectedDevicesRef.current.keys()];
+
+    await Promise.all(
+      addresses.map(async (address) => {
+        cancelReconnect(address);
+        try {
+          if (connectedDevicesRef.current.has(address)) {
+            await adapter.disconnect(address);
+          }
+        } catch (error) {
+          console.error(`Error disconnecting ${address}:`, error);
+        } finally {
+          markDisconnected(address, "idle");
+        }
+      })
+    );
+  };
+
+  const removeTargetSpeaker = async (
+    device: BluetoothDevice
+  ): Promise<void> => {
+    await disconnectDevice(device);
+    await removeStoredTargetSpeaker(getDeviceAddress(device));
+  };
+
+  const getSpeakerState = (device: BluetoothDevice): ConnectionState =>
+    speakerStates[getDeviceAddress(device)] ?? "idle";
 
+  // Ask the Bluetooth stack whether the speakers are still connected
+  const checkSystemConnection = async (): Promise<void> => {
     try {
-      setConnectedDevice(null);
-      setDevices((prev) => prev.map((d) => ({ ...d, connected: false })));
+      const enabled = await adapter.isEnabled();
+      setIsEnabled(enabled);
+
+      const speakers = [...connectedDevicesRef.current.values()];
+      if (speakers.length === 0) {
+        if (enabled) {
+          setDevices(mergeDevices(await adapter.getBondedDevices(), devices));
+        }
+        return;
+      }
+
+      const lost: BluetoothDevice[] = [];
+      for (const speaker of speakers) {
+        const address = getDeviceAddress(speaker);
+        if (!enabled || !(await adapter.isConnected(address))) {
+          markDisconnected(address, "lost");
+          lost.push(speaker);
+        }
+      }
+
+      if (lost.length === 0) {
+        Alert.alert(
+          "Speakers Connected",
+          `${speakers
+            .map((speaker) => speaker.name || getDeviceAddress(speaker))
+            .join(
+              ", "
+            )} ${speakers.length === 1 ? "is" : "are"} still connected.`
+        );
+        return;
+      }
+
       Alert.alert(
-        "Device Disconnected",
-        "You've disconnected from the Bluetooth speaker. To completely disconnect, you may need to also disconnect in your phone's Bluetooth settings."
+        "Speaker Disconnected",
+        `${lost
+          .map((speaker) => speaker.name || getDeviceAddress(speaker))
+          .join(", ")} ${
+          lost.length === 1 ? "is" : "are"
+        } no longer connected. Tap a speaker in the device list to reconnect.`
       );
     } catch (error) {
-      console.error("Error disconnecting:", error);
+      console.error("Error checking Bluetooth connection:", error);
     }
   };
 
-  // Check system connection
-  const checkSystemConnection = async (): Promise<void> => {
-    Alert.alert(
-      "Check Connection in Settings",
-      "To check if your speaker is connected, please check your phone's Bluetooth settings.",
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Open Bluetooth Settings",
-          onPress: () => openBluetoothSettings(),
-        },
-      ]
-    );
+  const fixAudioRoute = async (): Promise<void> => {
+    if (!connectedDevice) return;
+
+    await preferBluetoothOutput(getDeviceAddress(connectedDevice));
+    const route = await getCurrentAudioRoute();
+    setAudioRoute(route);
+
+    if (route && !isRouteForDevice(route, connectedDevice)) {
+      Alert.alert(
+        "Choose Audio Output",
+        `Announcements are playing on: ${describeAudioRoute(
+          route
+        )}. Please select "${
+          connectedDevice.name || "your speaker"
+        }" as the output.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Choose Output", onPress: () => openOutputSwitcher() },
+        ]
+      );
+    }
   };
 
-  // Force connect to a specific device by name or address
+  // Switch between the demo speakers and the real Bluetooth stack
+  const setSimulationMode = async (enabled: boolean): Promise<void> => {
+    if (!isClassicBluetoothAvailable || enabled === isSimulationMode) return;
+
+    await disconnectDevice();
+    setDevices([]);
+    setIsSimulationMode(enabled);
+  };
+
+  // Connect to a paired or discovered device by name or address
   const forceConnectToDevice = async (
     deviceNameOrAddress: string
   ): Promise<boolean> => {
-    try {
-      // First try to find the device in the current device list
-      let deviceToConnect = devices.find(
-        (device) =>
-          (device.name &&
-            device.name
-              .toLowerCase()
-              .includes(deviceNameOrAddress.toLowerCase())) ||
-          device.id === deviceNameOrAddress ||
-          device.address === deviceNameOrAddress
-      );
+    const query = deviceNameOrAddress.trim().toLowerCase();
+    if (!query) return false;
 
-      // If no device found, scan for devices and try again
-      if (!deviceToConnect && deviceNameOrAddress) {
-        await scanForDevices();
-
-        // Look again after scanning
-        deviceToConnect = devices.find(
-          (device) =>
-            (device.name &&
-              device.name
-                .toLowerCase()
-                .includes(deviceNameOrAddress.toLowerCase())) ||
-            device.id === deviceNameOrAddress ||
-            device.address === deviceNameOrAddress
-        );
-      }
+    const matches = (device: BluetoothDevice) =>
+      Boolean(device.name && device.name.toLowerCase().includes(query)) ||
+      device.id.toLowerCase() === query ||
+      device.address?.toLowerCase() === query;
 
-      // If we still don't have a match, ask user to select from available devices
-      if (!deviceToConnect) {
-        if (devices.length === 0) {
-          Alert.alert(
-            "No Devices Found",
-            "No Bluetooth speakers were found. Please make sure your speaker is turned on and in pairing mode.",
-            [
-              {
-                text: "Open Bluetooth Settings",
-                onPress: () => openBluetoothSettings(),
-              },
-              { text: "OK" },
-            ]
-          );
-          return false;
-        }
+    try {
+      let deviceToConnect = devices.find(matches);
 
-        // Create a device with the requested name if nothing is found
-        if (deviceNameOrAddress) {
-          const newDevice = {
-            name: deviceNameOrAddress,
-            id: generateRandomId(),
-            address: generateRandomId(),
-            connected: false,
-          };
-          setDevices((prev) => [...prev, newDevice]);
-          return await connectToDevice(newDevice);
-        }
+      // The list may be stale, ask the adapter for the paired devices
+      if (!deviceToConnect && (await adapter.isEnabled())) {
+        deviceToConnect = (await adapter.getBondedDevices()).find(matches);
       }
 
-      // Connect to the device if found
-      if (deviceToConnect) {
-        return await connectToDevice(deviceToConnect);
+      if (!deviceToConnect) {
+        Alert.alert(
+          "Speaker Not Found",
+          `No paired or nearby speaker matches "${deviceNameOrAddress}". Scan for devices or pair it in your phone's Bluetooth settings.`,
+          [
+            {
+              text: "Open Bluetooth Settings",
+              onPress: () => openBluetoothSettings(),
+            },
+            { text: "OK" },
+          ]
+        );
+        return false;
       }
 
-      return false;
+      return await connectToDevice(deviceToConnect);
     } catch (error) {
       console.error("Error in force connect:", error);
       return false;
@@ -508,7 +864,7 @@ export default function useBluetoothService(): UseBluetoothReturn {
   const getAvailableLanguages = async (): Promise<string[]> => {
     try {
       // If using mock TTS, return hardcoded languages
-      if (ActiveTts === MockTts) {
+      if (!isNativeTts) {
         const mockLanguages = ["vi-VN", "en-US"];
         setAvailableLanguages(mockLanguages);
         return mockLanguages;
@@ -566,102 +922,59 @@ export default function useBluetoothService(): UseBluetoothReturn {
     }
   };
 
-  // Add custom Vietnamese phrase
-  const setCustomVietnamesePhrase = (
-    english: string,
-    vietnamese: string
-  ): void => {
-    if (!english || !vietnamese) {
-      Alert.alert(
-        "Input Error",
-        "Both English and Vietnamese phrases are required"
-      );
-      return;
-    }
-
-    vietnamesePhrases.current = {
-      ...vietnamesePhrases.current,
-      [english.toLowerCase()]: vietnamese,
-    };
-
-    Alert.alert(
-      "Phrase Added",
-      `Added translation: "${english}" → "${vietnamese}"`
-    );
-
-    console.log(`Added phrase: "${english}" → "${vietnamese}"`);
-  };
-
-  // Speak through the device with better error handling
-  const speak = async (message: string): Promise<void> => {
-    if (!connectedDevice) {
-      Alert.alert(
-        "No Device Connected",
-        "Please connect to a Bluetooth speaker first."
-      );
-      return;
-    }
-
-    try {
-      // Check if we're already speaking and stop safely
-      if (isSpeaking) {
-        try {
-          await ActiveTts.stop().catch(() => {});
-        } catch (stopErr) {
-          console.log("Failed to stop current speech:", stopErr);
-        }
-      }
-
-      // Convert message to Vietnamese if needed
-      let textToSpeak = message;
-
-      // Check if the message is one of our pre-defined phrases
+  // Queue a message to be announced. Resolves with the channel that delivered
+  // it once it has been played (or merged into a summary that was played),
+  // or null when it could not be delivered, was dropped or cleared.
+  // Stable, so the notification pipeline doesn't re-subscribe on every render
+  const speak = useCallback(
+    async (
+      message: string,
+      options: AnnouncementOptions = {}
+    ): Promise<AnnouncementChannel | null> => {
       try {
-        const lowerMsg = message.toLowerCase();
-        for (const [english, vietnamese] of Object.entries(
-          vietnamesePhrases.current
-        )) {
-          if (lowerMsg.includes(english)) {
-            textToSpeak = vietnamese;
-            console.log(`Translated "${english}" to "${vietnamese}"`);
-            break;
-          }
-        }
-      } catch (translateErr) {
-        console.log("Error in translation, using original text:", translateErr);
-      }
-
-      // Try to speak the message with proper error handling
-      console.log(`Speaking message in Vietnamese: "${textToSpeak}"`);
-      setIsSpeaking(true);
-
-      try {
-        await safeSpeak(textToSpeak);
-        // Wait a moment before allowing more speech
-        setTimeout(() => {
-          setIsSpeaking(false);
-        }, 1000);
-      } catch (err) {
-        console.error("TTS speak error:", err);
-        setIsSpeaking(false);
+        // Messages that are exactly a dictionary phrase are spoken in Vietnamese
+        const textToSpeak =
+          translatePhrase(message, getPhraseDictionary()) ?? message;
+
+        console.log(`Queueing message: "${textToSpeak}"`);
+        return await new Promise<AnnouncementChannel | null>((resolve) => {
+          announcementQueue
+            .enqueue(textToSpeak, {
+              ...options,
+              onDelivered: (channel) => {
+                options.onDelivered?.(channel);
+                resolve(channel);
+              },
+            })
+            .then((status) => {
+              if (status === "failed") {
+                Alert.alert(
+                  "Announcement Failed",
+                  "The message could not be announced on any channel. Check the speaker, the volume and that notifications are allowed."
+                );
+              }
+            });
+        });
+      } catch (error) {
+        console.error("TTS Error:", error);
         Alert.alert(
           "TTS Error",
           "There was an error trying to speak the message. Please make sure TTS is enabled on your device."
         );
+        return null;
       }
-    } catch (error) {
-      console.error("TTS Error:", error);
-      setIsSpeaking(false);
-      Alert.alert(
-        "TTS Error",
-        "There was an error trying to speak the message. Please make sure TTS is enabled on your device."
-      );
-    }
-  };
+    },
+    [announcementQueue]
+  );
 
   return {
     devices,
+    connectedDevices,
     connectedDevice,
+    connectionState,
+    getSpeakerState,
+    targetSpeakers,
+    removeTargetSpeaker,
     isEnabled,
     isScanning,
     isLoading: isScanning || isSpeaking,
@@ -669,10 +982,40 @@ export default function useBluetoothService(): UseBluetoothReturn {
     connectToDevice,
     disconnectDevice,
     speak,
+    announcementQueue: announcementQueueState,
+    clearAnnouncementQueue: announcementQueue.clear,
+    configureAnnouncementQueue: announcementQueue.configure,
     checkSystemConnection,
     forceConnectToDevice,
     openBluetoothSettings,
-    setCustomVietnamesePhrase,
     getAvailableLanguages,
+    isSimulationMode,
+    setSimulationMode,
+    audioRoute,
+    isAudioRouteMismatch,
+    fixAudioRoute,
   };
 }
+
+const BluetoothContext = createContext<UseBluetoothReturn | null>(null);
+
+// Mounted once in the root layout, so every screen and the notification
+// pipeline talk to the same speakers
+export function BluetoothProvider({ children }: { children: React.ReactNode }) {
+  const bluetooth = useBluetoothState();
+  return (
+    <BluetoothContext.Provider value={bluetooth}>
+      {children}
+    </BluetoothContext.Provider>
+  );
+}
+
+export default function useBluetoothService(): UseBluetoothReturn {
+  const bluetooth = useContext(BluetoothContext);
+  if (!bluetooth) {
+    throw new Error(
+      "useBluetoothService must be used inside BluetoothProvider"
+    );
+  }
+  return bluetooth;
+}
@@ -0,0 +1,89 @@
+import { AVPlaybackSource, Audio, InterruptionModeAndroid } from "expo-av";
+import { ChimeSound } from "./Chimes";
+
+// Files of the sounds in BUNDLED_CHIMES
+const BUNDLED_SOURCES: Record<string, AVPlaybackSource> = {
+  "ting-ting": require("../../assets/sounds/ting-ting.wav"),
+  bell: require("../../assets/sounds/bell.wav"),
+  coin: require("../../assets/sounds/coin.wav"),
+};
+
+// Imported sounds can be long, only their start is played
+const MAX_CHIME_DURATION = 5000;
+
+let audioModePromise: Promise<void> | null = null;
+let stopCurrent: (() => void) | null = null;
+
+// Chimes play on the media stream like TTS, also from the background task
+const setUpAudioMode = (): Promise<void> => {
+  if (!audioModePromise) {
+    audioModePromise = Audio.setAudioModeAsync({
+      staysActiveInBackground: true,
+      shouldDuckAndroid: true,
+      playThroughEarpieceAndroid: false,
+      interruptionModeAndroid: InterruptionModeAndroid.DuckOthers,
+    }).catch((error) => {
+      console.log("Failed to set the audio mode for chimes:", error);
+    });
+  }
+  return audioModePromise;
+};
+
+/**
+ * Play a chime and resolve once it has finished, so the announcement that
+ * follows never talks over it. Failures are logged and never block speech.
+ */
+export const playChime = async (chime: ChimeSound): Promise<void> => {
+  const source = chime.uri ? { uri: chime.uri } : BUNDLED_SOURCES[chime.id];
+  if (!source) {
+    console.log(`Unknown chime "${chime.id}", skipping`);
+    return;
+  }
+
+  let sound: Audio.Sound | null = null;
+  try {
+    await setUpAudioMode();
+    ({ sound } = await Audio.Sound.createAsync(source));
+    const loaded = sound;
+
+    await new Promise<void>((resolve) => {
+      const finish = () => {
+        clearTimeout(timeout);
+        stopCurrent = null;
+        resolve();
+      };
+      const timeout = setTimeout(() => {
+        loaded.stopAsync().catch(() => {});
+        finish();
+      }, MAX_CHIME_DURATION);
+
+      stopCurrent = () => {
+        loaded.stopAsync().catch(() => {});
+        finish();
+      };
+      loaded.setOnPlaybackStatusUpdate((status) => {
+        if (!status.isLoaded) {
+          if (status.error) {
+            console.error("Chime playback error:", status.error);
+            finish();
+          }
+          return;
+        }
+        if (status.didJustFinish) finish();
+      });
+      loaded.playAsync().catch((error) => {
+        console.error("Error starting chime:", error);
+        finish();
+      });
+    });
+  } catch (error) {
+    console.error(`Error playing chime "${chime.name}":`, error);
+  } finally {
+    sound?.unloadAsync().catch(() => {});
+  }
+};
+
+// Cut the chime short, used when a priority announcement interrupts
+export const stopChime = (): void => {
+  stopCurrent?.();
+};
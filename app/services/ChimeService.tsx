@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import {
+  ChimeSettings,
+  ChimeSound,
+  getChimeSounds,
+  removeAmountTier,
+  removeChimeSound,
+  setAmountTier,
+  setAppChime,
+} from "./Chimes";
+import {
+  getChimeSettings,
+  loadChimeSettings,
+  subscribeToChimeSettings,
+  updateChimeSettings,
+} from "./ChimeStore";
+import { playChime } from "./ChimePlayer";
+
+// Imported sounds are copied here so they outlive the picker's cache
+const CHIME_DIRECTORY = `${FileSystem.documentDirectory}chimes/`;
+
+interface UseChimeSettingsReturn {
+  settings: ChimeSettings;
+  // Bundled sounds first, then imported ones
+  sounds: ChimeSound[];
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setDefaultChime: (chime: string) => Promise<void>;
+  // null makes the wallet use the default chime again
+  setWalletChime: (sourceApp: string, chime: string | null) => Promise<void>;
+  addAmountTier: (minAmount: number, chime: string) => Promise<void>;
+  deleteAmountTier: (minAmount: number) => Promise<void>;
+  // Resolves with the imported sound, or null when cancelled
+  importSound: () => Promise<ChimeSound | null>;
+  deleteSound: (id: string) => Promise<void>;
+  previewSound: (sound: ChimeSound) => Promise<void>;
+}
+
+// This hook exposes the chimes played before payment announcements
+export default function useChimeSettings(): UseChimeSettingsReturn {
+  const [settings, setSettings] = useState<ChimeSettings>(getChimeSettings());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToChimeSettings(setSettings);
+    loadChimeSettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error("Error loading chime settings:", error);
+      });
+    return unsubscribe;
+  }, []);
+
+  const sounds = useMemo(() => getChimeSounds(settings), [settings]);
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    await updateChimeSettings((current) => ({ ...current, enabled }));
+  }, []);
+
+  const setDefaultChime = useCallback(async (chime: string) => {
+    await updateChimeSettings((current) => ({
+      ...current,
+      defaultChime: chime,
+    }));
+  }, []);
+
+  const setWalletChime = useCallback(
+    async (sourceApp: string, chime: string | null) => {
+      await updateChimeSettings((current) =>
+        setAppChime(current, sourceApp, chime)
+      );
+    },
+    []
+  );
+
+  const addAmountTier = useCallback(
+    async (minAmount: number, chime: string) => {
+      await updateChimeSettings((current) =>
+        setAmountTier(current, minAmount, chime)
+      );
+    },
+    []
+  );
+
+  const deleteAmountTier = useCallback(async (minAmount: number) => {
+    await updateChimeSettings((current) =>
+      removeAmountTier(current, minAmount)
+    );
+  }, []);
+
+  const importSound = useCallback(async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: "audio/*",
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) return null;
+
+    const asset = result.assets[0];
+    const extension = asset.name.includes(".")
+      ? asset.name.split(".").pop()
+      : "mp3";
+    const id = `imported-${Date.now()}`;
+    const uri = `${CHIME_DIRECTORY}${id}.${extension}`;
+
+    await FileSystem.makeDirectoryAsync(CHIME_DIRECTORY, {
+      intermediates: true,
+    }).catch(() => {});
+    await FileSystem.copyAsync({ from: asset.uri, to: uri });
+
+    const sound: ChimeSound = {
+      id,
+      name: asset.name.replace(/\.[^.]+$/, "") || "Imported sound",
+      uri,
+    };
+    await updateChimeSettings((current) => ({
+      ...current,
+      importedSounds: [...current.importedSounds, sound],
+    }));
+    return sound;
+  }, []);
+
+  const deleteSound = useCallback(async (id: string) => {
+    await loadChimeSettings();
+    const sound = getChimeSettings().importedSounds.find(
+      (item) => item.id === id
+    );
+    if (!sound) return;
+
+    await updateChimeSettings((current) => removeChimeSound(current, id));
+    if (sound.uri) {
+      await FileSystem.deleteAsync(sound.uri, { idempotent: true }).catch(
+        (error) => {
+          console.error("Error deleting chime file:", error);
+        }
+      );
+    }
+  }, []);
+
+  return {
+    settings,
+    sounds,
+    setEnabled,
+    setDefaultChime,
+    setWalletChime,
+    addAmountTier,
+    deleteAmountTier,
+    importSound,
+    deleteSound,
+    previewSound: playChime,
+  };
+}
@@ -0,0 +1,14 @@
+import { ChimeSettings, DEFAULT_CHIME_SETTINGS } from "./Chimes";
+import { createSettingStore } from "./SettingsStore";
+
+const chimeStore = createSettingStore<ChimeSettings>(
+  "chimeSettings",
+  DEFAULT_CHIME_SETTINGS,
+  (defaults, stored) => ({ ...defaults, ...stored })
+);
+
+export const getChimeSettings = chimeStore.get;
+export const loadChimeSettings = chimeStore.load;
+export const saveChimeSettings = chimeStore.save;
+export const updateChimeSettings = chimeStore.update;
+export const subscribeToChimeSettings = chimeStore.subscribe;
@@ -0,0 +1,128 @@
+export interface ChimeSound {
+  id: string;
+  name: string;
+  // File of an imported sound, bundled sounds have none
+  uri?: string;
+}
+
+export interface ChimeTier {
+  // Payments of at least this amount (VND) use the tier's chime
+  minAmount: number;
+  chime: string;
+}
+
+export interface ChimeSettings {
+  enabled: boolean;
+  // Chime for payments not matched by a tier or a wallet
+  defaultChime: string;
+  // Chime per source app id
+  appChimes: Record<string, string>;
+  // Sorted by minAmount, the highest matching tier wins
+  amountTiers: ChimeTier[];
+  importedSounds: ChimeSound[];
+}
+
+// Sounds shipped in assets/sounds, see ChimePlayer.ts
+export const BUNDLED_CHIMES: ChimeSound[] = [
+  { id: "ting-ting", name: "Ting ting" },
+  { id: "bell", name: "Bell" },
+  { id: "coin", name: "Coin" },
+];
+
+export const DEFAULT_CHIME_SETTINGS: ChimeSettings = {
+  enabled: false,
+  defaultChime: "ting-ting",
+  appChimes: {},
+  amountTiers: [],
+  importedSounds: [],
+};
+
+export const getChimeSounds = (settings: ChimeSettings): ChimeSound[] => [
+  ...BUNDLED_CHIMES,
+  ...settings.importedSounds,
+];
+
+export const findChimeSound = (
+  settings: ChimeSettings,
+  id: string
+): ChimeSound | undefined =>
+  getChimeSounds(settings).find((sound) => sound.id === id);
+
+/**
+ * The chime to play before a payment announcement: the chime picked by an
+ * amount rule, else the highest amount tier the payment reaches, else the
+ * wallet's chime, else the default. Other announcements get no chime.
+ */
+export const selectChime = (
+  settings: ChimeSettings,
+  payment: { amount: number; sourceApp?: string; chime?: string } | undefined
+): ChimeSound | null => {
+  if (!payment) return null;
+
+  const ruleChime = payment.chime && findChimeSound(settings, payment.chime);
+  if (ruleChime) return ruleChime;
+  if (!settings.enabled) return null;
+
+  const tier = [...settings.amountTiers]
+    .reverse()
+    .find((item) => payment.amount >= item.minAmount);
+  const chimeId =
+    tier?.chime ??
+    (payment.sourceApp && settings.appChimes[payment.sourceApp]) ??
+    settings.defaultChime;
+
+  return findChimeSound(settings, chimeId) ?? null;
+};
+
+// Adds a tier, replacing one with the same amount
+export const setAmountTier = (
+  settings: ChimeSettings,
+  minAmount: number,
+  chime: string
+): ChimeSettings => ({
+  ...settings,
+  amountTiers: [
+    ...settings.amountTiers.filter((tier) => tier.minAmount !== minAmount),
+    { minAmount, chime },
+  ].sort((a, b) => a.minAmount - b.minAmount),
+});
+
+export const removeAmountTier = (
+  settings: ChimeSettings,
+  minAmount: number
+): ChimeSettings => ({
+  ...settings,
+  amountTiers: settings.amountTiers.filter(
+    (tier) => tier.minAmount !== minAmount
+  ),
+});
+
+// Null removes the wallet's chime so it uses the default again
+export const setAppChime = (
+  settings: ChimeSettings,
+  sourceApp: string,
+  chime: string | null
+): ChimeSettings => {
+  const { [sourceApp]: _previous, ...appChimes } = settings.appChimes;
+  return {
+    ...settings,
+    appChimes: chime ? { ...appChimes, [sourceApp]: chime } : appChimes,
+  };
+};
+
+// Removes an imported sound and every tier or wallet that used it
+export const removeChimeSound = (
+  settings: ChimeSettings,
+  id: string
+): ChimeSettings => ({
+  ...settings,
+  defaultChime:
+    settings.defaultChime === id
+      ? DEFAULT_CHIME_SETTINGS.defaultChime
+      : settings.defaultChime,
+  appChimes: Object.fromEntries(
+    Object.entries(settings.appChimes).filter(([, chime]) => chime !== id)
+  ),
+  amountTiers: settings.amountTiers.filter((tier) => tier.chime !== id),
+  importedSounds: settings.importedSounds.filter((sound) => sound.id !== id),
+});
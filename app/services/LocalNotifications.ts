@@ -0,0 +1,188 @@
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { PAYMENT_VIBRATION_PATTERN } from "./AnnouncementFallback";
+
+// Heads-up notifications need a high importance channel on Android 8+
+const ANNOUNCEMENT_CHANNEL_ID = "payment-announcements";
+// Payments held back by the announcement schedule make no sound
+const QUIET_PAYMENT_CHANNEL_ID = "quiet-payments";
+const QUIET_PAYMENT_CATEGORY = "quiet-payment";
+const ANNOUNCE_ANYWAY_ACTION = "announce-anyway";
+
+let setupPromise: Promise<void> | null = null;
+
+const setUpNotifications = (): Promise<void> => {
+  if (!setupPromise) {
+    // Show our notifications while the app is open too
+    Notifications.setNotificationHandler({
+      handleNotification: async (notification) => {
+        const isQuiet =
+          notification.request.content.data?.type === QUIET_PAYMENT_CATEGORY;
+        return {
+          shouldShowAlert: true,
+          shouldPlaySound: !isQuiet,
+          shouldSetBadge: false,
+          priority: isQuiet
+            ? Notifications.AndroidNotificationPriority.LOW
+            : Notifications.AndroidNotificationPriority.MAX,
+        };
+      },
+    });
+
+    setupPromise = Promise.all([
+      ...(Platform.OS === "android"
+        ? [
+            Notifications.setNotificationChannelAsync(ANNOUNCEMENT_CHANNEL_ID, {
+              name: "Payment announcements",
+              description: "Payments that could not be spoken aloud",
+              importance: Notifications.AndroidImportance.HIGH,
+              vibrationPattern: PAYMENT_VIBRATION_PATTERN,
+              sound: "default",
+            }),
+            Notifications.setNotificationChannelAsync(
+              QUIET_PAYMENT_CHANNEL_ID,
+              {
+                name: "Payments outside announcement hours",
+                description: "Payments received while announcements are off",
+                importance: Notifications.AndroidImportance.LOW,
+                sound: null,
+              }
+            ),
+          ]
+        : []),
+      Notifications.setNotificationCategoryAsync(QUIET_PAYMENT_CATEGORY, [
+        {
+          identifier: ANNOUNCE_ANYWAY_ACTION,
+          buttonTitle: "Announce anyway",
+          options: { opensAppToForeground: true },
+        },
+      ]),
+    ]).then(() => undefined);
+
+    setupPromise.catch(() => {
+      setupPromise = null;
+    });
+  }
+  return setupPromise;
+};
+
+// Asks once; later calls only report whether notifications are allowed
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// Whether notifications are allowed, without asking
+const hasNotificationPermission = async (): Promise<boolean> =>
+  (await Notifications.getPermissionsAsync()).granted;
+
+// Post a heads-up notification with the announcement text. Resolves false
+// when notifications are not allowed.
+export const showAnnouncementNotification = async (
+  text: string
+): Promise<boolean> => {
+  await setUpNotifications();
+  if (!(await ensureNotificationPermission())) {
+    console.log("Notifications are not allowed, cannot post announcement");
+    return false;
+  }
+
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: "Noti-Fin",
+      body: text,
+      sound: "default",
+      priority: Notifications.AndroidNotificationPriority.MAX,
+    },
+    trigger:
+      Platform.OS === "android" ? { channelId: ANNOUNCEMENT_CHANNEL_ID } : null,
+  });
+  return true;
+};
+
+// Post a silent notification for a payment held back by the announcement
+// schedule, with an "Announce anyway" button. Also runs in the background
+// task, so permission is asked for when the schedule is set up instead.
+export const showQuietPaymentNotification = async (
+  text: string,
+  paymentId: number
+): Promise<boolean> => {
+  await setUpNotifications();
+  if (!(await hasNotificationPermission())) {
+    console.log("Notifications are not allowed, cannot post quiet payment");
+    return false;
+  }
+
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: "Payment received",
+      body: text,
+      data: { type: QUIET_PAYMENT_CATEGORY, paymentId },
+      categoryIdentifier: QUIET_PAYMENT_CATEGORY,
+      priority: Notifications.AndroidNotificationPriority.LOW,
+    },
+    trigger:
+      Platform.OS === "android"
+        ? { channelId: QUIET_PAYMENT_CHANNEL_ID }
+        : null,
+  });
+  return true;
+};
+
+// Responses already passed on, so the one that launched the app is handled
+// once even when the listener is added again
+const handledResponses = new Set<string>();
+
+const getAnnounceAnywayPaymentId = (
+  response: Notifications.NotificationResponse
+): number | null => {
+  if (response.actionIdentifier !== ANNOUNCE_ANYWAY_ACTION) return null;
+  const { paymentId } = response.notification.request.content.data ?? {};
+  return typeof paymentId === "number" ? paymentId : null;
+};
+
+/**
+ * Calls `listener` with the payment id when "Announce anyway" is pressed on
+ * a quiet payment notification, and dismisses that notification. A press
+ * that launched the app (before any listener existed) is picked up too.
+ */
+export const addAnnounceAnywayListener = (
+  listener: (paymentId: number) => void
+): { remove: () => void } => {
+  let isRemoved = false;
+
+  const handle = (response: Notifications.NotificationResponse) => {
+    const paymentId = getAnnounceAnywayPaymentId(response);
+    const { identifier } = response.notification.request;
+    if (paymentId === null || isRemoved || handledResponses.has(identifier)) {
+      return;
+    }
+    handledResponses.add(identifier);
+
+    Notifications.dismissNotificationAsync(identifier).catch((error) => {
+      console.error("Error dismissing quiet payment notification:", error);
+    });
+    listener(paymentId);
+  };
+
+  const subscription =
+    Notifications.addNotificationResponseReceivedListener(handle);
+  Notifications.getLastNotificationResponseAsync()
+    .then((response) => {
+      if (response) handle(response);
+    })
+    .catch((error) => {
+      console.error("Error reading the last notification response:", error);
+    });
+
+  return {
+    remove: () => {
+      isRemoved = true;
+      subscription.remove();
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from "react";
+import { MissedPaymentSettings } from "./MissedPayments";
+import {
+  getMissedPaymentSettings,
+  loadMissedPaymentSettings,
+  subscribeToMissedPaymentSettings,
+  updateMissedPaymentSettings,
+} from "./MissedPaymentStore";
+
+interface UseMissedPaymentSettingsReturn {
+  settings: MissedPaymentSettings;
+  setAnnounceSummary: (enabled: boolean) => Promise<void>;
+}
+
+// This hook exposes what happens to payments missed while the app was closed
+export default function useMissedPaymentSettings(): UseMissedPaymentSettingsReturn {
+  const [settings, setSettings] = useState<MissedPaymentSettings>(
+    getMissedPaymentSettings()
+  );
+
+  useEffect(() => {
+    const unsubscribe = subscribeToMissedPaymentSettings(setSettings);
+    loadMissedPaymentSettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error("Error loading missed payment settings:", error);
+      });
+    return unsubscribe;
+  }, []);
+
+  const setAnnounceSummary = useCallback(async (enabled: boolean) => {
+    await updateMissedPaymentSettings((current) => ({
+      ...current,
+      announceSummary: enabled,
+    }));
+  }, []);
+
+  return { settings, setAnnounceSummary };
+}
@@ -0,0 +1,16 @@
+import {
+  DEFAULT_MISSED_PAYMENT_SETTINGS,
+  MissedPaymentSettings,
+} from "./MissedPayments";
+import { createSettingStore } from "./SettingsStore";
+
+const missedPaymentStore = createSettingStore<MissedPaymentSettings>(
+  "missedPayments",
+  DEFAULT_MISSED_PAYMENT_SETTINGS
+);
+
+export const getMissedPaymentSettings = missedPaymentStore.get;
+export const loadMissedPaymentSettings = missedPaymentStore.load;
+export const saveMissedPaymentSettings = missedPaymentStore.save;
+export const updateMissedPaymentSettings = missedPaymentStore.update;
+export const subscribeToMissedPaymentSettings = missedPaymentStore.subscribe;
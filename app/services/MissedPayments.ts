@@ -0,0 +1,59 @@
+import { PostedNotification } from "./NotificationListener";
+import { PaymentEvent, parsePaymentNotification } from "./parsers";
+import { PaymentDeduplicator } from "./PaymentDeduplicator";
+
+export interface MissedPaymentSettings {
+  // Announce recent missed payments as one summary, or only mark them as
+  // missed in the history
+  announceSummary: boolean;
+}
+
+export const DEFAULT_MISSED_PAYMENT_SETTINGS: MissedPaymentSettings = {
+  announceSummary: true,
+};
+
+// Older payments are never announced, the customer has long gone
+export const MISSED_PAYMENT_MAX_AGE_MS = 30 * 60 * 1000;
+
+export interface CatchUpPlan {
+  announce: PaymentEvent[];
+  missed: PaymentEvent[];
+}
+
+/**
+ * Payments among notifications that were posted while the app wasn't
+ * listening (still in the tray or buffered by the native listener), oldest
+ * first. Payments already handled, live or by the background task, are
+ * filtered out by the deduplicator, which remembers the new ones.
+ */
+export const findMissedPayments = (
+  notifications: PostedNotification[],
+  deduplicator: PaymentDeduplicator
+): PaymentEvent[] => {
+  const payments = notifications
+    .map((notification) => parsePaymentNotification(notification))
+    .filter((payment): payment is PaymentEvent => payment !== null)
+    .sort((a, b) => a.receivedAt - b.receivedAt);
+
+  return payments.filter((payment) => {
+    if (deduplicator.check(payment).isDuplicate) return false;
+    deduplicator.remember(payment);
+    return true;
+  });
+};
+
+// Split missed payments into those worth announcing and those only recorded
+export const planCatchUp = (
+  payments: PaymentEvent[],
+  settings: MissedPaymentSettings,
+  now: number = Date.now()
+): CatchUpPlan => {
+  if (!settings.announceSummary) return { announce: [], missed: payments };
+
+  const isRecent = (payment: PaymentEvent) =>
+    now - payment.receivedAt <= MISSED_PAYMENT_MAX_AGE_MS;
+  return {
+    announce: payments.filter(isRecent),
+    missed: payments.filter((payment) => !isRecent(payment)),
+  };
+};
@@ -0,0 +1,92 @@
+import {
+  EmitterSubscription,
+  Linking,
+  NativeEventEmitter,
+  NativeModules,
+  Platform,
+} from "react-native";
+
+// Shape of the events emitted by PaymentNotificationListenerService
+export interface PostedNotification {
+  packageName: string;
+  title: string | null;
+  text: string | null;
+  bigText: string | null;
+  postTime: number;
+  key: string;
+}
+
+const NOTIFICATION_POSTED_EVENT = "notificationPosted";
+
+const { NotificationListener } = NativeModules;
+
+// The native listener only exists in Android builds that include our package
+export const isNotificationListenerAvailable =
+  Platform.OS === "android" && Boolean(NotificationListener);
+
+const emitter = isNotificationListenerAvailable
+  ? new NativeEventEmitter(NotificationListener)
+  : null;
+
+// Check whether the user enabled notification access for this app
+export const hasNotificationListenerAccess = async (): Promise<boolean> => {
+  if (!isNotificationListenerAvailable) return false;
+
+  try {
+    return Boolean(await NotificationListener.isPermissionGranted());
+  } catch (error) {
+    console.error("Error checking notification listener access:", error);
+    return false;
+  }
+};
+
+// Open the system "Notification access" screen
+export const openNotificationListenerSettings = async (): Promise<void> => {
+  try {
+    if (isNotificationListenerAvailable) {
+      await NotificationListener.openPermissionSettings();
+    } else {
+      await Linking.openSettings();
+    }
+  } catch (error) {
+    console.error("Failed to open notification access settings:", error);
+    await Linking.openSettings();
+  }
+};
+
+// Subscribe to every notification posted on the device
+export const addNotificationPostedListener = (
+  handler: (notification: PostedNotification) => void
+): EmitterSubscription | null => {
+  if (!emitter) return null;
+  return emitter.addListener(NOTIFICATION_POSTED_EVENT, handler);
+};
+
+// Notifications still shown in the system tray
+export const getActiveNotifications = async (): Promise<
+  PostedNotification[]
+> => {
+  if (!isNotificationListenerAvailable) return [];
+
+  try {
+    return (await NotificationListener.getActiveNotifications()) ?? [];
+  } catch (error) {
+    console.error("Error reading active notifications:", error);
+    return [];
+  }
+};
+
+// Notifications that arrived while the app wasn't listening. Each one is
+// only returned once.
+export const takeBufferedNotifications = async (): Promise<
+  PostedNotification[]
+> => {
+  if (!isNotificationListenerAvailable) return [];
+
+  try {
+    return (await NotificationListener.takeBufferedNotifications()) ?? [];
+  } catch (error) {
+    console.error("Error reading buffered notifications:", error);
+    return [];
+  }
+};
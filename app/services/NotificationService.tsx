@@ -1,4 +1,11 @@
-import { useEffect, useState, useCallback } from "react";
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useCallback,
+  useRef,
+} from "react";
 import {
   Platform,
   Alert,
@@ -8,21 +15,126 @@ import {
   PermissionsAndroid,
 } from "react-native";
 import useBluetoothService from "./BluetoothService";
+import {
+  PostedNotification,
+  addNotificationPostedListener,
+  getActiveNotifications,
+  hasNotificationListenerAccess,
+  isNotificationListenerAvailable,
+  openNotificationListenerSettings,
+  takeBufferedNotifications,
+} from "./NotificationListener";
+import {
+  PaymentEvent,
+  TransactionCategory,
+  formatVnd,
+  parseTransactionNotification,
+} from "./parsers";
+import {
+  DEMO_SOURCE_APP,
+  getPayment,
+  listPayments,
+  savePayment,
+  setPaymentAnnouncedVia,
+} from "./PaymentHistoryStore";
+import { createPaymentDeduplicator } from "./PaymentDeduplicator";
+import {
+  buildMissedPaymentsAnnouncement,
+  buildTransactionAnnouncement,
+} from "./AnnouncementBuilder";
+import {
+  getTemplateSettings,
+  loadTemplateSettings,
+} from "./AnnouncementTemplateStore";
+import { getSpeakersForPayment } from "./SpeakerRouting";
+import { getRoutingRules, loadRoutingRules } from "./SpeakerRoutingStore";
+import { findMissedPayments, planCatchUp } from "./MissedPayments";
+import { evaluateAmountRules, planPaymentAnnouncement } from "./AmountRules";
+import { getAmountRules, loadAmountRules } from "./AmountRulesStore";
+import { isWithinSchedule } from "./AnnouncementSchedule";
+import {
+  getAnnouncementSchedule,
+  loadAnnouncementSchedule,
+} from "./AnnouncementScheduleStore";
+import {
+  addAnnounceAnywayListener,
+  showQuietPaymentNotification,
+} from "./LocalNotifications";
+import { isCategoryAnnounced } from "./TransactionCategories";
+import {
+  getAnnouncedCategories,
+  loadAnnouncedCategories,
+} from "./TransactionCategoryStore";
+import {
+  getMissedPaymentSettings,
+  loadMissedPaymentSettings,
+} from "./MissedPaymentStore";
 
 interface NotificationServiceProps {
-  onPaymentReceived: (amount: string, sender: string) => void;
+  // Called for every payment once it has been announced (or missed)
+  onPaymentReceived?: (payment: PaymentEvent) => void;
 }
 
-// This hook provides notification handling for payment detection
-export default function useNotificationService({
-  onPaymentReceived,
-}: NotificationServiceProps) {
+interface UseNotificationReturn {
+  hasPermission: boolean;
+  requestPermissions: () => Promise<boolean>;
+  refreshListenerAccess: () => Promise<boolean>;
+  simulatePaymentNotification: () => void;
+  isDemoMode: boolean;
+  // Switching to live mode asks for notification access when it is missing
+  setDemoMode: (enabled: boolean) => Promise<void>;
+  // Speaks a saved payment that wasn't announced, e.g. outside the schedule
+  announcePaymentAnyway: (paymentId: number) => Promise<void>;
+}
+
+interface NotificationContextValue extends UseNotificationReturn {
+  addPaymentListener: (listener: (payment: PaymentEvent) => void) => () => void;
+}
+
+// The payment pipeline: one listener, one deduplicator, announcing through
+// the shared Bluetooth service. Provided by NotificationProvider.
+function useNotificationState(): NotificationContextValue {
   const [hasPermission, setHasPermission] = useState(false);
   const { speak, isSimulationMode } = useBluetoothService();
   const [appState, setAppState] = useState<AppStateStatus>(
     AppState.currentState
   );
   const [demoMode, setDemoMode] = useState(true);
+  const [awaitingListenerAccess, setAwaitingListenerAccess] = useState(false);
+  const deduplicator = useRef(createPaymentDeduplicator()).current;
+  // Sent money, top-ups etc. are kept apart so they never hide a payment
+  const transactionDeduplicator = useRef(createPaymentDeduplicator()).current;
+  const paymentListeners = useRef(
+    new Set<(payment: PaymentEvent) => void>()
+  ).current;
+
+  const onPaymentReceived = useCallback(
+    (payment: PaymentEvent) => {
+      paymentListeners.forEach((listener) => listener(payment));
+    },
+    [paymentListeners]
+  );
+
+  const addPaymentListener = useCallback(
+    (listener: (payment: PaymentEvent) => void) => {
+      paymentListeners.add(listener);
+      return () => {
+        paymentListeners.delete(listener);
+      };
+    },
+    [paymentListeners]
+  );
+
+  // Re-check the real notification listener access (e.g. after the user
+  // returns from the system settings)
+  const refreshListenerAccess = useCallback(async () => {
+    const granted = await hasNotificationListenerAccess();
+    if (granted) {
+      setHasPermission(true);
+      setDemoMode(false);
+    }
+    return granted;
+  }, []);
 
   // Request notification permissions - on Android we need to guide the user
   // to enable the notification listener service manually
@@ -66,11 +178,30 @@ export default function useNotificationService({
           return true;
         }
 
-        // For notification listening, we need to direct users to the system settings
-        // as this can't be requested programmatically
+        // Without the native listener we can only run the demo
+        if (!isNotificationListenerAvailable) {
+          setDemoMode(true);
+          setHasPermission(true);
+          Alert.alert(
+            "Notification Listener Unavailable",
+            "This build does not include the notification listener. Use the 'Demo Payment' button to simulate payment notifications."
+          );
+          return true;
+        }
+
+        // Notification access can't be requested programmatically, but we can
+        // check whether the user already enabled it
+        if (await hasNotificationListenerAccess()) {
+          setHasPermission(true);
+          setDemoMode(false);
+          return true;
+        }
+
+        // Direct users to the system settings. Access is checked again when
+        // the app comes back to the foreground.
         Alert.alert(
           "Notification Access Required",
-          "To detect MoMo payment notifications, this app needs access to your device's notifications. Please enable notification access in your device settings.",
+          "To detect payment notifications from your wallet and banking apps, this app needs access to your device's notifications. Please enable notification access in your device settings.",
           [
             {
               text: "Use Demo Mode",
@@ -78,35 +209,20 @@ export default function useNotificationService({
               onPress: () => {
                 setDemoMode(true);
                 setHasPermission(true);
-                return true;
               },
             },
             {
               text: "Open Settings",
               onPress: () => {
-                try {
-                  // This URI might vary between different Android versions/manufacturers
-                  Linking.openSettings();
-
-                  // We can't programmatically check if the user granted access,
-                  // but we'll assume they did for demonstration purposes
-                  setHasPermission(true);
-                  setDemoMode(false);
-                  return true;
-                } catch (error) {
-                  console.error("Failed to open settings:", error);
-                  setDemoMode(true);
-                  setHasPermission(true);
-                  return false;
-                }
+                setAwaitingListenerAccess(true);
+                openNotificationListenerSettings();
               },
             },
           ]
         );
 
-        // We're optimistically assuming the user will grant permission
-        setHasPermission(true);
-        return true;
+        setHasPermission(false);
+        return false;
       } catch (error) {
         console.error("Error requesting permissions:", error);
         setDemoMode(true);
@@ -127,10 +243,169 @@ export default function useNotificationService({
     }
   };
 
+  const switchDemoMode = async (enabled: boolean) => {
+    if (enabled) {
+      setDemoMode(true);
+      setHasPermission(true);
+      return;
+    }
+
+    if (isSimulationMode) {
+      Alert.alert(
+        "Simulation Mode Active",
+        "Turn off Bluetooth simulation mode to listen for real payments."
+      );
+      return;
+    }
+    if (await refreshListenerAccess()) return;
+    await requestPermissions();
+  };
+
+  // Announce a detected payment and then hand it to the caller
+  const announcePayment = useCallback(
+    (payment: PaymentEvent) => {
+      const sender = payment.sender || "unknown sender";
+      console.log(
+        `Payment received via ${payment.sourceApp}: ${payment.amount} VND from ${sender}`
+      );
+
+      // The amount rules decide whether and how the payment is announced,
+      // the schedule whether it is announced now
+      const planned = planPaymentAnnouncement(
+        payment,
+        getTemplateSettings(),
+        getAmountRules()
+      );
+      const schedule = getAnnouncementSchedule();
+      const isQuiet =
+        planned !== null && !isWithinSchedule(schedule, payment.receivedAt);
+
+      // Keep every detected payment so it survives app restarts
+      const saved = savePayment(payment, { quietHours: isQuiet }).catch(
+        (error) => {
+          console.error("Error saving payment to history:", error);
+          return null;
+        }
+      );
+
+      if (!planned) {
+        console.log(`Not announcing ${payment.amount} VND, below the minimum`);
+        saved.then(() => onPaymentReceived(payment));
+        return;
+      }
+
+      // Outside the schedule the payment is only logged, or shown as a silent
+      // notification that can still be announced
+      if (isQuiet) {
+        console.log(
+          `Not announcing ${payment.amount} VND, outside the announcement schedule`
+        );
+        saved.then(async (stored) => {
+          if (stored && schedule.outsideHours === "notify") {
+            await showQuietPaymentNotification(planned.text, stored.id).catch(
+              (error) => {
+                console.error(
+                  "Error posting quiet payment notification:",
+                  error
+                );
+              }
+            );
+          }
+          onPaymentReceived(payment);
+        });
+        return;
+      }
+
+      // Announce the message on the speakers routed for this payment, record
+      // how it was delivered and then trigger the callback
+      speak(planned.text, {
+        payment: {
+          amount: payment.amount,
+          sourceApp: payment.sourceApp,
+          chime: planned.chime ?? undefined,
+          standalone: planned.standalone,
+        },
+        speakers: getSpeakersForPayment(getRoutingRules(), payment),
+      })
+        .then(async (channel) => {
+          const stored = await saved;
+          if (stored) {
+            await setPaymentAnnouncedVia(stored.id, channel).catch((error) => {
+              console.error("Error recording the announcement channel:", error);
+            });
+          }
+          onPaymentReceived(payment);
+        })
+        .catch((error) => {
+          console.error("Error speaking notification:", error);
+          onPaymentReceived(payment);
+        });
+    },
+    [speak, onPaymentReceived]
+  );
+
+  // Speak a saved payment on request, whatever the schedule and minimum say.
+  // Throws when the payment can't be found or spoken.
+  const announcePaymentAnyway = useCallback(
+    async (paymentId: number) => {
+      const payment = await getPayment(paymentId);
+      if (!payment) throw new Error(`Payment ${paymentId} not found`);
+
+      const planned = planPaymentAnnouncement(payment, getTemplateSettings(), {
+        ...getAmountRules(),
+        minAmount: 0,
+      });
+      if (!planned) return;
+
+      const channel = await speak(planned.text, {
+        payment: {
+          amount: payment.amount,
+          sourceApp: payment.sourceApp,
+          chime: planned.chime ?? undefined,
+          standalone: planned.standalone,
+        },
+        speakers: getSpeakersForPayment(getRoutingRules(), payment),
+      });
+      await setPaymentAnnouncedVia(payment.id, channel);
+    },
+    [speak]
+  );
+
+  // Transactions other than payments received are logged, never saved, and
+  // only spoken when the user turned their category on
+  const handleOtherTransaction = useCallback(
+    (category: TransactionCategory, payment: PaymentEvent) => {
+      if (!isCategoryAnnounced(getAnnouncedCategories(), category)) {
+        console.log(
+          `Ignoring ${category} notification from ${payment.sourceApp}: ${payment.amount} VND`
+        );
+        return;
+      }
+      if (!isWithinSchedule(getAnnouncementSchedule(), payment.receivedAt)) {
+        console.log(
+          `Not announcing ${category} transaction, outside the announcement schedule`
+        );
+        return;
+      }
+
+      speak(
+        buildTransactionAnnouncement(
+          category,
+          payment.amount,
+          getTemplateSettings().language
+        ),
+        { speakers: getSpeakersForPayment(getRoutingRules(), payment) }
+      ).catch((error) => {
+        console.error("Error speaking transaction:", error);
+      });
+    },
+    [speak]
+  );
+
   // For demo purposes or when real implementation not available
   const simulatePaymentNotification = useCallback(() => {
     // Create a realistic demo payment
-    const amounts = ["50,000", "100,000", "25,000", "200,000", "75,000"];
+    const amounts = [50000, 100000, 25000, 200000, 75000];
     const senders = [
       "Demo User",
       "Test Account",
@@ -142,90 +417,225 @@ export default function useNotificationService({
     const amount = amounts[Math.floor(Math.random() * amounts.length)];
     const sender = senders[Math.floor(Math.random() * senders.length)];
 
-    // Announce the payment through the Bluetooth speaker
-    const message = `You have received ${amount} VND from ${sender}`;
-    console.log(`Payment received: ${amount} VND from ${sender}`);
-
-    // Speak the message and then trigger the callback
-    speak(message)
-      .then(() => {
-        onPaymentReceived(amount, sender);
-      })
-      .catch((error) => {
-        console.error("Error speaking notification:", error);
-        onPaymentReceived(amount, sender);
-      });
-  }, [speak, onPaymentReceived]);
+    announcePayment({
+      amount,
+      sender,
+      reference: null,
+      transactionId: null,
+      account: null,
+      sourceApp: DEMO_SOURCE_APP,
+      packageName: "com.notifin.app",
+      rawText: `You have received ${formatVnd(amount)} VND from ${sender}`,
+      receivedAt: Date.now(),
+      notificationKey: null,
+    });
+  }, [announcePayment]);
 
   // Process notifications that might be payment notifications
   const processNotification = useCallback(
-    (notification: any) => {
+    (notification: PostedNotification) => {
       try {
-        // In a real implementation, this would extract data from the actual notification
-        // to determine if it's a MoMo payment notification
-        const isMoMoNotification =
-          notification?.packageName === "com.mservice.momotransfer" || // Real MoMo package name
-          notification?.title?.includes("MoMo") ||
-          notification?.text?.includes("MoMo");
-
-        const isPaymentNotification =
-          notification?.text?.toLowerCase().includes("received") ||
-          notification?.text?.toLowerCase().includes("transfer") ||
-          notification?.text?.toLowerCase().includes("payment");
-
-        if (isMoMoNotification && isPaymentNotification) {
-          // Extract payment information from notification text
-          const extractAmount = (text: string) => {
-            const amountMatch = text.match(/(\d{1,3}(,\d{3})*(\.\d+)?) ?VND/i);
-            return amountMatch ? amountMatch[1] : "unknown amount";
-          };
-
-          const extractSender = (text: string) => {
-            const senderMatch = text.match(/from ([^\s]+)/i);
-            return senderMatch ? senderMatch[1] : "unknown sender";
-          };
-
-          const amount = extractAmount(notification.text);
-          const sender = extractSender(notification.text);
-
-          // Announce the payment
-          const message = `You have received ${amount} VND from ${sender}`;
-          speak(message)
-            .then(() => {
-              onPaymentReceived(amount, sender);
-            })
-            .catch((error) => {
-              console.error("Error speaking notification:", error);
-              onPaymentReceived(amount, sender);
-            });
+        // The parser registry decides whether this is a transaction from a
+        // supported wallet or banking app, and whether money was received
+        const transaction = parseTransactionNotification(notification);
+        if (!transaction) return;
+        const { category, payment } = transaction;
+
+        // Android re-posts and updates notifications, never announce twice
+        const seen =
+          category === "received" ? deduplicator : transactionDeduplicator;
+        const duplicate = seen.check(payment);
+        if (duplicate.isDuplicate) {
+          console.log(
+            `[Dedup] Suppressed duplicate ${payment.sourceApp} ${category} transaction of ${payment.amount} VND (${duplicate.reason}, key: ${payment.notificationKey})`
+          );
+          return;
+        }
+
+        seen.remember(payment);
+        if (category === "received") {
+          announcePayment(payment);
+        } else {
+          handleOtherTransaction(category, payment);
         }
       } catch (error) {
         console.error("Error processing notification:", error);
       }
     },
-    [speak, onPaymentReceived]
+    [
+      announcePayment,
+      handleOtherTransaction,
+      deduplicator,
+      transactionDeduplicator,
+    ]
   );
 
+  // Payments posted while the app wasn't listening: still in the tray or
+  // buffered by the native listener. Recent ones are announced as one
+  // summary, the rest only recorded as missed.
+  const catchUpMissedPayments = useCallback(async () => {
+    const notifications = [
+      ...(await takeBufferedNotifications()),
+      ...(await getActiveNotifications()),
+    ];
+    if (notifications.length === 0) return;
+
+    // The background task may have announced some of them in the meantime
+    const recent = await listPayments({
+      from: Date.now() - 24 * 60 * 60 * 1000,
+    }).catch(() => []);
+    deduplicator.seed(recent);
+
+    const payments = findMissedPayments(notifications, deduplicator);
+    if (payments.length === 0) return;
+
+    const { announce: candidates, missed } = planCatchUp(
+      payments,
+      getMissedPaymentSettings()
+    );
+    // Payments below the minimum amount are only recorded
+    const rules = getAmountRules();
+    const announce = candidates.filter(
+      (payment) => evaluateAmountRules(rules, payment.amount).announce
+    );
+    const ignored = candidates.filter((payment) => !announce.includes(payment));
+    // Outside the schedule the summary waits for a manual announcement too
+    const isQuiet = !isWithinSchedule(getAnnouncementSchedule(), Date.now());
+    console.log(
+      `Catching up on ${payments.length} missed payments (${
+        isQuiet ? 0 : announce.length
+      } announced)`
+    );
+
+    const save = (payment: PaymentEvent, quietHours = false) =>
+      savePayment(payment, { missed: true, quietHours }).catch((error) => {
+        console.error("Error saving missed payment:", error);
+        return null;
+      });
+
+    await Promise.all([...missed, ...ignored].map((payment) => save(payment)));
+    [...missed, ...ignored].forEach(onPaymentReceived);
+    if (announce.length === 0) return;
+
+    if (isQuiet) {
+      await Promise.all(announce.map((payment) => save(payment, true)));
+      announce.forEach(onPaymentReceived);
+      return;
+    }
+
+    const saved = await Promise.all(announce.map((payment) => save(payment)));
+    const channel = await speak(
+      buildMissedPaymentsAnnouncement(
+        announce.length,
+        announce.reduce((total, payment) => total + payment.amount, 0),
+        getTemplateSettings().language
+      )
+    ).catch((error) => {
+      console.error("Error announcing missed payments:", error);
+      return null;
+    });
+    await Promise.all(
+      saved.map((stored) =>
+        stored
+          ? setPaymentAnnouncedVia(stored.id, channel).catch((error) => {
+              console.error("Error recording the announcement channel:", error);
+            })
+          : null
+      )
+    );
+    announce.forEach(onPaymentReceived);
+  }, [deduplicator, speak, onPaymentReceived]);
+
+  const isListening =
+    Platform.OS === "android" &&
+    hasPermission &&
+    !demoMode &&
+    !isSimulationMode;
+
   // When the app comes back to foreground, check for missed notifications
   const handleAppStateChange = (nextAppState: AppStateStatus) => {
     if (appState.match(/inactive|background/) && nextAppState === "active") {
       console.log("App is now active, checking for missed notifications");
 
-      if (hasPermission && demoMode) {
-        // For demo purposes, occasionally simulate a missed notification
-        if (Math.random() > 0.7) {
-          setTimeout(() => simulatePaymentNotification(), 1500);
-        }
-      } else if (hasPermission && !demoMode) {
-        // In a real implementation with a native module, you'd check for missed notifications here
-        console.log(
-          "Would check for missed notifications in real implementation"
-        );
+      if (awaitingListenerAccess) {
+        setAwaitingListenerAccess(false);
+        refreshListenerAccess().then((granted) => {
+          if (!granted) {
+            Alert.alert(
+              "Notification Access Not Enabled",
+              "Noti-Fin still can't read notifications. You can keep using demo mode or enable access later."
+            );
+          }
+        });
+      }
+
+      // Demo payments can't be missed, there is nothing to catch up on
+      if (isListening) {
+        catchUpMissedPayments().catch((error) => {
+          console.error("Error catching up on missed payments:", error);
+        });
       }
     }
     setAppState(nextAppState);
   };
 
+  // Remember the last day of payments so a relaunch doesn't announce them again
+  useEffect(() => {
+    listPayments({ from: Date.now() - 24 * 60 * 60 * 1000 })
+      .then(deduplicator.seed)
+      .catch((error) => {
+        console.error("Error loading recent payments for dedup:", error);
+      });
+  }, [deduplicator]);
+
+  // Announcements use the user's saved templates and speaker routing
+  useEffect(() => {
+    loadTemplateSettings().catch((error) => {
+      console.error("Error loading announcement templates:", error);
+    });
+    loadRoutingRules().catch((error) => {
+      console.error("Error loading speaker routing:", error);
+    });
+    loadAmountRules().catch((error) => {
+      console.error("Error loading amount rules:", error);
+    });
+    loadMissedPaymentSettings().catch((error) => {
+      console.error("Error loading missed payment settings:", error);
+    });
+    loadAnnouncementSchedule().catch((error) => {
+      console.error("Error loading announcement schedule:", error);
+    });
+    loadAnnouncedCategories().catch((error) => {
+      console.error("Error loading announced categories:", error);
+    });
+  }, []);
+
+  // "Announce anyway" pressed on a quiet payment notification
+  useEffect(() => {
+    const subscription = addAnnounceAnywayListener((paymentId) => {
+      announcePaymentAnyway(paymentId).catch((error) => {
+        console.error("Error announcing held payment:", error);
+      });
+    });
+    return () => subscription.remove();
+  }, [announcePaymentAnyway]);
+
+  // A cold start is the most likely moment to have missed payments. Only
+  // when listening starts, not whenever the callback changes.
+  const catchUpMissedPaymentsRef = useRef(catchUpMissedPayments);
+  catchUpMissedPaymentsRef.current = catchUpMissedPayments;
+  useEffect(() => {
+    if (!isListening) return;
+    catchUpMissedPaymentsRef.current().catch((error) => {
+      console.error("Error catching up on missed payments:", error);
+    });
+  }, [isListening]);
+
+  // Pick up access that was granted in a previous session
+  useEffect(() => {
+    refreshListenerAccess();
+  }, [refreshListenerAccess]);
+
   useEffect(() => {
     // Set up AppState listener for detecting app foregrounding
     const subscription = AppState.addEventListener(
@@ -233,31 +643,75 @@ export default function useNotificationService({
       handleAppStateChange
     );
 
-    // For real notification listening, you'd set up a native module listener here
-    if (
-      Platform.OS === "android" &&
-      hasPermission &&
-      !demoMode &&
-      !isSimulationMode
-    ) {
-      console.log("Would set up notification listener in real implementation");
+    // Feed real notifications into the payment pipeline
+    let notificationSubscription: { remove: () => void } | null = null;
+    if (isListening) {
+      console.log("Setting up notification listener");
+      notificationSubscription =
+        addNotificationPostedListener(processNotification);
     }
 
     return () => {
       subscription.remove();
+      notificationSubscription?.remove();
     };
   }, [
     appState,
-    hasPermission,
+    awaitingListenerAccess,
+    isListening,
     processNotification,
-    demoMode,
-    isSimulationMode,
+    catchUpMissedPayments,
   ]);
 
   return {
     hasPermission,
     requestPermissions,
+    refreshListenerAccess,
     simulatePaymentNotification,
     isDemoMode: demoMode,
+    setDemoMode: switchDemoMode,
+    announcePaymentAnyway,
+    addPaymentListener,
   };
 }
+
+const NotificationContext = createContext<NotificationContextValue | null>(
+  null
+);
+
+// Mounted once in the root layout, inside BluetoothProvider
+export function NotificationProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const notifications = useNotificationState();
+  return (
+    <NotificationContext.Provider value={notifications}>
+      {children}
+    </NotificationContext.Provider>
+  );
+}
+
+// This hook provides notification handling for payment detection
+export default function useNotificationService({
+  onPaymentReceived,
+}: NotificationServiceProps = {}): UseNotificationReturn {
+  const notifications = useContext(NotificationContext);
+  if (!notifications) {
+    throw new Error(
+      "useNotificationService must be used inside NotificationProvider"
+    );
+  }
+
+  // Follow the latest callback without re-subscribing on every render
+  const callbackRef = useRef(onPaymentReceived);
+  callbackRef.current = onPaymentReceived;
+  const { addPaymentListener } = notifications;
+  useEffect(
+    () => addPaymentListener((payment) => callbackRef.current?.(payment)),
+    [addPaymentListener]
+  );
+
+  return notifications;
+}
@@ -0,0 +1,146 @@
+import { PaymentEvent } from "./parsers";
+
+export type DuplicateReason =
+  "notificationKey" | "transactionId" | "amountSenderWindow";
+
+export interface DuplicateCheckResult {
+  isDuplicate: boolean;
+  reason?: DuplicateReason;
+  // The previously seen payment this one duplicates
+  original?: PaymentEvent;
+}
+
+export interface PaymentDeduplicatorOptions {
+  // Same amount and sender within this window is treated as a re-post
+  windowMs?: number;
+  // An updated notification (same key, same amount) within this window is a re-post
+  notificationKeyWindowMs?: number;
+  // How long payments are remembered at all
+  retentionMs?: number;
+  maxEntries?: number;
+}
+
+export interface PaymentDeduplicator {
+  check: (payment: PaymentEvent) => DuplicateCheckResult;
+  remember: (payment: PaymentEvent) => void;
+  // Remember payments from a previous session (e.g. the stored history)
+  seed: (payments: PaymentEvent[]) => void;
+  reset: () => void;
+}
+
+const DEFAULT_OPTIONS: Required<PaymentDeduplicatorOptions> = {
+  windowMs: 60 * 1000,
+  // Apps reuse one notification id for every payment, so a key only means a
+  // re-post for as long as the amount-and-sender window
+  notificationKeyWindowMs: 60 * 1000,
+  retentionMs: 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+};
+
+const normalizeSender = (sender: string) => sender.trim().toLowerCase();
+
+// Bank notifications name no sender, so two customers paying the same amount
+// only look alike when the whole text (with its time and balance) matches
+const isSameSender = (a: PaymentEvent, b: PaymentEvent): boolean =>
+  a.sender && b.sender
+    ? normalizeSender(a.sender) === normalizeSender(b.sender)
+    : a.rawText === b.rawText;
+
+// Identifies one stored payment, whether it came from the history or was
+// remembered live
+const paymentKey = (payment: PaymentEvent): string =>
+  [payment.sourceApp, payment.receivedAt, payment.amount, payment.rawText].join(
+    "\n"
+  );
+
+/**
+ * Android re-posts and updates notifications (group summaries, edits, the
+ * wallet app restarting), so the same payment can reach the pipeline several
+ * times. A payment is a duplicate of one seen before when it has the same
+ * transaction id, or within a short window the same notification key and
+ * amount, or the same amount and sender from the same app.
+ */
+export const createPaymentDeduplicator = (
+  options: PaymentDeduplicatorOptions = {}
+): PaymentDeduplicator => {
+  const { windowMs, notificationKeyWindowMs, retentionMs, maxEntries } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+  let recentPayments: PaymentEvent[] = [];
+
+  // Drop payments older than the retention period, measured from the newest
+  const prune = () => {
+    const newest = Math.max(
+      ...recentPayments.map((payment) => payment.receivedAt)
+    );
+    recentPayments = recentPayments
+      .filter((payment) => newest - payment.receivedAt <= retentionMs)
+      .slice(-maxEntries);
+  };
+
+  const check = (payment: PaymentEvent): DuplicateCheckResult => {
+    for (const seen of recentPayments) {
+      const elapsed = Math.abs(payment.receivedAt - seen.receivedAt);
+
+      if (
+        payment.transactionId &&
+        seen.transactionId === payment.transactionId &&
+        seen.sourceApp === payment.sourceApp
+      ) {
+        return { isDuplicate: true, reason: "transactionId", original: seen };
+      }
+
+      if (
+        payment.notificationKey &&
+        seen.notificationKey === payment.notificationKey &&
+        seen.amount === payment.amount &&
+        elapsed <= notificationKeyWindowMs
+      ) {
+        return {
+          isDuplicate: true,
+          reason: "notificationKey",
+          original: seen,
+        };
+      }
+
+      if (
+        seen.sourceApp === payment.sourceApp &&
+        seen.amount === payment.amount &&
+        isSameSender(seen, payment) &&
+        elapsed <= windowMs
+      ) {
+        return {
+          isDuplicate: true,
+          reason: "amountSenderWindow",
+          original: seen,
+        };
+      }
+    }
+
+    return { isDuplicate: false };
+  };
+
+  const remember = (payment: PaymentEvent) => {
+    recentPayments.push(payment);
+    prune();
+  };
+
+  // Seeding the same history again (e.g. on every resume) adds nothing
+  const seed = (payments: PaymentEvent[]) => {
+    const known = new Set(recentPayments.map(paymentKey));
+    const unseen = payments.filter(
+      (payment) => !known.has(paymentKey(payment))
+    );
+    recentPayments = [...unseen, ...recentPayments].sort(
+      (a, b) => a.receivedAt - b.receivedAt
+    );
+    prune();
+  };
+
+  const reset = () => {
+    recentPayments = [];
+  };
+
+  return { check, remember, seed, reset };
+};
@@ -0,0 +1,111 @@
+import { PaymentEvent, getSourceAppName } from "./parsers";
+
+export type PaymentExportFormat = "csv" | "json";
+
+interface ExportColumn {
+  // PaymentEvent field the column is read from, also the JSON key
+  field: keyof PaymentEvent;
+  header: string;
+}
+
+// Columns of the export, in spreadsheet order
+export const PAYMENT_EXPORT_COLUMNS: ExportColumn[] = [
+  { field: "receivedAt", header: "Time" },
+  { field: "amount", header: "Amount (VND)" },
+  { field: "sender", header: "Sender" },
+  { field: "reference", header: "Reference" },
+  { field: "account", header: "Account" },
+  { field: "transactionId", header: "Transaction ID" },
+  { field: "sourceApp", header: "App" },
+  { field: "packageName", header: "Package" },
+  { field: "rawText", header: "Notification Text" },
+];
+
+// Byte order mark so Excel opens the file as UTF-8 (Vietnamese names)
+const UTF8_BOM = "\uFEFF";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "2026-10-19 14:05:09" in local time, which spreadsheets parse as a date
+export const formatExportTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}`;
+};
+
+const formatDate = (timestamp: number): string =>
+  formatExportTime(timestamp).slice(0, 10);
+
+const getCellValue = (
+  payment: PaymentEvent,
+  field: keyof PaymentEvent
+): string | number => {
+  switch (field) {
+    case "receivedAt":
+      return formatExportTime(payment.receivedAt);
+    case "sourceApp":
+      return getSourceAppName(payment.sourceApp);
+    default:
+      return payment[field] ?? "";
+  }
+};
+
+// Quote text when needed and keep spreadsheets from running it as a formula
+const escapeCsvCell = (value: string | number): string => {
+  if (typeof value === "number") return String(value);
+
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Oldest payment first, the way a day is read in a spreadsheet
+const sortForExport = <T extends PaymentEvent>(payments: T[]): T[] =>
+  [...payments].sort((a, b) => a.receivedAt - b.receivedAt);
+
+/**
+ * CSV with a header row and one line per payment, UTF-8 with BOM and CRLF
+ * line endings as expected by Excel.
+ */
+export const paymentsToCsv = (payments: PaymentEvent[]): string => {
+  const header = PAYMENT_EXPORT_COLUMNS.map((column) =>
+    escapeCsvCell(column.header)
+  ).join(",");
+  const rows = sortForExport(payments).map((payment) =>
+    PAYMENT_EXPORT_COLUMNS.map((column) =>
+      escapeCsvCell(getCellValue(payment, column.field))
+    ).join(",")
+  );
+  return UTF8_BOM + [header, ...rows].join("\r\n") + "\r\n";
+};
+
+// The same columns keyed by field name, times as ISO 8601 and app ids as is
+export const paymentsToJson = (payments: PaymentEvent[]): string =>
+  JSON.stringify(
+    sortForExport(payments).map((payment) =>
+      Object.fromEntries(
+        PAYMENT_EXPORT_COLUMNS.map(({ field }) => [
+          field,
+          field === "receivedAt"
+            ? new Date(payment.receivedAt).toISOString()
+            : payment[field],
+        ])
+      )
+    ),
+    null,
+    2
+  );
+
+// "noti-fin-payments-2026-10-13_2026-10-19.csv", one date for a single day
+export const getExportFileName = (
+  format: PaymentExportFormat,
+  range: { from?: number; to?: number },
+  now: number
+): string => {
+  const from = range.from !== undefined ? formatDate(range.from) : "all";
+  const to = formatDate(range.to ?? now);
+  const dates = from === to ? from : `${from}_${to}`;
+  return `noti-fin-payments-${dates}.${format}`;
+};
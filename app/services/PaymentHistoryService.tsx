@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from "react";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  PaymentHistoryFilter,
+  StoredPayment,
+  deletePayment as deleteStoredPayment,
+  deletePayments as deleteStoredPayments,
+  listPayments,
+  subscribeToPaymentHistory,
+} from "./PaymentHistoryStore";
+import {
+  PaymentExportFormat,
+  getExportFileName,
+  paymentsToCsv,
+  paymentsToJson,
+} from "./PaymentExport";
+
+const EXPORT_MIME_TYPES: Record<PaymentExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+};
+
+interface UsePaymentHistoryReturn {
+  payments: StoredPayment[];
+  filter: PaymentHistoryFilter;
+  isLoading: boolean;
+  // Number of payments and total VND for the current filter
+  totalCount: number;
+  totalAmount: number;
+  setFilter: (filter: PaymentHistoryFilter) => void;
+  refresh: () => Promise<void>;
+  deletePayment: (id: number) => Promise<void>;
+  deleteAllPayments: () => Promise<void>;
+  // Shares the payments matching the current filter as a file, demo
+  // payments left out
+  exportPayments: (format: PaymentExportFormat) => Promise<void>;
+}
+
+// This hook exposes the persisted payment history, kept in sync with new payments
+export default function usePaymentHistoryService(
+  initialFilter: PaymentHistoryFilter = {}
+): UsePaymentHistoryReturn {
+  const [payments, setPayments] = useState<StoredPayment[]>([]);
+  const [filter, setFilter] = useState<PaymentHistoryFilter>(initialFilter);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setPayments(await listPayments(filter));
+    } catch (error) {
+      console.error("Error loading payment history:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter]);
+
+  // Reload whenever the filter changes or a payment is saved or deleted
+  useEffect(() => {
+    refresh();
+    return subscribeToPaymentHistory(refresh);
+  }, [refresh]);
+
+  const deletePayment = useCallback(async (id: number) => {
+    try {
+      await deleteStoredPayment(id);
+    } catch (error) {
+      console.error("Error deleting payment:", error);
+    }
+  }, []);
+
+  // Deletes only the payments matching the current filter
+  const deleteAllPayments = useCallback(async () => {
+    try {
+      await deleteStoredPayments(filter);
+    } catch (error) {
+      console.error("Error deleting payments:", error);
+    }
+  }, [filter]);
+
+  // Throws when the file can't be written or shared
+  const exportPayments = useCallback(
+    async (format: PaymentExportFormat) => {
+      const exported = await listPayments({ ...filter, excludeDemo: true });
+      const uri = `${FileSystem.cacheDirectory}${getExportFileName(
+        format,
+        filter,
+        Date.now()
+      )}`;
+      await FileSystem.writeAsStringAsync(
+        uri,
+        format === "csv" ? paymentsToCsv(exported) : paymentsToJson(exported)
+      );
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing is not available on this device");
+      }
+      await Sharing.shareAsync(uri, {
+        mimeType: EXPORT_MIME_TYPES[format],
+        dialogTitle: "Export payments",
+      });
+    },
+    [filter]
+  );
+
+  return {
+    payments,
+    filter,
+    isLoading,
+    totalCount: payments.length,
+    totalAmount: payments.reduce((sum, payment) => sum + payment.amount, 0),
+    setFilter,
+    refresh,
+    deletePayment,
+    deleteAllPayments,
+    exportPayments,
+  };
+}
@@ -0,0 +1,266 @@
+import * as SQLite from "expo-sqlite";
+import { AnnouncementChannel } from "./AnnouncementFallback";
+import { PaymentEvent } from "./parsers";
+
+// A PaymentEvent as stored in the local payment history
+export interface StoredPayment extends PaymentEvent {
+  id: number;
+  // How the payment was announced, null until then or when nothing could
+  announcedVia: AnnouncementChannel | null;
+  // Arrived while the app wasn't listening and was only caught up on later
+  missed: boolean;
+  // Arrived outside the announcement schedule and was held back
+  quietHours: boolean;
+}
+
+// Source app of the payments made up by the demo button
+export const DEMO_SOURCE_APP = "demo";
+
+export interface PaymentHistoryFilter {
+  // Inclusive range of `receivedAt` timestamps (ms)
+  from?: number;
+  to?: number;
+  // Parser ids, e.g. ["momo", "vietcombank"]
+  sourceApps?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+  // Leave out demo payments, which are no real sales
+  excludeDemo?: boolean;
+}
+
+interface PaymentRow {
+  id: number;
+  amount: number;
+  sender: string | null;
+  reference: string | null;
+  transaction_id: string | null;
+  account: string | null;
+  source_app: string;
+  package_name: string;
+  raw_text: string;
+  received_at: number;
+  notification_key: string | null;
+  announced_via: AnnouncementChannel | null;
+  missed: number;
+  quiet_hours: number;
+}
+
+const DATABASE_NAME = "payments.db";
+
+// Each entry upgrades the schema by one version (tracked in PRAGMA user_version)
+const MIGRATIONS = [
+  `CREATE TABLE IF NOT EXISTS payments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    amount INTEGER NOT NULL,
+    sender TEXT,
+    reference TEXT,
+    transaction_id TEXT,
+    source_app TEXT NOT NULL,
+    package_name TEXT NOT NULL,
+    raw_text TEXT NOT NULL,
+    received_at INTEGER NOT NULL,
+    notification_key TEXT
+  );
+  CREATE INDEX IF NOT EXISTS payments_received_at ON payments (received_at);
+  CREATE INDEX IF NOT EXISTS payments_source_app ON payments (source_app);`,
+  `ALTER TABLE payments ADD COLUMN announced_via TEXT;`,
+  `ALTER TABLE payments ADD COLUMN account TEXT;`,
+  `ALTER TABLE payments ADD COLUMN missed INTEGER NOT NULL DEFAULT 0;`,
+  `ALTER TABLE payments ADD COLUMN quiet_hours INTEGER NOT NULL DEFAULT 0;`,
+];
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const migrate = async (database: SQLite.SQLiteDatabase) => {
+  const result = await database.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version"
+  );
+  const currentVersion = result?.user_version ?? 0;
+
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    console.log(`Migrating payment history to version ${version + 1}`);
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(MIGRATIONS[version]);
+      await database.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+  }
+};
+
+// Open the database once and share it between all callers
+const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = SQLite.openDatabaseAsync(DATABASE_NAME)
+      .then(async (database) => {
+        await migrate(database);
+        return database;
+      })
+      .catch((error) => {
+        databasePromise = null;
+        throw error;
+      });
+  }
+  return databasePromise;
+};
+
+const toStoredPayment = (row: PaymentRow): StoredPayment => ({
+  id: row.id,
+  amount: row.amount,
+  sender: row.sender,
+  reference: row.reference,
+  transactionId: row.transaction_id,
+  account: row.account,
+  sourceApp: row.source_app,
+  packageName: row.package_name,
+  rawText: row.raw_text,
+  receivedAt: row.received_at,
+  notificationKey: row.notification_key,
+  announcedVia: row.announced_via,
+  missed: row.missed === 1,
+  quietHours: row.quiet_hours === 1,
+});
+
+// Turn a filter into a WHERE clause with positional parameters
+export const buildFilterClause = (
+  filter: PaymentHistoryFilter = {}
+): { where: string; params: (string | number)[] } => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.from !== undefined) {
+    conditions.push("received_at >= ?");
+    params.push(filter.from);
+  }
+  if (filter.to !== undefined) {
+    conditions.push("received_at <= ?");
+    params.push(filter.to);
+  }
+  if (filter.sourceApps && filter.sourceApps.length > 0) {
+    conditions.push(
+      `source_app IN (${filter.sourceApps.map(() => "?").join(", ")})`
+    );
+    params.push(...filter.sourceApps);
+  }
+  if (filter.minAmount !== undefined) {
+    conditions.push("amount >= ?");
+    params.push(filter.minAmount);
+  }
+  if (filter.maxAmount !== undefined) {
+    conditions.push("amount <= ?");
+    params.push(filter.maxAmount);
+  }
+  if (filter.excludeDemo) {
+    conditions.push("source_app != ?");
+    params.push(DEMO_SOURCE_APP);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+};
+
+// Listeners notified whenever the history changes
+const changeListeners = new Set<() => void>();
+
+const notifyChange = () => {
+  changeListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error("Payment history listener failed:", error);
+    }
+  });
+};
+
+export const subscribeToPaymentHistory = (listener: () => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+export const savePayment = async (
+  payment: PaymentEvent,
+  {
+    missed = false,
+    quietHours = false,
+  }: { missed?: boolean; quietHours?: boolean } = {}
+): Promise<StoredPayment> => {
+  const database = await getDatabase();
+  const result = await database.runAsync(
+    `INSERT INTO payments (amount, sender, reference, transaction_id, account, source_app, package_name, raw_text, received_at, notification_key, missed, quiet_hours)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    payment.amount,
+    payment.sender,
+    payment.reference,
+    payment.transactionId,
+    payment.account,
+    payment.sourceApp,
+    payment.packageName,
+    payment.rawText,
+    payment.receivedAt,
+    payment.notificationKey,
+    missed ? 1 : 0,
+    quietHours ? 1 : 0
+  );
+
+  notifyChange();
+  return {
+    ...payment,
+    id: result.lastInsertRowId,
+    announcedVia: null,
+    missed,
+    quietHours,
+  };
+};
+
+export const setPaymentAnnouncedVia = async (
+  id: number,
+  channel: AnnouncementChannel | null
+): Promise<void> => {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE payments SET announced_via = ? WHERE id = ?",
+    channel,
+    id
+  );
+  notifyChange();
+};
+
+// Newest payments first
+export const listPayments = async (
+  filter?: PaymentHistoryFilter
+): Promise<StoredPayment[]> => {
+  const database = await getDatabase();
+  const { where, params } = buildFilterClause(filter);
+  const rows = await database.getAllAsync<PaymentRow>(
+    `SELECT * FROM payments ${where} ORDER BY received_at DESC, id DESC`,
+    params
+  );
+  return rows.map(toStoredPayment);
+};
+
+export const getPayment = async (id: number): Promise<StoredPayment | null> => {
+  const database = await getDatabase();
+  const row = await database.getFirstAsync<PaymentRow>(
+    "SELECT * FROM payments WHERE id = ?",
+    id
+  );
+  return row ? toStoredPayment(row) : null;
+};
+
+export const deletePayment = async (id: number): Promise<void> => {
+  const database = await getDatabase();
+  await database.runAsync("DELETE FROM payments WHERE id = ?", id);
+  notifyChange();
+};
+
+// Delete every payment matching the filter (all payments without one)
+export const deletePayments = async (
+  filter?: PaymentHistoryFilter
+): Promise<void> => {
+  const database = await getDatabase();
+  const { where, params } = buildFilterClause(filter);
+  await database.runAsync(`DELETE FROM payments ${where}`, params);
+  notifyChange();
+};
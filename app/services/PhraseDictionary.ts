@@ -0,0 +1,94 @@
+// English phrases spoken in Vietnamese. A phrase is only translated when it is
+// the whole message, so "payment received from Hello Shop" is spoken as typed
+// instead of being replaced by the translation of "hello".
+
+export type PhraseDictionary = Record<string, string>;
+
+export const DEFAULT_PHRASES: PhraseDictionary = {
+  hello: "Xin chào",
+  "thank you": "Cảm ơn bạn",
+  goodbye: "Tạm biệt",
+  welcome: "Chào mừng",
+  "how are you": "Bạn khỏe không",
+  "good morning": "Chào buổi sáng",
+  "good afternoon": "Chào buổi chiều",
+  "good evening": "Chào buổi tối",
+  please: "Làm ơn",
+  sorry: "Xin lỗi",
+  "what is your name": "Tên bạn là gì",
+  "my name is": "Tên tôi là",
+  "nice to meet you": "Rất vui được gặp bạn",
+  "payment successful": "Thanh toán thành công",
+  "payment received": "Đã nhận thanh toán",
+};
+
+// Dictionary key for a phrase: lower case, single spaces, no trailing
+// punctuation ("Thank you!" -> "thank you")
+export const normalizePhrase = (phrase: string): string =>
+  phrase
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.!?,;:]+$/, "")
+    .trim();
+
+// The translation when the whole message is a known phrase, otherwise null
+export const translatePhrase = (
+  message: string,
+  dictionary: PhraseDictionary
+): string | null => dictionary[normalizePhrase(message)] ?? null;
+
+export const setPhrase = (
+  dictionary: PhraseDictionary,
+  english: string,
+  vietnamese: string
+): PhraseDictionary => ({
+  ...dictionary,
+  [normalizePhrase(english)]: vietnamese.trim(),
+});
+
+export const removePhrase = (
+  dictionary: PhraseDictionary,
+  english: string
+): PhraseDictionary => {
+  const { [normalizePhrase(english)]: _removed, ...rest } = dictionary;
+  return rest;
+};
+
+export const exportPhrasesToJson = (dictionary: PhraseDictionary): string =>
+  JSON.stringify(
+    Object.fromEntries(
+      Object.entries(dictionary).sort(([a], [b]) => a.localeCompare(b))
+    ),
+    null,
+    2
+  );
+
+/**
+ * Reads an exported dictionary: a JSON object of English -> Vietnamese
+ * strings. Throws when the file isn't one, so a bad import never replaces the
+ * user's phrases.
+ */
+export const parsePhrasesJson = (json: string): PhraseDictionary => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Expected an object of English to Vietnamese phrases");
+  }
+
+  let dictionary: PhraseDictionary = {};
+  for (const [english, vietnamese] of Object.entries(data)) {
+    if (typeof vietnamese !== "string") {
+      throw new Error(`The translation for "${english}" is not text`);
+    }
+    if (!normalizePhrase(english) || !vietnamese.trim()) continue;
+    dictionary = setPhrase(dictionary, english, vietnamese);
+  }
+  return dictionary;
+};
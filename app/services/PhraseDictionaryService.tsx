@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  DEFAULT_PHRASES,
+  PhraseDictionary,
+  exportPhrasesToJson,
+  normalizePhrase,
+  parsePhrasesJson,
+  removePhrase,
+  setPhrase,
+} from "./PhraseDictionary";
+import {
+  getPhraseDictionary,
+  loadPhraseDictionary,
+  savePhraseDictionary,
+  subscribeToPhraseDictionary,
+  updatePhraseDictionary,
+} from "./PhraseDictionaryStore";
+
+export interface PhraseEntry {
+  english: string;
+  vietnamese: string;
+}
+
+interface UsePhraseDictionaryReturn {
+  phrases: PhraseEntry[];
+  // previousEnglish renames an existing phrase
+  savePhrase: (
+    english: string,
+    vietnamese: string,
+    previousEnglish?: string
+  ) => Promise<void>;
+  deletePhrase: (english: string) => Promise<void>;
+  resetPhrases: () => Promise<void>;
+  // Resolves with the number of imported phrases, or null when cancelled
+  importPhrases: (replace: boolean) => Promise<number | null>;
+  exportPhrases: () => Promise<void>;
+}
+
+// This hook exposes the persistent English -> Vietnamese phrase dictionary
+export default function usePhraseDictionary(): UsePhraseDictionaryReturn {
+  const [dictionary, setDictionary] = useState<PhraseDictionary>(
+    getPhraseDictionary()
+  );
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPhraseDictionary(setDictionary);
+    loadPhraseDictionary().catch((error) => {
+      console.error("Error loading phrase dictionary:", error);
+    });
+    return unsubscribe;
+  }, []);
+
+  const phrases = useMemo(
+    () =>
+      Object.entries(dictionary)
+        .map(([english, vietnamese]) => ({ english, vietnamese }))
+        .sort((a, b) => a.english.localeCompare(b.english)),
+    [dictionary]
+  );
+
+  const savePhrase = useCallback(
+    async (english: string, vietnamese: string, previousEnglish?: string) => {
+      await updatePhraseDictionary((current) => {
+        const updated =
+          previousEnglish &&
+          normalizePhrase(previousEnglish) !== normalizePhrase(english)
+            ? removePhrase(current, previousEnglish)
+            : current;
+        return setPhrase(updated, english, vietnamese);
+      });
+    },
+    []
+  );
+
+  const deletePhrase = useCallback(async (english: string) => {
+    await updatePhraseDictionary((current) => removePhrase(current, english));
+  }, []);
+
+  const resetPhrases = useCallback(async () => {
+    await savePhraseDictionary(DEFAULT_PHRASES);
+  }, []);
+
+  // Throws when the picked file is not a phrase dictionary
+  const importPhrases = useCallback(async (replace: boolean) => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ["application/json", "text/plain"],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) return null;
+
+    const imported = parsePhrasesJson(
+      await FileSystem.readAsStringAsync(result.assets[0].uri)
+    );
+    await updatePhraseDictionary((current) =>
+      replace ? imported : { ...current, ...imported }
+    );
+    return Object.keys(imported).length;
+  }, []);
+
+  const exportPhrases = useCallback(async () => {
+    const uri = `${FileSystem.cacheDirectory}noti-fin-phrases.json`;
+    await FileSystem.writeAsStringAsync(
+      uri,
+      exportPhrasesToJson(getPhraseDictionary())
+    );
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error("Sharing is not available on this device");
+    }
+    await Sharing.shareAsync(uri, {
+      mimeType: "application/json",
+      dialogTitle: "Export phrases",
+    });
+  }, []);
+
+  return {
+    phrases,
+    savePhrase,
+    deletePhrase,
+    resetPhrases,
+    importPhrases,
+    exportPhrases,
+  };
+}
@@ -0,0 +1,14 @@
+import { DEFAULT_PHRASES, PhraseDictionary } from "./PhraseDictionary";
+import { createSettingStore } from "./SettingsStore";
+
+// The whole dictionary is stored, so deleted default phrases stay deleted
+const phraseStore = createSettingStore<PhraseDictionary>(
+  "phraseDictionary",
+  DEFAULT_PHRASES
+);
+
+export const getPhraseDictionary = phraseStore.get;
+export const loadPhraseDictionary = phraseStore.load;
+export const savePhraseDictionary = phraseStore.save;
+export const updatePhraseDictionary = phraseStore.update;
+export const subscribeToPhraseDictionary = phraseStore.subscribe;
@@ -0,0 +1,165 @@
+import { PaymentEvent } from "./parsers";
+
+export interface Shift {
+  name: string;
+  // Minutes after midnight; a shift ending before it starts runs overnight
+  start: number;
+  end: number;
+}
+
+export interface SalesSummarySettings {
+  shifts: Shift[];
+  // Speak the day's totals at recapTime (minutes after midnight)
+  recapEnabled: boolean;
+  recapTime: number;
+}
+
+export const DEFAULT_SALES_SUMMARY_SETTINGS: SalesSummarySettings = {
+  shifts: [
+    { name: "Morning", start: 6 * 60, end: 14 * 60 },
+    { name: "Evening", start: 14 * 60, end: 22 * 60 },
+  ],
+  recapEnabled: false,
+  recapTime: 22 * 60,
+};
+
+// A recap missed by more than this (app closed at closing time) is skipped
+export const RECAP_GRACE_MS = 30 * 60 * 1000;
+
+export interface WalletTotal {
+  sourceApp: string;
+  count: number;
+  totalAmount: number;
+}
+
+export interface SalesSummary<T extends PaymentEvent = PaymentEvent> {
+  count: number;
+  totalAmount: number;
+  largest: T | null;
+  // Highest total first
+  byWallet: WalletTotal[];
+}
+
+export interface TimeRange {
+  // Inclusive receivedAt timestamps (ms)
+  from: number;
+  to: number;
+}
+
+export const summarizePayments = <T extends PaymentEvent>(
+  payments: T[]
+): SalesSummary<T> => {
+  const wallets = new Map<string, WalletTotal>();
+  let largest: T | null = null;
+  let totalAmount = 0;
+
+  payments.forEach((payment) => {
+    totalAmount += payment.amount;
+    if (!largest || payment.amount > largest.amount) largest = payment;
+
+    const wallet = wallets.get(payment.sourceApp) ?? {
+      sourceApp: payment.sourceApp,
+      count: 0,
+      totalAmount: 0,
+    };
+    wallet.count++;
+    wallet.totalAmount += payment.amount;
+    wallets.set(payment.sourceApp, wallet);
+  });
+
+  return {
+    count: payments.length,
+    totalAmount,
+    largest,
+    byWallet: [...wallets.values()].sort(
+      (a, b) => b.totalAmount - a.totalAmount || b.count - a.count
+    ),
+  };
+};
+
+// Local time `minutes` after the midnight starting `dayStart`
+const atMinutes = (dayStart: number, minutes: number): number => {
+  const date = new Date(dayStart);
+  date.setHours(0, minutes, 0, 0);
+  return date.getTime();
+};
+
+export const getDayStart = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Local midnight `days` days after the day of `timestamp`
+export const addDays = (timestamp: number, days: number): number => {
+  const date = new Date(getDayStart(timestamp));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const getDayRange = (timestamp: number): TimeRange => ({
+  from: getDayStart(timestamp),
+  to: addDays(timestamp, 1) - 1,
+});
+
+// The shift that starts on the day of `timestamp`
+export const getShiftRange = (shift: Shift, timestamp: number): TimeRange => {
+  const dayStart = getDayStart(timestamp);
+  const endDay = shift.end > shift.start ? dayStart : addDays(dayStart, 1);
+  return {
+    from: atMinutes(dayStart, shift.start),
+    to: atMinutes(endDay, shift.end) - 1,
+  };
+};
+
+// "06:30" -> 390, null for anything that isn't a time of day
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2})[:h.](\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatTimeOfDay = (minutes: number): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}`;
+};
+
+// Adds a shift, keeping them ordered by start time
+export const addShift = (
+  settings: SalesSummarySettings,
+  shift: Shift
+): SalesSummarySettings => ({
+  ...settings,
+  shifts: [...settings.shifts, shift].sort((a, b) => a.start - b.start),
+});
+
+export const removeShift = (
+  settings: SalesSummarySettings,
+  index: number
+): SalesSummarySettings => ({
+  ...settings,
+  shifts: settings.shifts.filter((_shift, i) => i !== index),
+});
+
+/**
+ * Whether the closing recap should be spoken now: today's recap time has
+ * passed, by less than RECAP_GRACE_MS, and it wasn't spoken since.
+ */
+export const isRecapDue = (
+  settings: SalesSummarySettings,
+  lastRecapAt: number | null,
+  now: number
+): boolean => {
+  if (!settings.recapEnabled) return false;
+
+  const scheduled = atMinutes(getDayStart(now), settings.recapTime);
+  return (
+    now >= scheduled &&
+    now - scheduled < RECAP_GRACE_MS &&
+    (lastRecapAt ?? 0) < scheduled
+  );
+};
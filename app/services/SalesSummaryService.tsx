@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import usePaymentHistoryService from "./PaymentHistoryService";
+import { StoredPayment, listPayments } from "./PaymentHistoryStore";
+import useBluetoothService from "./BluetoothService";
+import { buildDailyRecapAnnouncement } from "./AnnouncementBuilder";
+import { getTemplateSettings } from "./AnnouncementTemplateStore";
+import {
+  SalesSummary,
+  SalesSummarySettings,
+  Shift,
+  TimeRange,
+  addShift as addShiftToSettings,
+  getDayRange,
+  getShiftRange,
+  isRecapDue,
+  removeShift,
+  summarizePayments,
+} from "./SalesSummary";
+import {
+  getSalesSummarySettings,
+  loadSalesSummarySettings,
+  subscribeToSalesSummarySettings,
+  updateSalesSummarySettings,
+} from "./SalesSummaryStore";
+import { loadSetting, saveSetting } from "./SettingsStore";
+
+// When the closing recap was last spoken, so it's spoken once per day
+const LAST_RECAP_KEY = "lastDailyRecapAt";
+const RECAP_CHECK_INTERVAL = 30 * 1000;
+
+interface UseSalesSummaryReturn {
+  // The shift's hours on that day, or the whole day
+  range: TimeRange;
+  summary: SalesSummary<StoredPayment>;
+  isLoading: boolean;
+  settings: SalesSummarySettings;
+  setRecapEnabled: (enabled: boolean) => Promise<void>;
+  setRecapTime: (minutes: number) => Promise<void>;
+  addShift: (shift: Shift) => Promise<void>;
+  deleteShift: (index: number) => Promise<void>;
+}
+
+// This hook exposes the sales totals for a day, or one shift of it, and the
+// shift and recap settings
+export default function useSalesSummary(
+  day: number,
+  shiftIndex: number | null = null
+): UseSalesSummaryReturn {
+  const [settings, setSettings] = useState<SalesSummarySettings>(
+    getSalesSummarySettings()
+  );
+
+  const shift = shiftIndex !== null ? settings.shifts[shiftIndex] : undefined;
+  const range = useMemo(
+    () => (shift ? getShiftRange(shift, day) : getDayRange(day)),
+    [shift, day]
+  );
+  const { payments, isLoading, setFilter } = usePaymentHistoryService({
+    ...range,
+    excludeDemo: true,
+  });
+
+  useEffect(() => {
+    setFilter({ from: range.from, to: range.to, excludeDemo: true });
+  }, [range.from, range.to, setFilter]);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSalesSummarySettings(setSettings);
+    loadSalesSummarySettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error("Error loading sales summary settings:", error);
+      });
+    return unsubscribe;
+  }, []);
+
+  const summary = useMemo(() => summarizePayments(payments), [payments]);
+
+  const setRecapEnabled = useCallback(async (enabled: boolean) => {
+    await updateSalesSummarySettings((current) => ({
+      ...current,
+      recapEnabled: enabled,
+    }));
+  }, []);
+
+  const setRecapTime = useCallback(async (minutes: number) => {
+    await updateSalesSummarySettings((current) => ({
+      ...current,
+      recapTime: ((minutes % 1440) + 1440) % 1440,
+    }));
+  }, []);
+
+  const addShift = useCallback(async (shift: Shift) => {
+    await updateSalesSummarySettings((current) =>
+      addShiftToSettings(current, shift)
+    );
+  }, []);
+
+  const deleteShift = useCallback(async (index: number) => {
+    await updateSalesSummarySettings((current) => removeShift(current, index));
+  }, []);
+
+  return {
+    range,
+    summary,
+    isLoading,
+    settings,
+    setRecapEnabled,
+    setRecapTime,
+    addShift,
+    deleteShift,
+  };
+}
+
+/**
+ * Speaks the day's totals at the configured closing time while the app is
+ * running. Rendered once inside the providers in app/_layout.tsx.
+ */
+export function DailyRecapScheduler(): null {
+  const { speak } = useBluetoothService();
+
+  useEffect(() => {
+    let isChecking = false;
+
+    const check = async () => {
+      if (isChecking) return;
+      isChecking = true;
+      try {
+        await loadSalesSummarySettings();
+        const lastRecapAt = await loadSetting<number | null>(
+          LAST_RECAP_KEY,
+          null
+        );
+        const now = Date.now();
+        if (!isRecapDue(getSalesSummarySettings(), lastRecapAt, now)) return;
+
+        await saveSetting(LAST_RECAP_KEY, now);
+        const { count, totalAmount } = summarizePayments(
+          await listPayments({ ...getDayRange(now), excludeDemo: true })
+        );
+        console.log(
+          `Speaking the daily recap: ${count} payments, ${totalAmount} VND`
+        );
+        await speak(
+          buildDailyRecapAnnouncement(
+            count,
+            totalAmount,
+            getTemplateSettings().language
+          )
+        );
+      } catch (error) {
+        console.error("Error speaking the daily recap:", error);
+      } finally {
+        isChecking = false;
+      }
+    };
+
+    check();
+    const interval = setInterval(check, RECAP_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [speak]);
+
+  return null;
+}
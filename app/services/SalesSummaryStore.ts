@@ -0,0 +1,17 @@
+import {
+  DEFAULT_SALES_SUMMARY_SETTINGS,
+  SalesSummarySettings,
+} from "./SalesSummary";
+import { createSettingStore } from "./SettingsStore";
+
+const salesSummaryStore = createSettingStore<SalesSummarySettings>(
+  "salesSummary",
+  DEFAULT_SALES_SUMMARY_SETTINGS,
+  (defaults, stored) => ({ ...defaults, ...stored })
+);
+
+export const getSalesSummarySettings = salesSummaryStore.get;
+export const loadSalesSummarySettings = salesSummaryStore.load;
+export const saveSalesSummarySettings = salesSummaryStore.save;
+export const updateSalesSummarySettings = salesSummaryStore.update;
+export const subscribeToSalesSummarySettings = salesSummaryStore.subscribe;
@@ -0,0 +1,89 @@
+import Storage from "expo-sqlite/kv-store";
+
+// JSON values persisted in the expo-sqlite key-value store
+
+export const loadSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const value = await Storage.getItemAsync(key);
+    return value === null ? fallback : (JSON.parse(value) as T);
+  } catch (error) {
+    console.error(`Error loading setting "${key}":`, error);
+    return fallback;
+  }
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+  try {
+    await Storage.setItemAsync(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving setting "${key}":`, error);
+  }
+};
+
+export interface SettingStore<T> {
+  // Last loaded or saved value (the defaults until load() has finished)
+  get: () => T;
+  load: () => Promise<T>;
+  save: (value: T) => Promise<void>;
+  // Save a change to the stored value, never to the defaults shown before
+  // load() has finished
+  update: (change: (value: T) => T) => Promise<void>;
+  subscribe: (listener: (value: T) => void) => () => void;
+}
+
+/**
+ * A persisted setting cached in memory and shared by every hook instance, so
+ * the announcement pipeline always uses what a settings screen saved last.
+ * `merge` combines the stored value with the defaults (e.g. to fill in fields
+ * added by a newer app version).
+ */
+export const createSettingStore = <T>(
+  key: string,
+  defaults: T,
+  merge: (defaults: T, stored: T) => T = (_defaults, stored) => stored
+): SettingStore<T> => {
+  let current = defaults;
+  let loadPromise: Promise<T> | null = null;
+  const listeners = new Set<(value: T) => void>();
+
+  const notify = () => {
+    listeners.forEach((listener) => listener(current));
+  };
+
+  const load = () => {
+    if (!loadPromise) {
+      loadPromise = loadSetting<T | null>(key, null).then((stored) => {
+        current = stored === null ? defaults : merge(defaults, stored);
+        notify();
+        return current;
+      });
+    }
+    return loadPromise;
+  };
+
+  const write = async (value: T) => {
+    current = value;
+    notify();
+    await saveSetting(key, value);
+  };
+
+  // Both wait for the initial load, which would otherwise overwrite the value
+  const save = async (value: T) => {
+    await load();
+    await write(value);
+  };
+
+  const update = async (change: (value: T) => T) => {
+    await load();
+    await write(change(current));
+  };
+
+  const subscribe = (listener: (value: T) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { get: () => current, load, save, update, subscribe };
+};
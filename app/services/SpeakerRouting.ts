@@ -0,0 +1,51 @@
+import { PaymentEvent } from "./parsers";
+
+// Sends matching payments to specific speakers, e.g. the account of the
+// second counter to the speaker at that counter
+export interface SpeakerRoutingRule {
+  id: string;
+  // Parser id of the wallet or bank, any app when null
+  sourceApp: string | null;
+  // Digits the receiving account ends with, any account when null
+  account: string | null;
+  // Addresses of the speakers that announce matching payments
+  speakers: string[];
+}
+
+type RoutedPayment = Pick<PaymentEvent, "sourceApp" | "account">;
+
+const digitsOf = (value: string): string => value.replace(/\D/g, "");
+
+// Account numbers are often masked ("x6789"), so only trailing digits count
+export const matchesRoutingRule = (
+  rule: SpeakerRoutingRule,
+  payment: RoutedPayment
+): boolean => {
+  if (rule.sourceApp && rule.sourceApp !== payment.sourceApp) return false;
+  if (!rule.account) return true;
+
+  const wanted = digitsOf(rule.account);
+  const account = payment.account ? digitsOf(payment.account) : "";
+  if (!wanted || !account) return false;
+  return account.endsWith(wanted) || wanted.endsWith(account);
+};
+
+/**
+ * Speakers for a payment: those of the first matching rule, or undefined to
+ * announce on every connected speaker when no rule matches.
+ */
+export const getSpeakersForPayment = (
+  rules: SpeakerRoutingRule[],
+  payment: RoutedPayment
+): string[] | undefined =>
+  rules.find(
+    (rule) => rule.speakers.length > 0 && matchesRoutingRule(rule, payment)
+  )?.speakers;
+
+export const createRoutingRule = (
+  fields: Omit<SpeakerRoutingRule, "id">
+): SpeakerRoutingRule => ({
+  ...fields,
+  account: fields.account?.trim() || null,
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+});
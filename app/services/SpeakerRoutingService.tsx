@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from "react";
+import { SpeakerRoutingRule, createRoutingRule } from "./SpeakerRouting";
+import {
+  getRoutingRules,
+  loadRoutingRules,
+  subscribeToRoutingRules,
+  updateRoutingRules,
+} from "./SpeakerRoutingStore";
+import { BluetoothDevice } from "./bluetooth";
+import {
+  getTargetSpeakers,
+  loadTargetSpeakers,
+  subscribeToTargetSpeakers,
+} from "./bluetooth/targetSpeakers";
+
+interface UseSpeakerRoutingReturn {
+  rules: SpeakerRoutingRule[];
+  // Speakers that rules can send payments to
+  speakers: BluetoothDevice[];
+  addRule: (fields: Omit<SpeakerRoutingRule, "id">) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+  // Rules are checked in order, the first match wins
+  moveRule: (id: string, direction: -1 | 1) => Promise<void>;
+}
+
+// This hook exposes the rules that send payments to specific speakers
+export default function useSpeakerRouting(): UseSpeakerRoutingReturn {
+  const [rules, setRules] = useState<SpeakerRoutingRule[]>(getRoutingRules());
+  const [speakers, setSpeakers] =
+    useState<BluetoothDevice[]>(getTargetSpeakers());
+
+  useEffect(() => {
+    const unsubscribeRules = subscribeToRoutingRules(setRules);
+    const unsubscribeSpeakers = subscribeToTargetSpeakers(setSpeakers);
+    loadRoutingRules()
+      .then(setRules)
+      .catch((error) => {
+        console.error("Error loading speaker routing:", error);
+      });
+    loadTargetSpeakers()
+      .then(setSpeakers)
+      .catch((error) => {
+        console.error("Error loading target speakers:", error);
+      });
+    return () => {
+      unsubscribeRules();
+      unsubscribeSpeakers();
+    };
+  }, []);
+
+  const addRule = useCallback(
+    async (fields: Omit<SpeakerRoutingRule, "id">) => {
+      await updateRoutingRules((current) => [
+        ...current,
+        createRoutingRule(fields),
+      ]);
+    },
+    []
+  );
+
+  const deleteRule = useCallback(async (id: string) => {
+    await updateRoutingRules((current) =>
+      current.filter((rule) => rule.id !== id)
+    );
+  }, []);
+
+  const moveRule = useCallback(async (id: string, direction: -1 | 1) => {
+    await updateRoutingRules((current) => {
+      const index = current.findIndex((rule) => rule.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= current.length) {
+        return current;
+      }
+
+      const moved = [...current];
+      [moved[index], moved[target]] = [moved[target], moved[index]];
+      return moved;
+    });
+  }, []);
+
+  return { rules, speakers, addRule, deleteRule, moveRule };
+}
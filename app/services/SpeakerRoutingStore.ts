@@ -0,0 +1,13 @@
+import { SpeakerRoutingRule } from "./SpeakerRouting";
+import { createSettingStore } from "./SettingsStore";
+
+const routingStore = createSettingStore<SpeakerRoutingRule[]>(
+  "speakerRouting",
+  []
+);
+
+export const getRoutingRules = routingStore.get;
+export const loadRoutingRules = routingStore.load;
+export const saveRoutingRules = routingStore.save;
+export const updateRoutingRules = routingStore.update;
+export const subscribeToRoutingRules = routingStore.subscribe;
@@ -0,0 +1,193 @@
+import { EmitterSubscription, NativeModules } from "react-native";
+import Tts from "react-native-tts";
+import { AnnouncementLanguage, getTtsLanguage } from "./AnnouncementTemplates";
+import { TtsSettings, TtsVoice } from "./TtsSettings";
+
+// Create a mock TTS implementation for when native TTS fails
+const MockTts = {
+  voices: () =>
+    Promise.resolve([{ language: "vi-VN", name: "Vietnamese (Mock)" }]),
+  getInitStatus: () => Promise.resolve("success"),
+  setDefaultLanguage: () => Promise.resolve(),
+  setDefaultRate: () => Promise.resolve(),
+  setDefaultPitch: () => Promise.resolve(),
+  setDefaultVoice: () => Promise.resolve(),
+  addEventListener: () => {},
+  removeEventListener: () => {},
+  speak: (text: string) => {
+    console.log(`[Mock TTS] Speaking: "${text}"`);
+    return Promise.resolve();
+  },
+  stop: () => Promise.resolve(),
+  isSpeaking: () => Promise.resolve(false),
+};
+
+// Detect if TTS is available and pick the appropriate implementation
+const detectTts = (): typeof Tts | typeof MockTts => {
+  try {
+    if (
+      typeof Tts === "undefined" ||
+      Tts === null ||
+      !NativeModules.TextToSpeech
+    ) {
+      console.log("Native TTS not available, using mock implementation");
+      return MockTts;
+    }
+    console.log("Native TTS is available");
+    return Tts;
+  } catch (error) {
+    console.error("Error during TTS detection:", error);
+    return MockTts;
+  }
+};
+
+// The TTS implementation shared by the app and the background task
+export const ActiveTts = detectTts();
+
+export const isNativeTts = ActiveTts === Tts;
+
+// Volume is not an engine default but a parameter of every utterance
+let speechVolume = 1;
+
+const getSpeakOptions = () =>
+  ({
+    androidParams: {
+      KEY_PARAM_STREAM: "STREAM_MUSIC",
+      KEY_PARAM_VOLUME: speechVolume,
+      KEY_PARAM_PAN: 0,
+    },
+  }) as Parameters<typeof Tts.speak>[1];
+
+// Helper function to safely speak text
+const safeSpeak = async (text: string): Promise<void> => {
+  try {
+    // Use the active TTS implementation
+    const result = ActiveTts.speak(text);
+    if (result && typeof result === "object" && "then" in result) {
+      await result;
+    }
+    return Promise.resolve();
+  } catch (error) {
+    console.error("Error in safeSpeak:", error);
+    return Promise.reject(error);
+  }
+};
+
+// Rough upper bound for how long the engine needs to speak a text
+const estimateSpeechDuration = (text: string): number =>
+  Math.min(30000, 3000 + text.length * 150);
+
+// Speak text and resolve once the engine reports that it finished, was
+// cancelled or failed, so announcements never talk over each other
+export const speakToCompletion = (text: string): Promise<void> => {
+  if (!isNativeTts) {
+    return safeSpeak(text);
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    let utteranceId: string | number | null = null;
+    const subscriptions: EmitterSubscription[] = [];
+
+    const cleanUp = () => {
+      clearTimeout(timeout);
+      subscriptions.forEach((subscription) => subscription.remove());
+    };
+
+    const finish = () => {
+      cleanUp();
+      resolve();
+    };
+
+    // Events may arrive before the utterance id is known, accept those too
+    const onSpeechEnd = (event: { utteranceId: string | number }) => {
+      if (
+        utteranceId === null ||
+        String(event.utteranceId) === String(utteranceId)
+      ) {
+        finish();
+      }
+    };
+
+    const timeout = setTimeout(() => {
+      console.log("TTS did not report completion, continuing");
+      finish();
+    }, estimateSpeechDuration(text));
+
+    // addEventListener is typed as returning nothing, but only wraps the
+    // emitter's addListener, which returns the subscription
+    (["tts-finish", "tts-cancel", "tts-error"] as const).forEach((type) => {
+      subscriptions.push(Tts.addListener(type, onSpeechEnd));
+    });
+
+    try {
+      Promise.resolve(Tts.speak(text, getSpeakOptions()))
+        .then((id) => {
+          utteranceId = id;
+        })
+        .catch((error) => {
+          cleanUp();
+          reject(error);
+        });
+    } catch (error) {
+      cleanUp();
+      reject(error);
+    }
+  });
+};
+
+/**
+ * Apply the user's voice settings for an announcement language: the language,
+ * the voice picked for it (if any), rate, pitch and volume.
+ */
+export const applyTtsSettings = async (
+  settings: TtsSettings,
+  language: AnnouncementLanguage
+): Promise<void> => {
+  await ActiveTts.setDefaultLanguage(getTtsLanguage(language)).catch((err) => {
+    console.log("Failed to set TTS language:", err);
+  });
+
+  const voiceId = settings.voices[language];
+  if (voiceId) {
+    await ActiveTts.setDefaultVoice(voiceId).catch((err) => {
+      console.log(`Failed to set TTS voice ${voiceId}:`, err);
+    });
+  }
+
+  await ActiveTts.setDefaultRate(settings.rate).catch(() => null);
+  await ActiveTts.setDefaultPitch(settings.pitch).catch(() => null);
+  speechVolume = settings.volume;
+};
+
+// Minimal engine setup for when the app UI is not running (background task)
+export const prepareTts = async (
+  settings: TtsSettings,
+  language: AnnouncementLanguage
+): Promise<void> => {
+  await ActiveTts.getInitStatus().catch((err) => {
+    console.log("TTS init status error, continuing anyway:", err);
+  });
+  await applyTtsSettings(settings, language);
+};
+
+// Voices of the engine, empty when they can't be listed in time
+export const getVoices = async (timeoutMs = 3000): Promise<TtsVoice[]> => {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<TtsVoice[]>((resolve) => {
+    timeout = setTimeout(() => {
+      console.log("Voice detection timed out");
+      resolve([]);
+    }, timeoutMs);
+  });
+
+  const voices = ActiveTts.voices()
+    .then((result) => (result || []) as TtsVoice[])
+    .catch((err: Error) => {
+      console.log("Error getting voices:", err);
+      return [];
+    });
+
+  const result = await Promise.race([voices, timedOut]);
+  clearTimeout(timeout);
+  return result;
+};
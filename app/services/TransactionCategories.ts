@@ -0,0 +1,27 @@
+import { TransactionCategory } from "./parsers";
+
+// Out of the box only money received is announced, see parsers/classifier.ts
+export const DEFAULT_ANNOUNCED_CATEGORIES: TransactionCategory[] = ["received"];
+
+// Categories the user can choose to hear as well. OTP messages are never
+// read aloud, whatever the settings say.
+export const OPTIONAL_ANNOUNCED_CATEGORIES: TransactionCategory[] = [
+  "sent",
+  "topup",
+  "promo",
+  "other",
+];
+
+export const isCategoryAnnounced = (
+  announced: TransactionCategory[],
+  category: TransactionCategory
+): boolean => category !== "otp" && announced.includes(category);
+
+export const setCategoryAnnounced = (
+  announced: TransactionCategory[],
+  category: TransactionCategory,
+  enabled: boolean
+): TransactionCategory[] =>
+  enabled
+    ? [...announced.filter((item) => item !== category), category]
+    : announced.filter((item) => item !== category);
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from "react";
+import { TransactionCategory } from "./parsers";
+import { setCategoryAnnounced as setAnnounced } from "./TransactionCategories";
+import {
+  getAnnouncedCategories,
+  loadAnnouncedCategories,
+  subscribeToAnnouncedCategories,
+  updateAnnouncedCategories,
+} from "./TransactionCategoryStore";
+
+interface UseAnnouncedCategoriesReturn {
+  categories: TransactionCategory[];
+  setCategoryAnnounced: (
+    category: TransactionCategory,
+    enabled: boolean
+  ) => Promise<void>;
+}
+
+// This hook exposes which kinds of transaction notifications are announced
+export default function useAnnouncedCategories(): UseAnnouncedCategoriesReturn {
+  const [categories, setCategories] = useState<TransactionCategory[]>(
+    getAnnouncedCategories()
+  );
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAnnouncedCategories(setCategories);
+    loadAnnouncedCategories()
+      .then(setCategories)
+      .catch((error) => {
+        console.error("Error loading announced categories:", error);
+      });
+    return unsubscribe;
+  }, []);
+
+  const setCategoryAnnounced = useCallback(
+    async (category: TransactionCategory, enabled: boolean) => {
+      await updateAnnouncedCategories((current) =>
+        setAnnounced(current, category, enabled)
+      );
+    },
+    []
+  );
+
+  return { categories, setCategoryAnnounced };
+}
@@ -0,0 +1,15 @@
+import { TransactionCategory } from "./parsers";
+import { DEFAULT_ANNOUNCED_CATEGORIES } from "./TransactionCategories";
+import { createSettingStore } from "./SettingsStore";
+
+const announcedCategoriesStore = createSettingStore<TransactionCategory[]>(
+  "announcedCategories",
+  DEFAULT_ANNOUNCED_CATEGORIES
+);
+
+export const getAnnouncedCategories = announcedCategoriesStore.get;
+export const loadAnnouncedCategories = announcedCategoriesStore.load;
+export const saveAnnouncedCategories = announcedCategoriesStore.save;
+export const updateAnnouncedCategories = announcedCategoriesStore.update;
+export const subscribeToAnnouncedCategories =
+  announcedCategoriesStore.subscribe;
@@ -0,0 +1,92 @@
+import { AnnouncementLanguage } from "./AnnouncementTemplates";
+
+export interface TtsSettings {
+  // Voice id per announcement language, the engine's default when missing
+  voices: Partial<Record<AnnouncementLanguage, string>>;
+  // Speech rate as passed to Tts.setDefaultRate (0.5 is normal speed)
+  rate: number;
+  pitch: number;
+  // Relative to the media volume, 0 to 1
+  volume: number;
+}
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  voices: {},
+  rate: 0.5,
+  pitch: 1.0,
+  volume: 1.0,
+};
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const TTS_RATE_RANGE: SettingRange = { min: 0.1, max: 1.0, step: 0.05 };
+export const TTS_PITCH_RANGE: SettingRange = { min: 0.5, max: 2.0, step: 0.1 };
+export const TTS_VOLUME_RANGE: SettingRange = { min: 0.1, max: 1.0, step: 0.1 };
+
+// Keep a value inside its range, rounded to the step (avoids 0.30000000004)
+export const clampSetting = (value: number, range: SettingRange): number => {
+  const stepped = Math.round(value / range.step) * range.step;
+  const clamped = Math.min(range.max, Math.max(range.min, stepped));
+  return Math.round(clamped * 100) / 100;
+};
+
+// Fill in fields added later and repair out-of-range values
+export const normalizeTtsSettings = (
+  stored: Partial<TtsSettings>
+): TtsSettings => ({
+  voices: { ...stored.voices },
+  rate: clampSetting(stored.rate ?? DEFAULT_TTS_SETTINGS.rate, TTS_RATE_RANGE),
+  pitch: clampSetting(
+    stored.pitch ?? DEFAULT_TTS_SETTINGS.pitch,
+    TTS_PITCH_RANGE
+  ),
+  volume: clampSetting(
+    stored.volume ?? DEFAULT_TTS_SETTINGS.volume,
+    TTS_VOLUME_RANGE
+  ),
+});
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  language: string;
+  quality?: number;
+  notInstalled?: boolean;
+  networkConnectionRequired?: boolean;
+}
+
+/**
+ * Installed voices for a TTS language ("vi-VN" also matches "vi_VN" and
+ * "vi"), offline and high quality voices first.
+ */
+export const filterVoicesByLanguage = (
+  voices: TtsVoice[],
+  ttsLanguage: string
+): TtsVoice[] => {
+  const wanted = ttsLanguage.toLowerCase().split(/[-_]/)[0];
+  return voices
+    .filter(
+      (voice) =>
+        !voice.notInstalled &&
+        voice.language.toLowerCase().split(/[-_]/)[0] === wanted
+    )
+    .sort(
+      (a, b) =>
+        Number(Boolean(a.networkConnectionRequired)) -
+          Number(Boolean(b.networkConnectionRequired)) ||
+        (b.quality ?? 0) - (a.quality ?? 0) ||
+        a.name.localeCompare(b.name)
+    );
+};
+
+// "vi-vn-x-gft-local (vi-VN)", or "Default voice" when none is chosen
+export const describeVoice = (voice: TtsVoice | undefined): string =>
+  voice
+    ? `${voice.name} (${voice.language})${
+        voice.networkConnectionRequired ? " · online" : ""
+      }`
+    : "Default voice";
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { AnnouncementLanguage, getTtsLanguage } from "./AnnouncementTemplates";
+import {
+  getTemplateSettings,
+  loadTemplateSettings,
+  subscribeToTemplateSettings,
+} from "./AnnouncementTemplateStore";
+import {
+  DEFAULT_TTS_SETTINGS,
+  TTS_PITCH_RANGE,
+  TTS_RATE_RANGE,
+  TTS_VOLUME_RANGE,
+  TtsSettings,
+  TtsVoice,
+  clampSetting,
+  filterVoicesByLanguage,
+} from "./TtsSettings";
+import {
+  getTtsSettings,
+  loadTtsSettings,
+  subscribeToTtsSettings,
+  updateTtsSettings,
+} from "./TtsSettingsStore";
+import { getVoices } from "./Speech";
+
+interface UseTtsSettingsReturn {
+  settings: TtsSettings;
+  // Language the announcements are spoken in (set on the template screen)
+  language: AnnouncementLanguage;
+  // Installed voices for that language
+  voices: TtsVoice[];
+  isLoadingVoices: boolean;
+  reloadVoices: () => Promise<void>;
+  // null goes back to the engine's default voice
+  setVoice: (voiceId: string | null) => Promise<void>;
+  setRate: (rate: number) => Promise<void>;
+  setPitch: (pitch: number) => Promise<void>;
+  setVolume: (volume: number) => Promise<void>;
+  resetSettings: () => Promise<void>;
+}
+
+// This hook exposes the voice, rate, pitch and volume used for announcements
+export default function useTtsSettings(): UseTtsSettingsReturn {
+  const [settings, setSettings] = useState<TtsSettings>(getTtsSettings());
+  const [language, setLanguage] = useState<AnnouncementLanguage>(
+    getTemplateSettings().language
+  );
+  const [allVoices, setAllVoices] = useState<TtsVoice[]>([]);
+  const [isLoadingVoices, setIsLoadingVoices] = useState<boolean>(false);
+
+  useEffect(() => {
+    const unsubscribeTts = subscribeToTtsSettings(setSettings);
+    const unsubscribeTemplates = subscribeToTemplateSettings((template) =>
+      setLanguage(template.language)
+    );
+    loadTtsSettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error("Error loading voice settings:", error);
+      });
+    loadTemplateSettings()
+      .then((template) => setLanguage(template.language))
+      .catch((error) => {
+        console.error("Error loading announcement templates:", error);
+      });
+    return () => {
+      unsubscribeTts();
+      unsubscribeTemplates();
+    };
+  }, []);
+
+  const reloadVoices = useCallback(async () => {
+    setIsLoadingVoices(true);
+    try {
+      setAllVoices(await getVoices());
+    } finally {
+      setIsLoadingVoices(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reloadVoices();
+  }, [reloadVoices]);
+
+  const voices = useMemo(
+    () => filterVoicesByLanguage(allVoices, getTtsLanguage(language)),
+    [allVoices, language]
+  );
+
+  const setVoice = useCallback(
+    async (voiceId: string | null) => {
+      await updateTtsSettings((current) => {
+        const { [language]: _previous, ...others } = current.voices;
+        return {
+          ...current,
+          voices: voiceId ? { ...others, [language]: voiceId } : others,
+        };
+      });
+    },
+    [language]
+  );
+
+  const setRate = useCallback(async (rate: number) => {
+    await updateTtsSettings((current) => ({
+      ...current,
+      rate: clampSetting(rate, TTS_RATE_RANGE),
+    }));
+  }, []);
+
+  const setPitch = useCallback(async (pitch: number) => {
+    await updateTtsSettings((current) => ({
+      ...current,
+      pitch: clampSetting(pitch, TTS_PITCH_RANGE),
+    }));
+  }, []);
+
+  const setVolume = useCallback(async (volume: number) => {
+    await updateTtsSettings((current) => ({
+      ...current,
+      volume: clampSetting(volume, TTS_VOLUME_RANGE),
+    }));
+  }, []);
+
+  // Keeps the voices picked for each language, only the sound is reset
+  const resetSettings = useCallback(async () => {
+    await updateTtsSettings((current) => ({
+      ...DEFAULT_TTS_SETTINGS,
+      voices: current.voices,
+    }));
+  }, []);
+
+  return {
+    settings,
+    language,
+    voices,
+    isLoadingVoices,
+    reloadVoices,
+    setVoice,
+    setRate,
+    setPitch,
+    setVolume,
+    resetSettings,
+  };
+}
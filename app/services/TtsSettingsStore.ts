@@ -0,0 +1,18 @@
+import {
+  DEFAULT_TTS_SETTINGS,
+  TtsSettings,
+  normalizeTtsSettings,
+} from "./TtsSettings";
+import { createSettingStore } from "./SettingsStore";
+
+const ttsStore = createSettingStore<TtsSettings>(
+  "ttsSettings",
+  DEFAULT_TTS_SETTINGS,
+  (_defaults, stored) => normalizeTtsSettings(stored)
+);
+
+export const getTtsSettings = ttsStore.get;
+export const loadTtsSettings = ttsStore.load;
+export const saveTtsSettings = ttsStore.save;
+export const updateTtsSettings = ttsStore.update;
+export const subscribeToTtsSettings = ttsStore.subscribe;
@@ -0,0 +1,139 @@
+// Reads numbers the way Vietnamese speakers say them, so TTS engines don't
+// have to guess how to pronounce "1.205.000"
+
+export interface VietnameseNumberOptions {
+  // Word for a zero tens digit: "linh" (northern) or "lẻ" (southern)
+  zeroTens?: "linh" | "lẻ";
+  // Word for thousand: "nghìn" (northern) or "ngàn" (southern)
+  thousand?: "nghìn" | "ngàn";
+}
+
+const DIGITS = [
+  "không",
+  "một",
+  "hai",
+  "ba",
+  "bốn",
+  "năm",
+  "sáu",
+  "bảy",
+  "tám",
+  "chín",
+];
+
+const BILLION = 1_000_000_000;
+
+// Reads 0-999. Groups that follow a larger unit are read in full
+// ("không trăm linh năm") while a leading group is read short ("năm").
+const readGroup = (
+  group: number,
+  isLeading: boolean,
+  { zeroTens }: Required<VietnameseNumberOptions>
+): string => {
+  const hundreds = Math.floor(group / 100);
+  const tens = Math.floor((group % 100) / 10);
+  const units = group % 10;
+  const words: string[] = [];
+
+  if (hundreds > 0 || !isLeading) {
+    words.push(DIGITS[hundreds], "trăm");
+  }
+
+  if (tens === 0) {
+    if (units > 0 && words.length > 0) {
+      words.push(zeroTens);
+    }
+  } else if (tens === 1) {
+    words.push("mười");
+  } else {
+    words.push(DIGITS[tens], "mươi");
+  }
+
+  if (units > 0) {
+    if (units === 1 && tens > 1) {
+      // 21 -> "hai mươi mốt", but 11 -> "mười một"
+      words.push("mốt");
+    } else if (units === 4 && tens > 1) {
+      // 24 -> "hai mươi tư", but 14 -> "mười bốn"
+      words.push("tư");
+    } else if (units === 5 && tens > 0) {
+      // 15 -> "mười lăm", 25 -> "hai mươi lăm", but 105 -> "một trăm linh năm"
+      words.push("lăm");
+    } else {
+      words.push(DIGITS[units]);
+    }
+  }
+
+  return words.join(" ");
+};
+
+// Reads 1 - 999,999,999 using triệu / nghìn groups
+const readBelowBillion = (
+  value: number,
+  isLeading: boolean,
+  options: Required<VietnameseNumberOptions>
+): string => {
+  const groups = [
+    { value: Math.floor(value / 1_000_000), unit: "triệu" },
+    { value: Math.floor((value % 1_000_000) / 1000), unit: options.thousand },
+    { value: value % 1000, unit: "" },
+  ];
+  const words: string[] = [];
+
+  groups.forEach((group) => {
+    if (group.value === 0) return;
+
+    const leading = isLeading && words.length === 0;
+    words.push(readGroup(group.value, leading, options));
+    if (group.unit) words.push(group.unit);
+  });
+
+  return words.join(" ");
+};
+
+const readPositive = (
+  value: number,
+  isLeading: boolean,
+  options: Required<VietnameseNumberOptions>
+): string => {
+  if (value < BILLION) {
+    return readBelowBillion(value, isLeading, options);
+  }
+
+  // Above a billion the groups repeat: "một nghìn tỷ", "hai triệu tỷ"
+  const billions = Math.floor(value / BILLION);
+  const rest = value % BILLION;
+  const words = [readPositive(billions, isLeading, options), "tỷ"];
+  if (rest > 0) {
+    words.push(readBelowBillion(rest, false, options));
+  }
+  return words.join(" ");
+};
+
+/**
+ * 1205000 -> "một triệu hai trăm linh năm nghìn". Non-integers are rounded.
+ */
+export const numberToVietnameseWords = (
+  value: number,
+  options: VietnameseNumberOptions = {}
+): string => {
+  const resolvedOptions: Required<VietnameseNumberOptions> = {
+    zeroTens: "linh",
+    thousand: "nghìn",
+    ...options,
+  };
+  const rounded = Math.round(value);
+
+  if (!Number.isFinite(rounded)) return "";
+  if (rounded === 0) return DIGITS[0];
+  if (rounded < 0) {
+    return `âm ${readPositive(-rounded, true, resolvedOptions)}`;
+  }
+  return readPositive(rounded, true, resolvedOptions);
+};
+
+// 50000 -> "năm mươi nghìn đồng"
+export const amountToVietnameseWords = (
+  amount: number,
+  options?: VietnameseNumberOptions
+): string => `${numberToVietnameseWords(amount, options)} đồng`;
@@ -0,0 +1,87 @@
+import RNBluetoothClassic, {
+  BluetoothNativeDevice,
+} from "react-native-bluetooth-classic";
+import { BluetoothAdapter, BluetoothDevice } from "./types";
+
+// `extra` is typed as a Map, but arrives over the bridge as a plain object
+const hasRssiExtra = (extra: unknown): extra is { rssi: unknown } =>
+  typeof extra === "object" && extra !== null && "rssi" in extra;
+
+// Discovery reports RSSI; bonded devices report 0 or nothing
+const readRssi = (device: BluetoothNativeDevice): number | null => {
+  const rssi = Number(
+    device.rssi ?? (hasRssiExtra(device.extra) ? device.extra.rssi : undefined)
+  );
+  return Number.isFinite(rssi) && rssi !== 0 ? rssi : null;
+};
+
+const toDevice = (
+  device: BluetoothNativeDevice,
+  connected = false
+): BluetoothDevice => ({
+  name: device.name,
+  id: device.id || device.address,
+  address: device.address,
+  bonded: Boolean(device.bonded),
+  rssi: readRssi(device),
+  connected,
+});
+
+// Bluetooth Classic through react-native-bluetooth-classic (Android)
+const classicAdapter: BluetoothAdapter = {
+  isSimulated: false,
+
+  isEnabled: () => RNBluetoothClassic.isBluetoothEnabled(),
+
+  requestEnable: () => RNBluetoothClassic.requestBluetoothEnabled(),
+
+  getBondedDevices: async () =>
+    (await RNBluetoothClassic.getBondedDevices()).map((device) =>
+      toDevice(device)
+    ),
+
+  discoverDevices: async () =>
+    (await RNBluetoothClassic.startDiscovery()).map((device) =>
+      toDevice(device)
+    ),
+
+  cancelDiscovery: async () => {
+    await RNBluetoothClassic.cancelDiscovery();
+  },
+
+  pairDevice: async (address) =>
+    toDevice(await RNBluetoothClassic.pairDevice(address)),
+
+  connect: async (address) => {
+    // Reuse an existing connection instead of opening a second socket
+    if (await RNBluetoothClassic.isDeviceConnected(address)) {
+      return toDevice(
+        await RNBluetoothClassic.getConnectedDevice(address),
+        true
+      );
+    }
+    return toDevice(await RNBluetoothClassic.connectToDevice(address), true);
+  },
+
+  disconnect: async (address) => {
+    await RNBluetoothClassic.disconnectFromDevice(address);
+  },
+
+  isConnected: (address) => RNBluetoothClassic.isDeviceConnected(address),
+
+  onEnabledChanged: (listener) => {
+    const subscription = RNBluetoothClassic.onStateChanged((event) =>
+      listener(event.enabled)
+    );
+    return () => subscription.remove();
+  },
+
+  onDeviceDisconnected: (listener) => {
+    const subscription = RNBluetoothClassic.onDeviceDisconnected((event) =>
+      listener(event.device.address)
+    );
+    return () => subscription.remove();
+  },
+};
+
+export default classicAdapter;
@@ -0,0 +1,60 @@
+import { BluetoothDevice, ConnectionState } from "./types";
+
+// Address used to match the same device across lists
+export const getDeviceAddress = (device: BluetoothDevice): string =>
+  device.address || device.id;
+
+/**
+ * One list for the device screen: bonded devices first, then newly
+ * discovered ones. A discovered device that is also bonded keeps its bond and
+ * gains the fresh RSSI. Connected devices are marked as connected.
+ */
+export const mergeDevices = (
+  bonded: BluetoothDevice[],
+  discovered: BluetoothDevice[],
+  connectedAddresses: string[] = []
+): BluetoothDevice[] => {
+  const byAddress = new Map<string, BluetoothDevice>();
+
+  bonded.forEach((device) => {
+    byAddress.set(getDeviceAddress(device), { ...device, bonded: true });
+  });
+
+  discovered.forEach((device) => {
+    const address = getDeviceAddress(device);
+    const known = byAddress.get(address);
+    byAddress.set(
+      address,
+      known
+        ? { ...known, rssi: device.rssi ?? known.rssi }
+        : { ...device, bonded: Boolean(device.bonded) }
+    );
+  });
+
+  return [...byAddress.values()].map((device) => ({
+    ...device,
+    connected: connectedAddresses.includes(getDeviceAddress(device)),
+  }));
+};
+
+// Most relevant state across all speakers: an ongoing connect attempt, then
+// any connected speaker, then reconnecting, lost and idle
+const STATE_PRIORITY: ConnectionState[] = [
+  "connecting",
+  "connected",
+  "reconnecting",
+  "lost",
+  "idle",
+];
+
+export const getOverallConnectionState = (
+  states: ConnectionState[]
+): ConnectionState =>
+  STATE_PRIORITY.find((state) => states.includes(state)) ?? "idle";
+
+// "-58 dBm (strong)", or null when there is no reading
+export const describeRssi = (rssi?: number | null): string | null => {
+  if (rssi === null || rssi === undefined) return null;
+  const strength = rssi >= -60 ? "strong" : rssi >= -80 ? "fair" : "weak";
+  return `${rssi} dBm (${strength})`;
+};
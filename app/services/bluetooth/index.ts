@@ -0,0 +1,68 @@
+import { NativeModules, PermissionsAndroid, Platform } from "react-native";
+import classicAdapter from "./classicAdapter";
+import {
+  SimulationAdapter,
+  createSimulationAdapter,
+} from "./simulationAdapter";
+import { BluetoothAdapter } from "./types";
+
+export type {
+  BluetoothAdapter,
+  BluetoothDevice,
+  ConnectionState,
+} from "./types";
+export {
+  describeRssi,
+  getDeviceAddress,
+  getOverallConnectionState,
+  mergeDevices,
+} from "./devices";
+export {
+  MOCK_DEVICES,
+  createSimulationAdapter,
+  generateRandomAddress,
+} from "./simulationAdapter";
+export type { SimulationAdapter } from "./simulationAdapter";
+export {
+  createReconnectLoop,
+  getReconnectDelay,
+  DEFAULT_RECONNECT_OPTIONS,
+} from "./reconnect";
+export type { ReconnectLoop, ReconnectOptions } from "./reconnect";
+
+// The native module only exists in Android development/release builds
+export const isClassicBluetoothAvailable =
+  Platform.OS === "android" && Boolean(NativeModules.RNBluetoothClassic);
+
+let simulationAdapter: SimulationAdapter | null = null;
+
+// The real adapter, or the simulation adapter when it was requested or the
+// native module is missing
+export const getBluetoothAdapter = (simulated: boolean): BluetoothAdapter => {
+  if (simulated || !isClassicBluetoothAvailable) {
+    simulationAdapter = simulationAdapter ?? createSimulationAdapter();
+    return simulationAdapter;
+  }
+  return classicAdapter;
+};
+
+// Android 12+ needs BLUETOOTH_SCAN/CONNECT, older versions need location
+// permission for discovery
+export const requestBluetoothPermissions = async (): Promise<boolean> => {
+  if (Platform.OS !== "android") return true;
+
+  if (Number(Platform.Version) >= 31) {
+    const results = await PermissionsAndroid.requestMultiple([
+      PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN,
+      PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT,
+    ]);
+    return Object.values(results).every(
+      (result) => result === PermissionsAndroid.RESULTS.GRANTED
+    );
+  }
+
+  const result = await PermissionsAndroid.request(
+    PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION
+  );
+  return result === PermissionsAndroid.RESULTS.GRANTED;
+};
@@ -0,0 +1,95 @@
+export interface ReconnectOptions {
+  // Delay before the first attempt
+  initialDelayMs?: number;
+  // Upper bound for the doubling delay
+  maxDelayMs?: number;
+  // Give up after this many failed attempts
+  maxAttempts?: number;
+}
+
+export interface ReconnectLoop {
+  start: () => void;
+  cancel: () => void;
+  isRunning: () => boolean;
+}
+
+interface ReconnectDependencies {
+  // Resolves true once connected
+  attempt: (attemptNumber: number) => Promise<boolean>;
+  onGiveUp?: () => void;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  initialDelayMs: 2000,
+  maxDelayMs: 60 * 1000,
+  maxAttempts: 8,
+};
+
+// 2s, 4s, 8s, ... capped at maxDelayMs
+export const getReconnectDelay = (
+  attemptNumber: number,
+  options: ReconnectOptions = {}
+): number => {
+  const { initialDelayMs, maxDelayMs } = {
+    ...DEFAULT_RECONNECT_OPTIONS,
+    ...options,
+  };
+  return Math.min(initialDelayMs * 2 ** (attemptNumber - 1), maxDelayMs);
+};
+
+/**
+ * Retries a connection with exponential backoff until it succeeds, is
+ * cancelled or runs out of attempts. Starting a running loop does nothing.
+ */
+export const createReconnectLoop = (
+  { attempt, onGiveUp }: ReconnectDependencies,
+  options: ReconnectOptions = {}
+): ReconnectLoop => {
+  const { maxAttempts } = { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  // Bumped on cancel so an attempt in flight doesn't schedule another one
+  let generation = 0;
+
+  const schedule = (attemptNumber: number, currentGeneration: number) => {
+    timer = setTimeout(
+      async () => {
+        timer = null;
+        let connected = false;
+        try {
+          connected = await attempt(attemptNumber);
+        } catch (error) {
+          console.log(`Reconnect attempt ${attemptNumber} failed:`, error);
+        }
+        if (currentGeneration !== generation) return;
+
+        if (connected) {
+          running = false;
+        } else if (attemptNumber >= maxAttempts) {
+          running = false;
+          onGiveUp?.();
+        } else {
+          schedule(attemptNumber + 1, currentGeneration);
+        }
+      },
+      getReconnectDelay(attemptNumber, options)
+    );
+  };
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    schedule(1, generation);
+  };
+
+  const cancel = () => {
+    generation++;
+    running = false;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  return { start, cancel, isRunning: () => running };
+};
@@ -0,0 +1,170 @@
+import { BluetoothAdapter, BluetoothDevice } from "./types";
+
+// Speakers that are always "paired" in simulation mode
+export const MOCK_DEVICES: BluetoothDevice[] = [
+  {
+    name: "Generic Bluetooth Speaker",
+    id: "00:11:22:33:44:55",
+    address: "00:11:22:33:44:55",
+    bonded: true,
+  },
+  {
+    name: "WYS-2301BT",
+    id: "00:22:33:44:55:66",
+    address: "00:22:33:44:55:66",
+    bonded: true,
+  },
+  {
+    name: "Portable Speaker",
+    id: "00:33:44:55:66:77",
+    address: "00:33:44:55:66:77",
+    bonded: true,
+  },
+];
+
+// Speakers that discovery may "find" nearby
+const NEARBY_SPEAKER_NAMES = [
+  "JBL Flip",
+  "Bose SoundLink",
+  "Sony SRS-XB12",
+  "Anker Soundcore",
+];
+
+// Random Bluetooth-like address, e.g. "3F:A0:12:9C:44:E1"
+export const generateRandomAddress = (random: () => number = Math.random) =>
+  Array.from({ length: 6 }, () =>
+    Math.floor(random() * 256)
+      .toString(16)
+      .toUpperCase()
+      .padStart(2, "0")
+  ).join(":");
+
+interface SimulationAdapterOptions {
+  // How long discovery pretends to take
+  discoveryDelayMs?: number;
+  random?: () => number;
+}
+
+export interface SimulationAdapter extends BluetoothAdapter {
+  // Pretend the user switched Bluetooth on or off
+  setEnabled: (enabled: boolean) => void;
+  // Pretend a connected speaker went out of range
+  dropConnection: (address: string) => void;
+}
+
+/**
+ * An in-memory Bluetooth stack with demo speakers. Used when the native
+ * module is unavailable (Expo Go, iOS), when the user turns on simulation
+ * mode, and in tests.
+ */
+export const createSimulationAdapter = ({
+  discoveryDelayMs = 1500,
+  random = Math.random,
+}: SimulationAdapterOptions = {}): SimulationAdapter => {
+  let enabled = true;
+  const devices = new Map<string, BluetoothDevice>(
+    MOCK_DEVICES.map((device) => [device.id, { ...device }])
+  );
+  const connected = new Set<string>();
+  const enabledListeners = new Set<(enabled: boolean) => void>();
+  const disconnectListeners = new Set<(address: string) => void>();
+
+  const requireEnabled = () => {
+    if (!enabled) throw new Error("Bluetooth is turned off");
+  };
+
+  const requireDevice = (address: string): BluetoothDevice => {
+    const device = devices.get(address);
+    if (!device) throw new Error(`Unknown device ${address}`);
+    return device;
+  };
+
+  const subscribe = <T>(listeners: Set<T>, listener: T) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dropConnection = (address: string) => {
+    if (!connected.delete(address)) return;
+    disconnectListeners.forEach((listener) => listener(address));
+  };
+
+  return {
+    isSimulated: true,
+
+    isEnabled: async () => enabled,
+
+    requestEnable: async () => {
+      if (!enabled) {
+        enabled = true;
+        enabledListeners.forEach((listener) => listener(true));
+      }
+      return true;
+    },
+
+    getBondedDevices: async () => {
+      requireEnabled();
+      return [...devices.values()].filter((device) => device.bonded);
+    },
+
+    discoverDevices: async () => {
+      requireEnabled();
+      await new Promise((resolve) => setTimeout(resolve, discoveryDelayMs));
+
+      // Sometimes "discover" one to three nearby speakers
+      if (random() <= 0.5) return [];
+      const count = Math.floor(random() * 3) + 1;
+      return NEARBY_SPEAKER_NAMES.slice(0, count).map((name) => {
+        const address = generateRandomAddress(random);
+        const device: BluetoothDevice = {
+          name,
+          id: address,
+          address,
+          bonded: false,
+          rssi: -40 - Math.floor(random() * 50),
+        };
+        devices.set(address, device);
+        return device;
+      });
+    },
+
+    cancelDiscovery: async () => {},
+
+    pairDevice: async (address) => {
+      requireEnabled();
+      const device = { ...requireDevice(address), bonded: true };
+      devices.set(address, device);
+      return device;
+    },
+
+    connect: async (address) => {
+      requireEnabled();
+      const device = requireDevice(address);
+      if (!device.bonded) throw new Error(`${device.name} is not paired`);
+      connected.add(address);
+      return { ...device, connected: true };
+    },
+
+    disconnect: async (address) => {
+      connected.delete(address);
+    },
+
+    isConnected: async (address) => connected.has(address),
+
+    onEnabledChanged: (listener) => subscribe(enabledListeners, listener),
+
+    onDeviceDisconnected: (listener) =>
+      subscribe(disconnectListeners, listener),
+
+    setEnabled: (value) => {
+      if (enabled === value) return;
+      enabled = value;
+      if (!value) [...connected].forEach(dropConnection);
+      enabledListeners.forEach((listener) => listener(value));
+    },
+
+    dropConnection,
+  };
+};
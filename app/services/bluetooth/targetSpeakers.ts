@@ -0,0 +1,37 @@
+import { createSettingStore } from "../SettingsStore";
+import { getDeviceAddress } from "./devices";
+import { BluetoothDevice } from "./types";
+
+// The speakers announcements are sent to. They are kept connected and
+// reconnected automatically.
+const targetSpeakerStore = createSettingStore<BluetoothDevice[]>(
+  "targetSpeakers",
+  []
+);
+
+export const getTargetSpeakers = targetSpeakerStore.get;
+export const loadTargetSpeakers = targetSpeakerStore.load;
+export const saveTargetSpeakers = targetSpeakerStore.save;
+export const updateTargetSpeakers = targetSpeakerStore.update;
+export const subscribeToTargetSpeakers = targetSpeakerStore.subscribe;
+
+export const isTargetSpeaker = (address: string): boolean =>
+  getTargetSpeakers().some((speaker) => getDeviceAddress(speaker) === address);
+
+// Stored without connection details, those are only valid while connected
+export const addTargetSpeaker = async (
+  device: BluetoothDevice
+): Promise<void> => {
+  const { connected: _connected, rssi: _rssi, ...speaker } = device;
+  const address = getDeviceAddress(device);
+  await updateTargetSpeakers((current) => [
+    ...current.filter((target) => getDeviceAddress(target) !== address),
+    speaker,
+  ]);
+};
+
+export const removeTargetSpeaker = async (address: string): Promise<void> => {
+  await updateTargetSpeakers((current) =>
+    current.filter((target) => getDeviceAddress(target) !== address)
+  );
+};
@@ -0,0 +1,38 @@
+export interface BluetoothDevice {
+  name?: string;
+  id: string;
+  address?: string;
+  connected?: boolean;
+  // Paired (bonded) with this phone
+  bonded?: boolean;
+  // Signal strength in dBm from the last discovery, null when unknown
+  rssi?: number | null;
+}
+
+/**
+ * Everything the app needs from the Bluetooth stack. The real implementation
+ * talks to react-native-bluetooth-classic; the simulation adapter keeps the
+ * demo speakers for builds without the native module and for tests.
+ */
+export interface BluetoothAdapter {
+  isSimulated: boolean;
+  isEnabled: () => Promise<boolean>;
+  // Asks the user to turn Bluetooth on, resolves with the new state
+  requestEnable: () => Promise<boolean>;
+  getBondedDevices: () => Promise<BluetoothDevice[]>;
+  // Resolves with the unpaired devices found once discovery has finished
+  discoverDevices: () => Promise<BluetoothDevice[]>;
+  cancelDiscovery: () => Promise<void>;
+  pairDevice: (address: string) => Promise<BluetoothDevice>;
+  connect: (address: string) => Promise<BluetoothDevice>;
+  disconnect: (address: string) => Promise<void>;
+  isConnected: (address: string) => Promise<boolean>;
+  // Both return an unsubscribe function
+  onEnabledChanged: (listener: (enabled: boolean) => void) => () => void;
+  onDeviceDisconnected: (listener: (address: string) => void) => () => void;
+}
+
+// idle: nothing selected or the user disconnected; lost: the speaker dropped
+// out and reconnecting gave up (or Bluetooth is off)
+export type ConnectionState =
+  "idle" | "connecting" | "connected" | "lost" | "reconnecting";
@@ -0,0 +1,52 @@
+import { classifyTransaction } from "./classifier";
+import {
+  extractAccount,
+  extractReference,
+  extractTransactionId,
+  parseCreditAmount,
+  parseDebitAmount,
+} from "./helpers";
+import { PaymentNotificationParser } from "./types";
+
+// Banking apps post balance-change notifications such as
+// "TK 0123456789 +50,000 VND. SD: 1,250,000 VND. ND: NGUYEN VAN A chuyen tien"
+// Credits ("+") are received and debits ("-") sent; the sender is usually
+// part of the memo.
+const createBankParser = (
+  id: string,
+  name: string,
+  packageNames: string[]
+): PaymentNotificationParser => ({
+  id,
+  name,
+  packageNames,
+  parse: (text, notification) => {
+    const amount = parseCreditAmount(text) ?? parseDebitAmount(text);
+    if (amount === null) return null;
+
+    return {
+      amount,
+      sender: null,
+      reference: extractReference(text),
+      transactionId: extractTransactionId(text),
+      account: extractAccount(text),
+      category: classifyTransaction(text, notification),
+    };
+  },
+});
+
+export const vietcombankParser = createBankParser(
+  "vietcombank",
+  "Vietcombank",
+  ["com.VCB"]
+);
+
+export const techcombankParser = createBankParser(
+  "techcombank",
+  "Techcombank",
+  ["vn.com.techcombank.bb.app"]
+);
+
+export const mbBankParser = createBankParser("mbbank", "MB Bank", [
+  "com.mbmobile",
+]);
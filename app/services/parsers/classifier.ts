@@ -0,0 +1,95 @@
+import { PostedNotification } from "../NotificationListener";
+import {
+  extractReference,
+  extractSender,
+  parseCreditAmount,
+  parseDebitAmount,
+} from "./helpers";
+import { TransactionCategory } from "./types";
+
+export const TRANSACTION_CATEGORIES: {
+  category: TransactionCategory;
+  label: string;
+}[] = [
+  { category: "received", label: "Received" },
+  { category: "sent", label: "Sent" },
+  { category: "topup", label: "Top-up" },
+  { category: "promo", label: "Promotion" },
+  { category: "otp", label: "OTP" },
+  { category: "other", label: "Other" },
+];
+
+// Patterns per category, with and without diacritics. Checked in the order
+// of classifyTransaction, so e.g. a voucher "nhận ngay" is a promotion.
+const OTP_PATTERNS = [
+  /(?:^|[^a-z])otp(?![a-z])/i,
+  /m[ãa] x[áa]c (?:th[ựu]c|nh[ậa]n)/i,
+  /verification code/i,
+];
+
+const PROMO_PATTERNS = [
+  /khuy[ếe]n m[ãa]i/i,
+  /[ưu]u [đd][ãa]i/i,
+  /voucher/i,
+  /gi[ảa]m gi[áa]/i,
+  /qu[àa] t[ặa]ng/i,
+  /ho[àa]n ti[ềe]n/i,
+  /cashback/i,
+  /promo(?:tion)?(?![a-z])/i,
+  /discount/i,
+];
+
+const TOP_UP_PATTERNS = [
+  /(?:^|\s)n[ạa]p (?:ti[ềe]n|th[àa]nh c[ôo]ng|v[àa]o)/i,
+  /(?:^|\s)(?:đã|da|vừa|vua) n[ạa]p(?![a-z])/i,
+  /top[\s-]?up/i,
+];
+
+// Outgoing money is phrased from the user's side: "Bạn đã chuyển 50.000đ
+// đến ...", unlike "NGUYEN VAN A đã chuyển cho bạn 50.000đ"
+const SENT_PATTERNS = [
+  /(?:^|\s)(?:bạn|ban|quý khách|quy khach) (?:đã |da |vừa |vua )?(?:chuyển|chuyen|thanh toán|thanh toan|gửi|gui)/i,
+  /chuy[ểe]n ti[ềe]n th[àa]nh c[ôo]ng/i,
+  /(?:^|\s)you(?: have)? (?:sent|paid|transferred)/i,
+  /(?:payment|transfer) successful/i,
+];
+
+const RECEIVED_PATTERNS = [
+  /nh[ậa]n [đd][ưu][ợo]c/i,
+  /(?:vừa|vua|đã|da) nh[ậa]n/i,
+  /nh[ậa]n ti[ềe]n/i,
+  /chuy[ểe]n(?: ti[ềe]n)? cho (?:bạn|ban)/i,
+  /received/i,
+];
+
+const matchesAny = (text: string, patterns: RegExp[]): boolean =>
+  patterns.some((pattern) => pattern.test(text));
+
+/**
+ * Sorts a wallet or bank notification into received / sent / top-up /
+ * promotion / OTP / other. The title is checked along with the text, the
+ * memo and the sender's name are left out as they're written by the sender
+ * (a name like "NGUYEN THI BAN" would read as "bạn"). A signed bank amount
+ * ("+50.000 VND", "-50.000 VND") decides between received and sent, and
+ * generic words like "payment" or "transfer" alone decide nothing.
+ */
+export const classifyTransaction = (
+  text: string,
+  notification: Pick<PostedNotification, "title">
+): TransactionCategory => {
+  const ownText = [extractReference(text), extractSender(text)].reduce(
+    (remaining: string, part) =>
+      part ? remaining.replace(part, "") : remaining,
+    text
+  );
+  const content = `${notification.title ?? ""}\n${ownText}`;
+
+  if (matchesAny(content, OTP_PATTERNS)) return "otp";
+  if (matchesAny(content, PROMO_PATTERNS)) return "promo";
+  if (matchesAny(content, TOP_UP_PATTERNS)) return "topup";
+  if (parseCreditAmount(text) !== null) return "received";
+  if (parseDebitAmount(text) !== null) return "sent";
+  if (matchesAny(content, SENT_PATTERNS)) return "sent";
+  if (matchesAny(content, RECEIVED_PATTERNS)) return "received";
+  return "other";
+};
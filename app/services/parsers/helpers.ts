@@ -0,0 +1,159 @@
+// Shared extraction helpers used by the individual notification parsers.
+// Notifications from Vietnamese apps are mostly in Vietnamese, sometimes
+// without diacritics ("tu" instead of "từ"), and use "." as the thousands
+// separator ("50.000đ"), so every helper accepts both conventions.
+
+// Letters that may follow "đ" in a word ("đơn", "đồng"), used to tell the
+// "đ" currency suffix apart from the start of a word
+const VIETNAMESE_LETTER = "a-zA-ZÀ-ỹĐđ";
+
+const NUMBER_PATTERN =
+  "\\d{1,3}(?:[.,]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?";
+
+const CURRENCY_SUFFIX = `(?:VNĐ|VND|đồng|dong|₫|đ(?![${VIETNAMESE_LETTER}]))`;
+
+// "50.000đ", "50,000 VND", "+1.250.000 ₫", "VND 50,000"
+const AMOUNT_REGEX = new RegExp(
+  `([+-])?\\s?(${NUMBER_PATTERN})\\s?${CURRENCY_SUFFIX}|(?:VNĐ|VND)\\s?([+-])?\\s?(${NUMBER_PATTERN})`,
+  "i"
+);
+
+// Words that end a sender name when it is followed by more details. Only
+// matched in lowercase, so they never cut an uppercase name ("NGUYEN VAN AT").
+const SENDER_TERMINATORS = [
+  "qua",
+  "lúc",
+  "luc",
+  "vào lúc",
+  "vao luc",
+  "với",
+  "voi",
+  "lời nhắn",
+  "loi nhan",
+  "nội dung",
+  "noi dung",
+  "via",
+  "at",
+  "on",
+];
+
+/**
+ * Converts a number written with Vietnamese or English separators into an
+ * integer amount. "1.250.000" and "1,250,000" are both 1250000; a trailing
+ * group of one or two digits is a decimal part ("50.000,50" -> 50001).
+ */
+export const parseVndNumber = (raw: string): number | null => {
+  const value = raw.trim();
+  if (!/^\d[\d.,]*$/.test(value)) return null;
+
+  const decimalMatch = value.match(/^(.*\d)[.,](\d{1,2})$/);
+  const integerPart = decimalMatch ? decimalMatch[1] : value;
+  const fractionPart = decimalMatch ? decimalMatch[2] : "";
+
+  // Whatever is left must be plain digits or thousands groups
+  if (!/^\d{1,3}(?:[.,]\d{3})*$|^\d+$/.test(integerPart)) return null;
+
+  const amount = parseFloat(
+    `${integerPart.replace(/[.,]/g, "")}.${fractionPart || "0"}`
+  );
+  return Number.isNaN(amount) ? null : Math.round(amount);
+};
+
+const matchAmount = (
+  text: string
+): { sign: string | undefined; amount: number } | null => {
+  const match = text.match(AMOUNT_REGEX);
+  if (!match) return null;
+
+  const sign = match[1] ?? match[3];
+  const amount = parseVndNumber(match[2] ?? match[4]);
+  return amount === null ? null : { sign, amount };
+};
+
+// "50.000đ" -> 50000
+export const parseAmount = (text: string): number | null =>
+  matchAmount(text)?.amount ?? null;
+
+const findSignedAmount = (text: string, sign: "+" | "-"): number | null => {
+  const globalRegex = new RegExp(AMOUNT_REGEX.source, "gi");
+  for (const match of text.matchAll(globalRegex)) {
+    const amount = matchAmount(match[0]);
+    if (amount?.sign === sign) return amount.amount;
+  }
+  return null;
+};
+
+// Bank balance notifications show credits as "+50.000 VND"
+export const parseCreditAmount = (text: string): number | null =>
+  findSignedAmount(text, "+");
+
+// ... and debits as "-50.000 VND"
+export const parseDebitAmount = (text: string): number | null =>
+  findSignedAmount(text, "-");
+
+const cleanSender = (raw: string): string | null => {
+  // "số 0987xxx123 (LE VAN C)" -> "LE VAN C"
+  const nameInParentheses = raw.match(/\(([^)]+)\)/);
+  let sender = nameInParentheses ? nameInParentheses[1] : raw;
+
+  for (const terminator of SENDER_TERMINATORS) {
+    const index = sender.search(
+      new RegExp(`\\s${terminator}(?![${VIETNAMESE_LETTER}])`)
+    );
+    if (index > 0) {
+      sender = sender.slice(0, index);
+      break;
+    }
+  }
+
+  sender = sender.replace(/\s+/g, " ").trim();
+  return sender ? sender : null;
+};
+
+export const extractSender = (text: string): string | null => {
+  // "... 50.000đ từ NGUYEN VAN A. Lời nhắn: ..."
+  const fromMatch = text.match(
+    new RegExp(`(?:^|\\s)(?:từ|tu|from)\\s+([^.,;|\\n!]+(?:\\([^)]*\\))?)`, "i")
+  );
+  if (fromMatch) {
+    return cleanSender(fromMatch[1]);
+  }
+
+  // "NGUYEN VAN A đã chuyển cho bạn 50.000đ"
+  const transferMatch = text.match(
+    /(?:^|[.:\n]\s*)([^.:\n]+?)\s+(?:đã |da )?(?:chuyển|chuyen)(?: tiền| tien)? (?:cho|đến|den) (?:bạn|ban)/i
+  );
+  return transferMatch ? cleanSender(transferMatch[1]) : null;
+};
+
+export const extractReference = (text: string): string | null => {
+  const match = text.match(
+    /(?:^|[\s.|])(?:ND|Nội dung|Noi dung|Lời nhắn|Loi nhan|Message|Memo)\s*:\s*(.+?)\s*(?=[|\n]|\.\s*(?:Mã|Ma|SD|Số dư|So du|GD)(?=[\s:])|\.?$)/im
+  );
+  return match ? match[1].trim() : null;
+};
+
+export const extractTransactionId = (text: string): string | null => {
+  const match = text.match(
+    /(?:Mã giao dịch|Ma giao dich|Mã GD|Ma GD|Transaction ID|Trans ID|Ref)\b\s*:?\s*((?=[A-Z]*\d)[A-Z0-9]{6,})/i
+  );
+  return match ? match[1] : null;
+};
+
+// "TK 0123456789", "Tài khoản: 19031234567890", "TK x6789" or "TK 05xxx123"
+// (masked)
+export const extractAccount = (text: string): string | null => {
+  const match = text.match(
+    /(?:^|[\s.|])(?:TK|Tài khoản|Tai khoan|Account|Acc)\s*:?\s*(\d*[x*]+\d{3,}|\d{4,})/i
+  );
+  return match ? match[1] : null;
+};
+
+export const containsAny = (text: string, keywords: string[]): boolean => {
+  const lowerText = text.toLowerCase();
+  return keywords.some((keyword) => lowerText.includes(keyword));
+};
+
+// 50000 -> "50,000"
+export const formatVnd = (amount: number): string =>
+  String(Math.round(amount)).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
@@ -0,0 +1,104 @@
+import { PostedNotification } from "../NotificationListener";
+import { mbBankParser, techcombankParser, vietcombankParser } from "./banks";
+import {
+  PaymentEvent,
+  PaymentNotificationParser,
+  TransactionCategory,
+} from "./types";
+import {
+  momoParser,
+  viettelMoneyParser,
+  vnPayParser,
+  zaloPayParser,
+} from "./wallets";
+
+export * from "./types";
+export { formatVnd } from "./helpers";
+export { TRANSACTION_CATEGORIES, classifyTransaction } from "./classifier";
+
+// A transaction notification of any category, see classifier.ts
+export interface ParsedTransaction {
+  category: TransactionCategory;
+  payment: PaymentEvent;
+}
+
+// Parsers keyed by the Android package name they handle
+const parsersByPackage = new Map<string, PaymentNotificationParser>();
+
+// Add a parser to the registry, replacing any parser for the same packages
+export const registerParser = (parser: PaymentNotificationParser): void => {
+  parser.packageNames.forEach((packageName) => {
+    parsersByPackage.set(packageName, parser);
+  });
+};
+
+export const getParserForPackage = (
+  packageName: string
+): PaymentNotificationParser | null =>
+  parsersByPackage.get(packageName) ?? null;
+
+export const getRegisteredParsers = (): PaymentNotificationParser[] => [
+  ...new Set(parsersByPackage.values()),
+];
+
+// Display name for a PaymentEvent's sourceApp, e.g. "momo" -> "MoMo"
+export const getSourceAppName = (sourceApp: string): string =>
+  getRegisteredParsers().find((parser) => parser.id === sourceApp)?.name ??
+  sourceApp;
+
+// Turn a posted notification into a classified transaction, or null when no
+// parser handles its package or the notification is not a transaction
+export const parseTransactionNotification = (
+  notification: PostedNotification
+): ParsedTransaction | null => {
+  const parser = getParserForPackage(notification.packageName);
+  if (!parser) return null;
+
+  // Prefer the expanded text, it contains the full payment details. Some
+  // apps post decomposed Vietnamese characters, so normalise them first.
+  const text = (notification.bigText || notification.text || "").normalize(
+    "NFC"
+  );
+  if (!text) return null;
+
+  try {
+    const parsed = parser.parse(text, notification);
+    if (!parsed) return null;
+
+    const { category = "received", ...fields } = parsed;
+    return {
+      category,
+      payment: {
+        ...fields,
+        account: fields.account ?? null,
+        sourceApp: parser.id,
+        packageName: notification.packageName,
+        rawText: text,
+        receivedAt: notification.postTime || Date.now(),
+        notificationKey: notification.key || null,
+      },
+    };
+  } catch (error) {
+    console.error(`Parser "${parser.id}" failed:`, error);
+    return null;
+  }
+};
+
+// Turn a posted notification into a PaymentEvent, or null when it is not an
+// incoming payment (including sent money, top-ups, promotions and OTPs)
+export const parsePaymentNotification = (
+  notification: PostedNotification
+): PaymentEvent | null => {
+  const transaction = parseTransactionNotification(notification);
+  return transaction?.category === "received" ? transaction.payment : null;
+};
+
+[
+  momoParser,
+  zaloPayParser,
+  vnPayParser,
+  viettelMoneyParser,
+  vietcombankParser,
+  techcombankParser,
+  mbBankParser,
+].forEach(registerParser);
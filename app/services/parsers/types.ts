@@ -0,0 +1,48 @@
+import { PostedNotification } from "../NotificationListener";
+
+// A payment detected in a wallet or banking app notification
+export interface PaymentEvent {
+  // Amount received, as an integer number of VND
+  amount: number;
+  sender: string | null;
+  // Transfer description / memo entered by the sender
+  reference: string | null;
+  transactionId: string | null;
+  // Receiving account as shown in the notification, e.g. "0123456789" (banks)
+  account: string | null;
+  // Id of the parser that recognised the notification, e.g. "momo"
+  sourceApp: string;
+  packageName: string;
+  rawText: string;
+  receivedAt: number;
+  notificationKey: string | null;
+}
+
+// What a transaction notification is about, see classifier.ts
+export type TransactionCategory =
+  "received" | "sent" | "topup" | "promo" | "otp" | "other";
+
+// Fields a parser extracts from the notification text. Wallets have no
+// account, so it may be left out. Without a category the transaction is
+// taken as received.
+export type ParsedPayment = Pick<
+  PaymentEvent,
+  "amount" | "sender" | "reference" | "transactionId"
+> &
+  Partial<Pick<PaymentEvent, "account">> & {
+    category?: TransactionCategory;
+  };
+
+export interface PaymentNotificationParser {
+  // Stable id stored with each PaymentEvent, e.g. "momo"
+  id: string;
+  // Human readable name shown in the UI
+  name: string;
+  // Android package names of the apps this parser handles
+  packageNames: string[];
+  // Returns null when the notification is not about a transaction
+  parse: (
+    text: string,
+    notification: PostedNotification
+  ) => ParsedPayment | null;
+}
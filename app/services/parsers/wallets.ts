@@ -0,0 +1,50 @@
+import { classifyTransaction } from "./classifier";
+import {
+  extractReference,
+  extractSender,
+  extractTransactionId,
+  parseAmount,
+} from "./helpers";
+import { PaymentNotificationParser } from "./types";
+
+// E-wallets name the sender in the notification, e.g.
+// "Bạn vừa nhận được 50.000đ từ NGUYEN VAN A. Lời nhắn: cafe"
+const createWalletParser = (
+  id: string,
+  name: string,
+  packageNames: string[]
+): PaymentNotificationParser => ({
+  id,
+  name,
+  packageNames,
+  parse: (text, notification) => {
+    const amount = parseAmount(text);
+    if (amount === null) return null;
+
+    return {
+      amount,
+      sender: extractSender(text),
+      reference: extractReference(text),
+      transactionId: extractTransactionId(text),
+      category: classifyTransaction(text, notification),
+    };
+  },
+});
+
+export const momoParser = createWalletParser("momo", "MoMo", [
+  "com.mservice.momotransfer",
+]);
+
+export const zaloPayParser = createWalletParser("zalopay", "ZaloPay", [
+  "vn.com.vng.zalopay",
+]);
+
+export const vnPayParser = createWalletParser("vnpay", "VNPay", [
+  "com.vnpay.wallet",
+]);
+
+export const viettelMoneyParser = createWalletParser(
+  "viettelmoney",
+  "Viettel Money",
+  ["com.bplus.vtpay"]
+);
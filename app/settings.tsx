@@ -0,0 +1,599 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+  Keyboard,
+} from "react-native";
+import { useRouter } from "expo-router";
+import useTtsSettings from "./services/TtsSettingsService";
+import useAnnouncementTemplates from "./services/AnnouncementTemplateService";
+import useBluetoothService from "./services/BluetoothService";
+import useChimeSettings from "./services/ChimeService";
+import useAmountRules from "./services/AmountRulesService";
+import useAnnouncementSchedule from "./services/AnnouncementScheduleService";
+import { isWithinSchedule } from "./services/AnnouncementSchedule";
+import useAnnouncedCategories from "./services/TransactionCategoryService";
+import { OPTIONAL_ANNOUNCED_CATEGORIES } from "./services/TransactionCategories";
+import { AmountRules } from "./services/AmountRules";
+import { AnnouncementLanguage } from "./services/AnnouncementTemplates";
+import { ChimeSound } from "./services/Chimes";
+import { buildPaymentAnnouncement } from "./services/AnnouncementBuilder";
+import {
+  SettingRange,
+  TTS_PITCH_RANGE,
+  TTS_RATE_RANGE,
+  TTS_VOLUME_RANGE,
+  describeVoice,
+} from "./services/TtsSettings";
+import {
+  PaymentEvent,
+  TRANSACTION_CATEGORIES,
+  formatVnd,
+} from "./services/parsers";
+
+// Payment spoken by "Preview"
+const SAMPLE_PAYMENT: PaymentEvent = {
+  amount: 1205000,
+  sender: "NGUYEN VAN A",
+  reference: null,
+  transactionId: null,
+  account: null,
+  sourceApp: "momo",
+  packageName: "",
+  rawText: "",
+  receivedAt: 0,
+  notificationKey: null,
+};
+
+const LANGUAGE_NAMES = { vi: "Vietnamese", en: "English" } as const;
+
+interface StepperRowProps {
+  label: string;
+  value: number;
+  range: SettingRange;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const StepperRow = ({
+  label,
+  value,
+  range,
+  format,
+  onChange,
+}: StepperRowProps) => (
+  <View style={styles.optionRow}>
+    <Text style={styles.optionText}>{label}</Text>
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={[
+          styles.smallButton,
+          value <= range.min && styles.disabledButton,
+        ]}
+        onPress={() => onChange(value - range.step)}
+        disabled={value <= range.min}
+      >
+        <Text style={styles.buttonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{format(value)}</Text>
+      <TouchableOpacity
+        style={[
+          styles.smallButton,
+          value >= range.max && styles.disabledButton,
+        ]}
+        onPress={() => onChange(value + range.step)}
+        disabled={value >= range.max}
+      >
+        <Text style={styles.buttonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+// Amount inputs: empty means the rule is off
+const formatAmountInput = (amount: number | null): string =>
+  amount ? formatVnd(amount) : "";
+
+const parseAmountInput = (value: string): number | null => {
+  const digits = value.replace(/[^\d]/g, "");
+  return digits ? parseInt(digits, 10) : null;
+};
+
+interface AmountRulesCardProps {
+  rules: AmountRules;
+  language: AnnouncementLanguage;
+  sounds: ChimeSound[];
+  onSave: (rules: AmountRules) => Promise<string | null>;
+}
+
+// Edited as a draft and saved together, so the rules are validated as a whole
+const AmountRulesCard = ({
+  rules,
+  language,
+  sounds,
+  onSave,
+}: AmountRulesCardProps) => {
+  const [minAmount, setMinAmount] = useState<string>("");
+  const [highValueAmount, setHighValueAmount] = useState<string>("");
+  const [repeatAmount, setRepeatAmount] = useState<string>("");
+  const [template, setTemplate] = useState<string>("");
+  const [chime, setChime] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMinAmount(formatAmountInput(rules.minAmount));
+    setHighValueAmount(formatAmountInput(rules.highValueAmount));
+    setRepeatAmount(formatAmountInput(rules.repeatAmount));
+    setTemplate(rules.highValueTemplates[language]);
+    setChime(rules.highValueChime);
+  }, [rules, language]);
+
+  const handleSave = async () => {
+    const error = await onSave({
+      minAmount: parseAmountInput(minAmount) ?? 0,
+      highValueAmount: parseAmountInput(highValueAmount),
+      highValueTemplates: {
+        ...rules.highValueTemplates,
+        [language]: template.trim() || rules.highValueTemplates[language],
+      },
+      highValueChime: chime,
+      repeatAmount: parseAmountInput(repeatAmount),
+    });
+    if (error) {
+      Alert.alert("Invalid Rules", error);
+      return;
+    }
+    Keyboard.dismiss();
+    Alert.alert("Rules Saved", "New payments will use these rules.");
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.subTitle}>Amount Rules</Text>
+      <Text style={styles.hintText}>
+        Leave an amount empty to turn the rule off. Payments that are not
+        announced are still saved in the history.
+      </Text>
+      <Text style={styles.label}>Don&apos;t announce below (đ)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={minAmount}
+        onChangeText={setMinAmount}
+        placeholder="Announce every payment"
+        keyboardType="number-pad"
+      />
+      <Text style={styles.label}>Large payments from (đ)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={highValueAmount}
+        onChangeText={setHighValueAmount}
+        placeholder="Off"
+        keyboardType="number-pad"
+      />
+      <Text style={styles.label}>Large payment template</Text>
+      <TextInput
+        style={[styles.textInput, styles.templateInput]}
+        value={template}
+        onChangeText={setTemplate}
+        multiline
+      />
+      <Text style={styles.label}>Large payment chime</Text>
+      <View style={styles.chipRow}>
+        <TouchableOpacity
+          style={[styles.chip, chime === null && styles.selectedChip]}
+          onPress={() => setChime(null)}
+        >
+          <Text
+            style={[styles.chipText, chime === null && styles.selectedChipText]}
+          >
+            Usual chime
+          </Text>
+        </TouchableOpacity>
+        {sounds.map((sound) => (
+          <TouchableOpacity
+            key={sound.id}
+            style={[styles.chip, chime === sound.id && styles.selectedChip]}
+            onPress={() => setChime(sound.id)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                chime === sound.id && styles.selectedChipText,
+              ]}
+            >
+              {sound.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.label}>Repeat twice from (đ)</Text>
+      <TextInput
+        style={styles.textInput}
+        value={repeatAmount}
+        onChangeText={setRepeatAmount}
+        placeholder="Off"
+        keyboardType="number-pad"
+      />
+      <TouchableOpacity style={styles.button} onPress={handleSave}>
+        <Text style={styles.buttonText}>Save Rules</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+// Rate 0.5 is the engine's normal speed
+const formatRate = (rate: number) => `${(rate * 2).toFixed(1)}×`;
+const formatPitch = (pitch: number) => pitch.toFixed(1);
+const formatVolume = (volume: number) => `${Math.round(volume * 100)}%`;
+
+const SettingsScreen = () => {
+  const {
+    settings,
+    language,
+    voices,
+    isLoadingVoices,
+    reloadVoices,
+    setVoice,
+    setRate,
+    setPitch,
+    setVolume,
+    resetSettings,
+  } = useTtsSettings();
+  const { settings: templateSettings } = useAnnouncementTemplates();
+  const { speak } = useBluetoothService();
+  const { settings: chimeSettings, sounds } = useChimeSettings();
+  const { rules, saveRules } = useAmountRules();
+  const { schedule } = useAnnouncementSchedule();
+  const { categories, setCategoryAnnounced } = useAnnouncedCategories();
+  const router = useRouter();
+
+  const selectedVoiceId = settings.voices[language] ?? null;
+
+  const handlePreview = () => {
+    speak(buildPaymentAnnouncement(SAMPLE_PAYMENT, templateSettings));
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      "Reset Voice Settings",
+      "Go back to normal speed, pitch and full volume?",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Reset", style: "destructive", onPress: resetSettings },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.outerContainer}
+      contentContainerStyle={styles.scrollContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      {/* Voice */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Voice</Text>
+        <Text style={styles.hintText}>
+          Voices installed for {LANGUAGE_NAMES[language]}, the language of your
+          announcement templates. More voices can be installed in the Android
+          text-to-speech settings.
+        </Text>
+        {isLoadingVoices ? (
+          <ActivityIndicator color="#2196F3" style={styles.loader} />
+        ) : (
+          <>
+            <TouchableOpacity
+              style={styles.voiceItem}
+              onPress={() => setVoice(null)}
+            >
+              <Text
+                style={[
+                  styles.voiceName,
+                  !selectedVoiceId && styles.selectedVoice,
+                ]}
+              >
+                {describeVoice(undefined)}
+              </Text>
+              {!selectedVoiceId && <Text style={styles.checkMark}>✓</Text>}
+            </TouchableOpacity>
+            {voices.map((voice) => (
+              <TouchableOpacity
+                key={voice.id}
+                style={styles.voiceItem}
+                onPress={() => setVoice(voice.id)}
+              >
+                <Text
+                  style={[
+                    styles.voiceName,
+                    voice.id === selectedVoiceId && styles.selectedVoice,
+                  ]}
+                >
+                  {describeVoice(voice)}
+                </Text>
+                {voice.id === selectedVoiceId && (
+                  <Text style={styles.checkMark}>✓</Text>
+                )}
+              </TouchableOpacity>
+            ))}
+            {voices.length === 0 && (
+              <Text style={styles.hintText}>
+                No other voices found for this language.
+              </Text>
+            )}
+          </>
+        )}
+        <TouchableOpacity style={styles.linkButton} onPress={reloadVoices}>
+          <Text style={styles.linkText}>Refresh Voices</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Speech */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Speech</Text>
+        <StepperRow
+          label="Speed"
+          value={settings.rate}
+          range={TTS_RATE_RANGE}
+          format={formatRate}
+          onChange={setRate}
+        />
+        <StepperRow
+          label="Pitch"
+          value={settings.pitch}
+          range={TTS_PITCH_RANGE}
+          format={formatPitch}
+          onChange={setPitch}
+        />
+        <StepperRow
+          label="Volume"
+          value={settings.volume}
+          range={TTS_VOLUME_RANGE}
+          format={formatVolume}
+          onChange={setVolume}
+        />
+        <TouchableOpacity
+          style={[styles.button, styles.previewButton]}
+          onPress={handlePreview}
+        >
+          <Text style={styles.buttonText}>Preview</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+          <Text style={styles.buttonText}>Reset to Defaults</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Amount rules */}
+      <AmountRulesCard
+        rules={rules}
+        language={language}
+        sounds={sounds}
+        onSave={saveRules}
+      />
+
+      {/* Chime */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Chime</Text>
+        <Text style={styles.hintText}>
+          {chimeSettings.enabled
+            ? "A chime is played before each payment announcement."
+            : "No chime is played before announcements."}
+        </Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => router.push("/chimes")}
+        >
+          <Text style={styles.buttonText}>Edit Chimes</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Quiet hours */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Announcement Hours</Text>
+        <Text style={styles.hintText}>
+          {!schedule.enabled
+            ? "Payments are announced at any time of day."
+            : isWithinSchedule(schedule, Date.now())
+              ? "Payments are announced during your hours, announcing now."
+              : "Payments are announced during your hours, quiet now."}
+        </Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => router.push("/schedule")}
+        >
+          <Text style={styles.buttonText}>Edit Hours</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Transaction types */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Other Transactions</Text>
+        <Text style={styles.hintText}>
+          Payments received are always announced. Choose what else to read out;
+          OTP messages are never spoken.
+        </Text>
+        <View style={styles.chipRow}>
+          {TRANSACTION_CATEGORIES.filter(({ category }) =>
+            OPTIONAL_ANNOUNCED_CATEGORIES.includes(category)
+          ).map(({ category, label }) => {
+            const isSelected = categories.includes(category);
+            return (
+              <TouchableOpacity
+                key={category}
+                style={[styles.chip, isSelected && styles.selectedChip]}
+                onPress={() => setCategoryAnnounced(category, !isSelected)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    isSelected && styles.selectedChipText,
+                  ]}
+                >
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContainer: {
+    paddingBottom: 20,
+  },
+  card: {
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#757575",
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: "#616161",
+    marginBottom: 6,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  templateInput: {
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E3F2FD",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    color: "#1565C0",
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  loader: {
+    marginVertical: 10,
+  },
+  voiceItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  voiceName: {
+    flex: 1,
+    fontSize: 14,
+  },
+  selectedVoice: {
+    color: "#1565C0",
+    fontWeight: "bold",
+  },
+  checkMark: {
+    color: "#2196F3",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+  linkButton: {
+    marginTop: 10,
+    alignItems: "center",
+  },
+  linkText: {
+    color: "#2196F3",
+    fontWeight: "bold",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: "center",
+    fontSize: 14,
+  },
+  smallButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#2196F3",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  disabledButton: {
+    backgroundColor: "#B0BEC5",
+  },
+  button: {
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  previewButton: {
+    marginTop: 10,
+  },
+  resetButton: {
+    backgroundColor: "#E53935",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 10,
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+});
+
+export default SettingsScreen;
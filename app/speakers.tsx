@@ -0,0 +1,324 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  TextInput,
+  Keyboard,
+} from "react-native";
+import useSpeakerRouting from "./services/SpeakerRoutingService";
+import { SpeakerRoutingRule } from "./services/SpeakerRouting";
+import { getRegisteredParsers, getSourceAppName } from "./services/parsers";
+import { getDeviceAddress } from "./services/bluetooth";
+
+// Wallets and banks a rule can match
+const SOURCE_APPS = getRegisteredParsers().map((parser) => parser.id);
+
+const SpeakerRoutingScreen = () => {
+  const { rules, speakers, addRule, deleteRule, moveRule } =
+    useSpeakerRouting();
+
+  const [sourceApp, setSourceApp] = useState<string | null>(null);
+  const [account, setAccount] = useState<string>("");
+  const [selectedSpeakers, setSelectedSpeakers] = useState<string[]>([]);
+
+  const getSpeakerName = (address: string): string => {
+    const speaker = speakers.find((s) => getDeviceAddress(s) === address);
+    return speaker?.name || address;
+  };
+
+  const describeMatch = (rule: SpeakerRoutingRule): string => {
+    const parts = [
+      rule.sourceApp ? getSourceAppName(rule.sourceApp) : "Any app",
+    ];
+    if (rule.account) parts.push(`account …${rule.account}`);
+    return parts.join(" · ");
+  };
+
+  const toggleSpeaker = (address: string) => {
+    setSelectedSpeakers((current) =>
+      current.includes(address)
+        ? current.filter((item) => item !== address)
+        : [...current, address]
+    );
+  };
+
+  const handleAddRule = async () => {
+    if (selectedSpeakers.length === 0) {
+      Alert.alert("No Speaker", "Please select at least one speaker");
+      return;
+    }
+    if (!sourceApp && !account.trim()) {
+      Alert.alert(
+        "Rule Matches Everything",
+        "Please choose a wallet or enter an account number"
+      );
+      return;
+    }
+
+    await addRule({
+      sourceApp,
+      account: account.trim() || null,
+      speakers: selectedSpeakers,
+    });
+    setSourceApp(null);
+    setAccount("");
+    setSelectedSpeakers([]);
+    Keyboard.dismiss();
+  };
+
+  const handleDeleteRule = (rule: SpeakerRoutingRule) => {
+    Alert.alert("Delete Rule", `Delete the rule for ${describeMatch(rule)}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => deleteRule(rule.id),
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={styles.outerContainer}
+      contentContainerStyle={styles.scrollContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.card}>
+        <Text style={styles.hintText}>
+          Payments are announced on every connected speaker unless a rule below
+          matches. Rules are checked from top to bottom. Android plays on one
+          Bluetooth speaker at a time, so several speakers announce one after
+          another.
+        </Text>
+      </View>
+
+      {/* New rule */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Add Rule</Text>
+        <Text style={styles.label}>Wallet or bank</Text>
+        <View style={styles.chipRow}>
+          {[null, ...SOURCE_APPS].map((app) => (
+            <TouchableOpacity
+              key={app ?? "any"}
+              style={[styles.chip, sourceApp === app && styles.selectedChip]}
+              onPress={() => setSourceApp(app)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  sourceApp === app && styles.selectedChipText,
+                ]}
+              >
+                {app ? getSourceAppName(app) : "Any"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Receiving account (last digits)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={account}
+          onChangeText={setAccount}
+          placeholder="e.g. 6789, leave empty for any account"
+          keyboardType="number-pad"
+        />
+
+        <Text style={styles.label}>Announce on</Text>
+        {speakers.length === 0 ? (
+          <Text style={styles.hintText}>
+            Connect a speaker on the main screen first.
+          </Text>
+        ) : (
+          <View style={styles.chipRow}>
+            {speakers.map((speaker) => {
+              const address = getDeviceAddress(speaker);
+              const isSelected = selectedSpeakers.includes(address);
+              return (
+                <TouchableOpacity
+                  key={address}
+                  style={[styles.chip, isSelected && styles.selectedChip]}
+                  onPress={() => toggleSpeaker(address)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      isSelected && styles.selectedChipText,
+                    ]}
+                  >
+                    {speaker.name || address}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.button} onPress={handleAddRule}>
+          <Text style={styles.buttonText}>Add Rule</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Existing rules */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Rules</Text>
+        {rules.length === 0 ? (
+          <Text style={styles.hintText}>No rules, every speaker announces</Text>
+        ) : (
+          rules.map((rule, index) => (
+            <View key={rule.id} style={styles.ruleItem}>
+              <View style={styles.ruleTexts}>
+                <Text style={styles.ruleMatch}>{describeMatch(rule)}</Text>
+                <Text style={styles.ruleSpeakers}>
+                  → {rule.speakers.map(getSpeakerName).join(", ")}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[
+                  styles.smallButton,
+                  index === 0 && styles.disabledButton,
+                ]}
+                onPress={() => moveRule(rule.id, -1)}
+                disabled={index === 0}
+              >
+                <Text style={styles.buttonText}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.smallButton,
+                  index === rules.length - 1 && styles.disabledButton,
+                ]}
+                onPress={() => moveRule(rule.id, 1)}
+                disabled={index === rules.length - 1}
+              >
+                <Text style={styles.buttonText}>↓</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDeleteRule(rule)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContainer: {
+    paddingBottom: 20,
+  },
+  card: {
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: "#616161",
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#757575",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E3F2FD",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    color: "#1565C0",
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  button: {
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  smallButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#2196F3",
+    alignItems: "center",
+    justifyContent: "center",
+    marginLeft: 6,
+  },
+  disabledButton: {
+    backgroundColor: "#B0BEC5",
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+  ruleItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  ruleTexts: {
+    flex: 1,
+  },
+  ruleMatch: {
+    fontSize: 16,
+  },
+  ruleSpeakers: {
+    fontSize: 14,
+    color: "#1565C0",
+    marginTop: 2,
+  },
+  deleteText: {
+    color: "#E53935",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+});
+
+export default SpeakerRoutingScreen;
@@ -0,0 +1,481 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  TextInput,
+  Keyboard,
+  Switch,
+  ActivityIndicator,
+} from "react-native";
+import useSalesSummary from "./services/SalesSummaryService";
+import useBluetoothService from "./services/BluetoothService";
+import useAnnouncementTemplates from "./services/AnnouncementTemplateService";
+import { buildPaymentSummaryAnnouncement } from "./services/AnnouncementBuilder";
+import {
+  addDays,
+  formatTimeOfDay,
+  getDayStart,
+  parseTimeOfDay,
+} from "./services/SalesSummary";
+import { formatVnd, getSourceAppName } from "./services/parsers";
+
+// Closing time moves in quarter hours
+const RECAP_STEP = 15;
+
+const formatDay = (timestamp: number): string => {
+  if (timestamp === getDayStart(Date.now())) return "Today";
+  if (timestamp === addDays(Date.now(), -1)) return "Yesterday";
+
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getDate())}/${pad(
+    date.getMonth() + 1
+  )}/${date.getFullYear()}`;
+};
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return formatTimeOfDay(date.getHours() * 60 + date.getMinutes());
+};
+
+const SalesSummaryScreen = () => {
+  const [day, setDay] = useState<number>(() => getDayStart(Date.now()));
+  // Index of the selected shift, null for the whole day
+  const [shiftIndex, setShiftIndex] = useState<number | null>(null);
+  const [shiftName, setShiftName] = useState<string>("");
+  const [shiftStart, setShiftStart] = useState<string>("");
+  const [shiftEnd, setShiftEnd] = useState<string>("");
+
+  const { speak } = useBluetoothService();
+  const { settings: templateSettings } = useAnnouncementTemplates();
+  const {
+    summary,
+    isLoading,
+    settings,
+    setRecapEnabled,
+    setRecapTime,
+    addShift,
+    deleteShift,
+  } = useSalesSummary(day, shiftIndex);
+
+  const isToday = day === getDayStart(Date.now());
+
+  const handleSpeak = () => {
+    speak(
+      buildPaymentSummaryAnnouncement(
+        summary.count,
+        summary.totalAmount,
+        templateSettings.language
+      )
+    );
+  };
+
+  const handleAddShift = async () => {
+    const start = parseTimeOfDay(shiftStart);
+    const end = parseTimeOfDay(shiftEnd);
+    if (!shiftName.trim() || start === null || end === null) {
+      Alert.alert(
+        "Missing Information",
+        "Please enter a name and start and end times like 06:00"
+      );
+      return;
+    }
+    if (start === end) {
+      Alert.alert("Invalid Shift", "A shift must end after it starts");
+      return;
+    }
+
+    await addShift({ name: shiftName.trim(), start, end });
+    setShiftName("");
+    setShiftStart("");
+    setShiftEnd("");
+    Keyboard.dismiss();
+  };
+
+  const handleDeleteShift = (index: number) => {
+    Alert.alert("Delete Shift", `Delete "${settings.shifts[index].name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          setShiftIndex(null);
+          deleteShift(index);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={styles.outerContainer}
+      contentContainerStyle={styles.scrollContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      {/* Period */}
+      <View style={styles.card}>
+        <View style={styles.dayRow}>
+          <TouchableOpacity
+            style={styles.smallButton}
+            onPress={() => setDay(addDays(day, -1))}
+          >
+            <Text style={styles.buttonText}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.dayText}>{formatDay(day)}</Text>
+          <TouchableOpacity
+            style={[styles.smallButton, isToday && styles.disabledButton]}
+            onPress={() => setDay(addDays(day, 1))}
+            disabled={isToday}
+          >
+            <Text style={styles.buttonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chipRow}>
+          <TouchableOpacity
+            style={[styles.chip, shiftIndex === null && styles.selectedChip]}
+            onPress={() => setShiftIndex(null)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                shiftIndex === null && styles.selectedChipText,
+              ]}
+            >
+              Whole Day
+            </Text>
+          </TouchableOpacity>
+          {settings.shifts.map((shift, index) => (
+            <TouchableOpacity
+              key={`${shift.name}-${index}`}
+              style={[styles.chip, shiftIndex === index && styles.selectedChip]}
+              onPress={() => setShiftIndex(index)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  shiftIndex === index && styles.selectedChipText,
+                ]}
+              >
+                {shift.name} {formatTimeOfDay(shift.start)}–
+                {formatTimeOfDay(shift.end)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Totals */}
+      <View style={styles.card}>
+        {isLoading ? (
+          <ActivityIndicator color="#2196F3" />
+        ) : (
+          <>
+            <View style={styles.totalsRow}>
+              <View style={styles.totalBox}>
+                <Text style={styles.totalValue}>{summary.count}</Text>
+                <Text style={styles.label}>Payments</Text>
+              </View>
+              <View style={styles.totalBox}>
+                <Text style={styles.totalValue}>
+                  {formatVnd(summary.totalAmount)} đ
+                </Text>
+                <Text style={styles.label}>Total</Text>
+              </View>
+            </View>
+            {summary.largest && (
+              <Text style={styles.largestText}>
+                Largest: {formatVnd(summary.largest.amount)} đ from{" "}
+                {summary.largest.sender || "unknown sender"} (
+                {getSourceAppName(summary.largest.sourceApp)},{" "}
+                {formatTime(summary.largest.receivedAt)})
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.buttonSpacing,
+                summary.count === 0 && styles.disabledButton,
+              ]}
+              onPress={handleSpeak}
+              disabled={summary.count === 0}
+            >
+              <Text style={styles.buttonText}>Speak Totals</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {/* By wallet */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>By Wallet</Text>
+        {summary.byWallet.length === 0 ? (
+          <Text style={styles.hintText}>No payments in this period</Text>
+        ) : (
+          summary.byWallet.map((wallet) => (
+            <View key={wallet.sourceApp} style={styles.walletItem}>
+              <View style={styles.walletTexts}>
+                <Text style={styles.walletName}>
+                  {getSourceAppName(wallet.sourceApp)}
+                </Text>
+                <Text style={styles.hintText}>
+                  {wallet.count} {wallet.count === 1 ? "payment" : "payments"}
+                </Text>
+              </View>
+              <Text style={styles.walletAmount}>
+                {formatVnd(wallet.totalAmount)} đ
+              </Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      {/* Closing recap */}
+      <View style={styles.card}>
+        <View style={styles.optionRow}>
+          <Text style={styles.subTitle}>Spoken Recap</Text>
+          <Switch
+            value={settings.recapEnabled}
+            onValueChange={setRecapEnabled}
+          />
+        </View>
+        <Text style={styles.hintText}>
+          Reads out the day&apos;s payments and total at closing time while
+          Noti-Fin is running.
+        </Text>
+        <View style={styles.optionRow}>
+          <Text style={styles.optionText}>Closing time</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.smallButton}
+              onPress={() => setRecapTime(settings.recapTime - RECAP_STEP)}
+            >
+              <Text style={styles.buttonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {formatTimeOfDay(settings.recapTime)}
+            </Text>
+            <TouchableOpacity
+              style={styles.smallButton}
+              onPress={() => setRecapTime(settings.recapTime + RECAP_STEP)}
+            >
+              <Text style={styles.buttonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      {/* Shifts */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Shifts</Text>
+        {settings.shifts.map((shift, index) => (
+          <View key={`${shift.name}-${index}`} style={styles.walletItem}>
+            <Text style={styles.walletTexts}>
+              {shift.name}: {formatTimeOfDay(shift.start)}–
+              {formatTimeOfDay(shift.end)}
+              {shift.end < shift.start ? " (overnight)" : ""}
+            </Text>
+            <TouchableOpacity onPress={() => handleDeleteShift(index)}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TextInput
+          style={[styles.textInput, styles.buttonSpacing]}
+          value={shiftName}
+          onChangeText={setShiftName}
+          placeholder="Shift name"
+        />
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.textInput, styles.timeInput, styles.inputSpacing]}
+            value={shiftStart}
+            onChangeText={setShiftStart}
+            placeholder="Start (06:00)"
+            keyboardType="numbers-and-punctuation"
+          />
+          <TextInput
+            style={[styles.textInput, styles.timeInput]}
+            value={shiftEnd}
+            onChangeText={setShiftEnd}
+            placeholder="End (14:00)"
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+        <TouchableOpacity style={styles.button} onPress={handleAddShift}>
+          <Text style={styles.buttonText}>Add Shift</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContainer: {
+    paddingBottom: 20,
+  },
+  card: {
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: "#616161",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#757575",
+  },
+  dayRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  dayText: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E3F2FD",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    color: "#1565C0",
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  totalsRow: {
+    flexDirection: "row",
+  },
+  totalBox: {
+    flex: 1,
+    alignItems: "center",
+  },
+  totalValue: {
+    fontSize: 22,
+    fontWeight: "bold",
+    color: "#4CAF50",
+  },
+  largestText: {
+    fontSize: 14,
+    marginTop: 12,
+  },
+  walletItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#eee",
+  },
+  walletTexts: {
+    flex: 1,
+  },
+  walletName: {
+    fontSize: 16,
+  },
+  walletAmount: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#4CAF50",
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: "center",
+    fontSize: 14,
+  },
+  smallButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#2196F3",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  disabledButton: {
+    backgroundColor: "#B0BEC5",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  inputRow: {
+    flexDirection: "row",
+  },
+  timeInput: {
+    flex: 1,
+  },
+  inputSpacing: {
+    marginRight: 10,
+  },
+  button: {
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  buttonSpacing: {
+    marginTop: 12,
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+  deleteText: {
+    color: "#E53935",
+    fontWeight: "bold",
+    marginLeft: 10,
+  },
+});
+
+export default SalesSummaryScreen;
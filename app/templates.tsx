@@ -0,0 +1,357 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  TextInput,
+} from "react-native";
+import useAnnouncementTemplates from "./services/AnnouncementTemplateService";
+import useBluetoothService from "./services/BluetoothService";
+import {
+  ANNOUNCEMENT_LANGUAGES,
+  AnnouncementLanguage,
+  TEMPLATE_PLACEHOLDERS,
+} from "./services/AnnouncementTemplates";
+import {
+  PaymentEvent,
+  getRegisteredParsers,
+  getSourceAppName,
+} from "./services/parsers";
+
+// Wallets that can have their own template
+const SOURCE_APPS = getRegisteredParsers().map((parser) => parser.id);
+
+// Payment used for the live preview and "Test Speak"
+const buildSamplePayment = (sourceApp: string | null): PaymentEvent => ({
+  amount: 1205000,
+  sender: "NGUYEN VAN A",
+  reference: "Thanh toan don hang 123",
+  transactionId: null,
+  account: null,
+  sourceApp: sourceApp || "momo",
+  packageName: "",
+  rawText: "",
+  receivedAt: Date.now(),
+  notificationKey: null,
+});
+
+const AnnouncementTemplatesScreen = () => {
+  const {
+    settings,
+    isLoaded,
+    setLanguage,
+    getTemplate,
+    setTemplate,
+    resetTemplate,
+    renderPreview,
+  } = useAnnouncementTemplates();
+  const { speak } = useBluetoothService();
+
+  const [editLanguage, setEditLanguage] = useState<AnnouncementLanguage>(
+    settings.language
+  );
+  const [sourceApp, setSourceApp] = useState<string | null>(null);
+  const [draft, setDraft] = useState<string>("");
+
+  const savedTemplate = getTemplate(editLanguage, sourceApp);
+  const hasOverride = Boolean(
+    sourceApp && settings.appTemplates[editLanguage]?.[sourceApp]
+  );
+
+  // Load the saved template whenever the selection changes
+  useEffect(() => {
+    setDraft(savedTemplate);
+  }, [savedTemplate]);
+
+  useEffect(() => {
+    if (isLoaded) setEditLanguage(settings.language);
+  }, [isLoaded, settings.language]);
+
+  const preview = useMemo(
+    () => renderPreview(draft, buildSamplePayment(sourceApp), editLanguage),
+    [draft, sourceApp, editLanguage, renderPreview]
+  );
+
+  const insertPlaceholder = (placeholder: string) => {
+    setDraft((current) => `${current.trimEnd()} {${placeholder}}`.trimStart());
+  };
+
+  const handleSave = async () => {
+    if (!draft.trim()) {
+      Alert.alert("Empty Template", "Please enter a template to save");
+      return;
+    }
+    await setTemplate(editLanguage, sourceApp, draft.trim());
+    Alert.alert("Template Saved", "New payments will use this template.");
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      sourceApp ? "Remove Template" : "Reset Template",
+      sourceApp
+        ? `${getSourceAppName(sourceApp)} will use the default template again.`
+        : "Restore the built-in template for this language?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: sourceApp ? "Remove" : "Reset",
+          style: "destructive",
+          onPress: () => resetTemplate(editLanguage, sourceApp),
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.outerContainer}
+      contentContainerStyle={styles.scrollContainer}
+    >
+      {/* Announcement language */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Announcement Language</Text>
+        <View style={styles.chipRow}>
+          {ANNOUNCEMENT_LANGUAGES.map((language) => (
+            <TouchableOpacity
+              key={language.key}
+              style={[
+                styles.chip,
+                settings.language === language.key && styles.selectedChip,
+              ]}
+              onPress={() => setLanguage(language.key)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  settings.language === language.key && styles.selectedChipText,
+                ]}
+              >
+                {language.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Template editor */}
+      <View style={styles.card}>
+        <Text style={styles.subTitle}>Edit Template</Text>
+        <View style={styles.chipRow}>
+          {ANNOUNCEMENT_LANGUAGES.map((language) => (
+            <TouchableOpacity
+              key={language.key}
+              style={[
+                styles.chip,
+                editLanguage === language.key && styles.selectedChip,
+              ]}
+              onPress={() => setEditLanguage(language.key)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  editLanguage === language.key && styles.selectedChipText,
+                ]}
+              >
+                {language.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Wallet</Text>
+        <View style={styles.chipRow}>
+          {[null, ...SOURCE_APPS].map((app) => (
+            <TouchableOpacity
+              key={app ?? "default"}
+              style={[styles.chip, sourceApp === app && styles.selectedChip]}
+              onPress={() => setSourceApp(app)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  sourceApp === app && styles.selectedChipText,
+                ]}
+              >
+                {app ? getSourceAppName(app) : "Default"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {sourceApp && !hasOverride && (
+          <Text style={styles.hintText}>
+            {getSourceAppName(sourceApp)} uses the default template. Saving
+            creates a template just for this wallet.
+          </Text>
+        )}
+
+        <TextInput
+          style={styles.textInput}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Template"
+          multiline
+        />
+
+        <Text style={styles.label}>Insert placeholder</Text>
+        <View style={styles.chipRow}>
+          {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+            <TouchableOpacity
+              key={placeholder}
+              style={styles.chip}
+              onPress={() => insertPlaceholder(placeholder)}
+            >
+              <Text style={styles.chipText}>{`{${placeholder}}`}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Live preview */}
+        <Text style={styles.label}>Preview</Text>
+        <View style={styles.previewBox}>
+          <Text style={styles.previewText}>{preview}</Text>
+        </View>
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.testButton]}
+            onPress={() => speak(preview)}
+          >
+            <Text style={styles.buttonText}>Test Speak</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.button,
+              draft.trim() === savedTemplate && styles.disabledButton,
+            ]}
+            onPress={handleSave}
+            disabled={draft.trim() === savedTemplate}
+          >
+            <Text style={styles.buttonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        {(!sourceApp || hasOverride) && (
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.buttonText}>
+              {sourceApp ? "Remove Wallet Template" : "Reset to Default"}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  outerContainer: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+  },
+  scrollContainer: {
+    paddingBottom: 20,
+  },
+  card: {
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    backgroundColor: "white",
+    borderRadius: 8,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  subTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: "#616161",
+    marginBottom: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#757575",
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#E3F2FD",
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    color: "#1565C0",
+  },
+  selectedChipText: {
+    color: "white",
+    fontWeight: "bold",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 10,
+    minHeight: 80,
+    textAlignVertical: "top",
+    marginBottom: 10,
+  },
+  previewBox: {
+    backgroundColor: "#F1F8E9",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  previewText: {
+    fontSize: 16,
+    color: "#33691E",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  button: {
+    flex: 1,
+    backgroundColor: "#2196F3",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  testButton: {
+    backgroundColor: "#4CAF50",
+    marginRight: 10,
+  },
+  resetButton: {
+    backgroundColor: "#E53935",
+    padding: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 10,
+  },
+  disabledButton: {
+    backgroundColor: "#B0BEC5",
+  },
+  buttonText: {
+    color: "white",
+    fontWeight: "bold",
+    fontSize: 14,
+  },
+});
+
+export default AnnouncementTemplatesScreen;
@@ -0,0 +1,13 @@
+// Custom entry point: expo-router renders the app, the headless task
+// announces payments while the UI is closed (Android only)
+import "expo-router/entry";
+import { AppRegistry } from "react-native";
+import {
+  BACKGROUND_ANNOUNCEMENT_TASK,
+  backgroundAnnouncementTask,
+} from "./app/services/BackgroundAnnouncementTask";
+
+AppRegistry.registerHeadlessTask(
+  BACKGROUND_ANNOUNCEMENT_TASK,
+  () => backgroundAnnouncementTask
+);